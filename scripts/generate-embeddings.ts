@@ -1,10 +1,10 @@
 #!/usr/bin/env tsx
 /**
  * Script to generate and cache template embeddings
+ * Only new or changed templates are embedded; the cache keeps the rest.
  * Run with: pnpm generate-embeddings
  */
 
-import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -12,7 +12,8 @@ import 'dotenv/config';
 
 import { TemplateService } from '../src/services/template-service.js';
 import { EmbeddingService } from '../src/services/embedding-service.js';
-import type { EmbeddingCache } from '../src/types/index.js';
+import { SearchService } from '../src/services/search-service.js';
+import { getEmbeddingsCachePath } from '../src/utils/config.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = path.resolve(__dirname, '../templates');
@@ -24,6 +25,11 @@ async function main(): Promise<void> {
   const templateService = new TemplateService(TEMPLATES_DIR);
   const embeddingService = new EmbeddingService();
 
+  if (!embeddingService.isAvailable()) {
+    console.log('⚠️  No embedding provider configured. Set an API key or EMBEDDING_PROVIDER=ollama.');
+    process.exit(1);
+  }
+
   // Get all template IDs
   const templateIds = await templateService.getAllTemplateIds();
   console.log(`📦 Found ${templateIds.length} templates\n`);
@@ -33,42 +39,18 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  // Load all templates
-  const templates = [];
-  for (const id of templateIds) {
-    const metadata = await templateService.loadTemplate(id);
-    if (metadata) {
-      templates.push(metadata);
-      console.log(`  ✅ Loaded: ${id}`);
-    } else {
-      console.log(`  ⚠️  Failed to load: ${id}`);
-    }
-  }
-
-  console.log(`\n🧠 Generating embeddings for ${templates.length} templates...\n`);
+  console.log(`🧠 Updating embeddings with ${embeddingService.getModelName()}...\n`);
 
-  // Generate embeddings
-  const embeddings = await embeddingService.generateBatchEmbeddings(templates);
+  // Initializing search re-embeds stale or missing templates and writes the cache back
+  const outputPath = getEmbeddingsCachePath();
+  const searchService = new SearchService(templateService, embeddingService, outputPath);
+  await searchService.initialize();
 
-  console.log(`\n✨ Generated ${embeddings.size} embeddings\n`);
-
-  // Convert Map to plain object for JSON serialization
-  const embeddingsObject: Record<string, number[]> = {};
-  for (const [id, embedding] of embeddings) {
-    embeddingsObject[id] = embedding;
+  if (!searchService.hasSemanticSearch()) {
+    console.log('⚠️  Some templates could not be embedded. See the log above.');
+    process.exit(1);
   }
 
-  // Create cache object
-  const cache: EmbeddingCache = {
-    embeddings: embeddingsObject,
-    generatedAt: new Date().toISOString(),
-    model: embeddingService.getModelName(),
-  };
-
-  // Save to file
-  const outputPath = path.join(TEMPLATES_DIR, 'embeddings.json');
-  await fs.writeFile(outputPath, JSON.stringify(cache, null, 2));
-
   console.log(`💾 Saved embeddings to: ${outputPath}`);
   console.log('\n✅ Done!');
 }
@@ -1,12 +1,19 @@
 #!/usr/bin/env tsx
 /**
  * Script to validate all templates
- * Run with: pnpm validate-templates
+ * Run with: pnpm validate-templates [templates-dir ...]
+ * (defaults to the bundled templates; pass team template roots to validate them too)
  */
 
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import semver from 'semver';
+
+import { CHANGELOG_FILE, FEATURES_DIR, TemplateService, VERSIONS_DIR } from '../src/services/template-service.js';
+import { mergeTemplateCode, mergeTemplateMetadata, parseParentReference } from '../src/utils/template-inheritance.js';
+import { findPlaceholders } from '../src/utils/template-variables.js';
+import type { TemplateMetadata as ResolvedMetadata } from '../src/types/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = path.resolve(__dirname, '../templates');
@@ -26,6 +33,8 @@ const VALID_CATEGORIES = [
 
 const VALID_LANGUAGES = ['typescript', 'python'];
 
+const VALID_VARIABLE_TYPES = ['string', 'number', 'boolean'];
+
 interface TemplateMetadata {
   id: string;
   name: string;
@@ -34,6 +43,14 @@ interface TemplateMetadata {
   category: string;
   language: string;
   framework: string;
+  extends?: string;
+  removeFiles?: string[];
+  abstract?: boolean;
+  removedVersions?: Array<{
+    version: string;
+    reason: string;
+    removedAt?: string;
+  }>;
   dependencies: Record<string, string>;
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
@@ -45,21 +62,67 @@ interface TemplateMetadata {
   }>;
   files: Array<{
     path: string;
+    source: string;
     description: string;
     isRequired: boolean;
   }>;
   tags: string[];
+  variant?: string;
+  variantArgument?: string;
+  categoryLabel?: string;
   usage: {
     installation: string;
     configuration: string;
     example: string;
   };
   relatedTemplates?: string[];
+  variables?: Array<{
+    name: string;
+    description: string;
+    type: string;
+    default?: string | number | boolean;
+    pattern?: string;
+  }>;
+  safeguards?: Array<{
+    name: string;
+    description: string;
+    source: string;
+    pattern: string;
+  }>;
+  features?: Array<{
+    name: string;
+    description: string;
+    files?: TemplateMetadata['files'];
+    dependencies?: Record<string, string>;
+    envVariables?: TemplateMetadata['envVariables'];
+    schemaChanges?: Array<{
+      path: string;
+      description: string;
+      content: string;
+    }>;
+    steps: string[];
+  }>;
   author: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Raw metadata of every template, keyed by ID (the first root holding an ID wins)
+ */
+type TemplateCatalog = Map<string, CatalogEntry>;
+
+/**
+ * Raw metadata fields the cross-template checks read
+ */
+interface CatalogEntry {
+  extends?: unknown;
+  abstract?: unknown;
+  variant?: unknown;
+  variantArgument?: unknown;
+  categoryLabel?: unknown;
+}
+
 interface ValidationResult {
   templateId: string;
   valid: boolean;
@@ -120,13 +183,35 @@ function validateMetadata(
     }
   }
 
+  // Validate inheritance; a child may omit what it inherits
+  const inherits = m.extends !== undefined;
+  if (inherits) {
+    if (typeof m.extends !== 'string' || !/^[a-z]+\/[a-z]+\/[a-z]+\/[a-z0-9-]+(@[^@\s]+)?$/.test(m.extends)) {
+      errors.push('extends must be a template ID (language/framework/category/name), optionally pinned with @version');
+    } else if (parseParentReference(m.extends).templateId === templateId) {
+      errors.push('extends must not reference the template itself');
+    }
+  }
+  if (m.abstract !== undefined && typeof m.abstract !== 'boolean') {
+    errors.push('abstract must be a boolean');
+  }
+  if (m.removeFiles !== undefined) {
+    if (!inherits) {
+      errors.push('removeFiles is only allowed together with extends');
+    } else if (!Array.isArray(m.removeFiles) || m.removeFiles.some((file) => typeof file !== 'string')) {
+      errors.push('removeFiles must be an array of file paths');
+    }
+  }
+
   // Validate dependencies
-  if (typeof m.dependencies !== 'object' || m.dependencies === null) {
+  if ((!inherits || m.dependencies !== undefined) && (typeof m.dependencies !== 'object' || m.dependencies === null)) {
     errors.push('dependencies must be an object');
   }
 
   // Validate envVariables
-  if (!Array.isArray(m.envVariables)) {
+  if (inherits && m.envVariables === undefined) {
+    // Inherited from the parent
+  } else if (!Array.isArray(m.envVariables)) {
     errors.push('envVariables must be an array');
   } else {
     for (let i = 0; i < m.envVariables.length; i++) {
@@ -141,14 +226,19 @@ function validateMetadata(
   }
 
   // Validate files
-  if (!Array.isArray(m.files) || m.files.length === 0) {
-    errors.push('files must be a non-empty array');
+  if (inherits && m.files === undefined) {
+    // Inherited from the parent
+  } else if (!Array.isArray(m.files) || (!inherits && m.files.length === 0)) {
+    errors.push(inherits ? 'files must be an array' : 'files must be a non-empty array');
   } else {
     for (let i = 0; i < m.files.length; i++) {
       const file = m.files[i] as Record<string, unknown>;
       if (typeof file.path !== 'string') {
         errors.push(`files[${i}].path must be a string`);
       }
+      if (typeof file.source !== 'string' || file.source.length === 0) {
+        errors.push(`files[${i}].source is required and must be a non-empty string`);
+      }
       if (typeof file.isRequired !== 'boolean') {
         errors.push(`files[${i}].isRequired must be a boolean`);
       }
@@ -156,12 +246,34 @@ function validateMetadata(
   }
 
   // Validate tags
-  if (!Array.isArray(m.tags) || m.tags.length === 0) {
-    errors.push('tags must be a non-empty array');
+  if (inherits && m.tags === undefined) {
+    // Inherited from the parent
+  } else if (!Array.isArray(m.tags) || (!inherits && m.tags.length === 0)) {
+    errors.push(inherits ? 'tags must be an array' : 'tags must be a non-empty array');
+  }
+
+  // Validate variant
+  if (m.variant !== undefined && (typeof m.variant !== 'string' || !/^[a-z0-9-]+$/.test(m.variant))) {
+    errors.push('variant must be lowercase letters, digits and dashes (e.g., "pricing-table")');
+  }
+
+  // Validate the implement_* prompt naming
+  if (
+    m.variantArgument !== undefined &&
+    (typeof m.variantArgument !== 'string' ||
+      !/^[a-z][a-zA-Z0-9]*$/.test(m.variantArgument) ||
+      ['framework', 'features'].includes(m.variantArgument))
+  ) {
+    errors.push('variantArgument must be a camelCase name other than "framework" and "features" (e.g., "provider")');
+  }
+  if (m.categoryLabel !== undefined && (typeof m.categoryLabel !== 'string' || m.categoryLabel.trim() === '')) {
+    errors.push('categoryLabel must be a non-empty string (e.g., "File Storage")');
   }
 
   // Validate usage
-  if (typeof m.usage !== 'object' || m.usage === null) {
+  if (inherits && m.usage === undefined) {
+    // Inherited from the parent
+  } else if (typeof m.usage !== 'object' || m.usage === null) {
     errors.push('usage must be an object');
   } else {
     const usage = m.usage as Record<string, unknown>;
@@ -172,9 +284,202 @@ function validateMetadata(
     }
   }
 
+  // Validate removed versions
+  if (m.removedVersions !== undefined) {
+    if (!Array.isArray(m.removedVersions)) {
+      errors.push('removedVersions must be an array');
+    } else {
+      for (let i = 0; i < m.removedVersions.length; i++) {
+        const removed = m.removedVersions[i] as Record<string, unknown>;
+        if (typeof removed.version !== 'string' || semver.valid(removed.version) !== removed.version) {
+          errors.push(`removedVersions[${i}].version must be a semver version`);
+        } else if (removed.version === m.version) {
+          errors.push(`removedVersions[${i}].version is the current version`);
+        }
+        if (typeof removed.reason !== 'string' || removed.reason.length === 0) {
+          errors.push(`removedVersions[${i}].reason is required and must be a non-empty string`);
+        }
+      }
+    }
+  }
+
+  // Validate safeguards
+  if (m.safeguards !== undefined) {
+    if (!Array.isArray(m.safeguards)) {
+      errors.push('safeguards must be an array');
+    } else {
+      for (let i = 0; i < m.safeguards.length; i++) {
+        const safeguard = m.safeguards[i] as Record<string, unknown>;
+        for (const field of ['name', 'description', 'source', 'pattern']) {
+          if (typeof safeguard[field] !== 'string' || (safeguard[field] as string).length === 0) {
+            errors.push(`safeguards[${i}].${field} is required and must be a non-empty string`);
+          }
+        }
+        if (typeof safeguard.pattern === 'string') {
+          try {
+            new RegExp(safeguard.pattern, 'm');
+          } catch {
+            errors.push(`safeguards[${i}].pattern is not a valid regular expression`);
+          }
+        }
+      }
+    }
+  }
+
+  // Validate features
+  if (m.features !== undefined) {
+    if (!Array.isArray(m.features)) {
+      errors.push('features must be an array');
+    } else {
+      const names = new Set<string>();
+      for (let i = 0; i < m.features.length; i++) {
+        const feature = m.features[i] as Record<string, unknown>;
+        if (typeof feature.name !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(feature.name)) {
+          errors.push(`features[${i}].name must be lowercase letters, digits and dashes (e.g., "role-based-access")`);
+        } else if (names.has(feature.name)) {
+          errors.push(`features[${i}].name "${feature.name}" is declared twice`);
+        } else {
+          names.add(feature.name);
+        }
+        if (typeof feature.description !== 'string' || feature.description.length === 0) {
+          errors.push(`features[${i}].description is required and must be a non-empty string`);
+        }
+        if (!Array.isArray(feature.steps) || feature.steps.some((step) => typeof step !== 'string')) {
+          errors.push(`features[${i}].steps must be an array of strings`);
+        }
+        if (feature.dependencies !== undefined && (typeof feature.dependencies !== 'object' || !feature.dependencies)) {
+          errors.push(`features[${i}].dependencies must be an object`);
+        }
+        for (const [field, required] of [
+          ['files', ['path', 'source', 'description']],
+          ['envVariables', ['name', 'description']],
+          ['schemaChanges', ['path', 'description', 'content']],
+        ] as const) {
+          const entries = feature[field];
+          if (entries === undefined) continue;
+          if (!Array.isArray(entries)) {
+            errors.push(`features[${i}].${field} must be an array`);
+            continue;
+          }
+          entries.forEach((entry: Record<string, unknown>, j) => {
+            for (const key of required) {
+              if (typeof entry[key] !== 'string' || (entry[key] as string).length === 0) {
+                errors.push(`features[${i}].${field}[${j}].${key} is required and must be a non-empty string`);
+              }
+            }
+          });
+        }
+      }
+    }
+  }
+
+  // Validate variables
+  if (m.variables !== undefined) {
+    if (!Array.isArray(m.variables)) {
+      errors.push('variables must be an array');
+    } else {
+      const names = new Set<string>();
+      for (let i = 0; i < m.variables.length; i++) {
+        const variable = m.variables[i] as Record<string, unknown>;
+        if (typeof variable.name !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*$/.test(variable.name)) {
+          errors.push(`variables[${i}].name must be an identifier`);
+        } else if (names.has(variable.name)) {
+          errors.push(`variables[${i}].name "${variable.name}" is declared twice`);
+        } else {
+          names.add(variable.name);
+        }
+        if (typeof variable.type !== 'string' || !VALID_VARIABLE_TYPES.includes(variable.type)) {
+          errors.push(`variables[${i}].type must be one of: ${VALID_VARIABLE_TYPES.join(', ')}`);
+        } else if (variable.default !== undefined && typeof variable.default !== variable.type) {
+          errors.push(`variables[${i}].default must be a ${variable.type}`);
+        }
+        if (variable.pattern !== undefined) {
+          try {
+            const pattern = new RegExp(variable.pattern as string);
+            if (typeof variable.default === 'string' && !pattern.test(variable.default)) {
+              errors.push(`variables[${i}].default doesn't match its pattern`);
+            }
+          } catch {
+            errors.push(`variables[${i}].pattern is not a valid regular expression`);
+          }
+        }
+      }
+    }
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Follow a template's extends chain and report a cycle or a missing parent
+ */
+function findInheritanceProblem(templateId: string, parentId: string, catalog: TemplateCatalog): string | null {
+  const chain = [templateId];
+  let parent: unknown = parseParentReference(parentId).templateId;
+
+  while (typeof parent === 'string') {
+    if (chain.includes(parent)) {
+      return `Inheritance cycle: ${[...chain, parent].join(' -> ')}`;
+    }
+    if (!catalog.has(parent)) {
+      return `Parent template not found: ${parent} (extended by ${chain[chain.length - 1]})`;
+    }
+    chain.push(parent);
+    const reference = catalog.get(parent)?.extends;
+    parent = typeof reference === 'string' ? parseParentReference(reference).templateId : undefined;
+  }
+
+  return null;
+}
+
+/**
+ * Find another template an implement_* prompt would offer under the same variant
+ * (same language, framework and category; the variant defaults to the ID's last segment;
+ * abstract templates are not offered)
+ */
+function findVariantClash(templateId: string, catalog: TemplateCatalog): string | null {
+  const variantOf = (id: string): string => {
+    const variant = catalog.get(id)?.variant;
+    return typeof variant === 'string' ? variant : id.slice(id.lastIndexOf('/') + 1);
+  };
+  const group = templateId.slice(0, templateId.lastIndexOf('/') + 1);
+  const variant = variantOf(templateId);
+
+  for (const id of catalog.keys()) {
+    if (id !== templateId && id.startsWith(group) && catalog.get(id)?.abstract !== true && variantOf(id) === variant) {
+      return `variant "${variant}" is also used by ${id}; implement_* prompts could not tell them apart`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find another template of the same category that names the implement_* prompt differently
+ * (the prompt is shared by the category, so its templates must agree on variantArgument and categoryLabel)
+ */
+function findPromptNamingClash(templateId: string, catalog: TemplateCatalog): string | null {
+  const categoryOf = (id: string): string => id.split('/')[2];
+  const own = catalog.get(templateId);
+
+  for (const field of ['variantArgument', 'categoryLabel'] as const) {
+    const value = own?.[field];
+    if (value === undefined) continue;
+
+    for (const [id, other] of catalog) {
+      const otherValue = other[field];
+      if (id !== templateId && categoryOf(id) === categoryOf(templateId) && otherValue !== undefined && otherValue !== value) {
+        return (
+          `${field} "${String(value)}" differs from "${String(otherValue)}" in ${id}; ` +
+          `the ${categoryOf(templateId)} templates share one implement_* prompt`
+        );
+      }
+    }
+  }
+
+  return null;
+}
+
 async function findTemplates(dir: string): Promise<string[]> {
   const templates: string[] = [];
 
@@ -204,12 +509,43 @@ async function findTemplates(dir: string): Promise<string[]> {
   return templates;
 }
 
-async function validateTemplate(templatePath: string): Promise<ValidationResult> {
+async function listSourceFiles(dir: string, base = dir): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listSourceFiles(fullPath, base)));
+    } else {
+      files.push(path.relative(base, fullPath).replace(/\\/g, '/'));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * List the earlier versions kept in a template's versions/ directory
+ */
+async function findVersions(templatePath: string): Promise<string[]> {
+  const entries = await fs.readdir(path.join(templatePath, VERSIONS_DIR), { withFileTypes: true }).catch(() => []);
+  return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+}
+
+async function validateTemplate(
+  templatePath: string,
+  rootDir: string,
+  catalog: TemplateCatalog,
+  templateService: TemplateService,
+  version?: string
+): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Get template ID from path
-  const relativePath = path.relative(TEMPLATES_DIR, templatePath);
+  // Get template ID from path (earlier versions live in <template>/versions/<version>)
+  const templateDir = version ? path.dirname(path.dirname(templatePath)) : templatePath;
+  const relativePath = path.relative(rootDir, templateDir);
   const templateId = relativePath.replace(/\\/g, '/');
 
   // 1. Check metadata.json exists and is valid
@@ -234,6 +570,55 @@ async function validateTemplate(templatePath: string): Promise<ValidationResult>
     }
   }
 
+  // 1a. Earlier versions share the current version's variant and prompt naming; check them once
+  if (metadata && !version && !metadata.abstract) {
+    for (const clash of [findVariantClash(templateId, catalog), findPromptNamingClash(templateId, catalog)]) {
+      if (clash) {
+        errors.push(clash);
+      }
+    }
+  }
+
+  // 1b. Resolve the parent chain; the rest of the checks run on the merged template
+  // (features the template declares itself keep their code in its own features/ directory)
+  const parentId = metadata?.extends;
+  if (version && parentId && parseParentReference(parentId).version === undefined) {
+    warnings.push(`extends should pin the parent version this version was released with ("${parentId}@<version>")`);
+  }
+  const ownFeatures = new Set((metadata?.features ?? []).map((f) => f.name));
+  let parentCode: Record<string, string> = {};
+  if (metadata?.extends) {
+    const problem = findInheritanceProblem(templateId, metadata.extends, catalog);
+    if (problem) {
+      errors.push(problem);
+      metadata = null;
+    } else {
+      try {
+        const reference = parseParentReference(metadata.extends);
+        const parentVersion = reference.version === undefined
+          ? undefined
+          : await templateService.resolveVersion(reference.templateId, reference.version);
+        const parent = await templateService.loadTemplate(reference.templateId, parentVersion);
+        parentCode = await templateService.getTemplateCode(reference.templateId, parentVersion);
+
+        const removable = new Set(parent?.files.map((f) => f.path));
+        for (const removed of metadata.removeFiles ?? []) {
+          if (!removable.has(removed)) {
+            errors.push(`removeFiles entry ${removed} is not a file of ${metadata.extends}`);
+          }
+        }
+
+        metadata = mergeTemplateMetadata(
+          parent as ResolvedMetadata,
+          metadata as unknown as ResolvedMetadata
+        ) as unknown as TemplateMetadata;
+      } catch (error) {
+        errors.push(`Cannot resolve parent ${metadata.extends}: ${(error as Error).message}`);
+        metadata = null;
+      }
+    }
+  }
+
   // 2. Check files/ directory or template.ts exists
   const filesDir = path.join(templatePath, 'files');
   const templateFile = path.join(templatePath, 'template.ts');
@@ -252,47 +637,156 @@ async function validateTemplate(templatePath: string): Promise<ValidationResult>
     }
   }
 
-  if (!hasFiles) {
+  if (!hasFiles && !parentId) {
     errors.push('No code files found (need files/ directory or template.ts)');
   }
 
-  // 3. Verify declared files exist
-  if (metadata && hasFiles) {
+  // 3. Verify every declared file has a source and every source file is declared
+  // (inherited files may take their source from the parent)
+  if (metadata && (hasFiles || metadata.extends)) {
+    let sourceFiles: string[];
     try {
-      const actualFiles = await fs.readdir(filesDir);
-
-      for (const declaredFile of metadata.files) {
-        // Extract just the filename from the path
-        const filename = path.basename(declaredFile.path);
-        const variations = [
-          filename,
-          filename.replace('.ts', '.tsx'),
-          filename.replace('.tsx', '.ts'),
-          filename.replace('route.ts', 'callback-route.ts'),
-          filename.replace('middleware.ts', 'middleware-client.ts'),
-        ];
-
-        const found = actualFiles.some((f) => variations.includes(f) || f.includes(filename.split('.')[0]));
-
-        if (!found && declaredFile.isRequired) {
-          warnings.push(`Declared file may not exist: ${declaredFile.path}`);
+      sourceFiles = await listSourceFiles(filesDir);
+    } catch {
+      // files/ doesn't exist, the single template.ts is the only source
+      sourceFiles = hasFiles ? ['template.ts'] : [];
+    }
+    const inheritedSources = Object.keys(
+      mergeTemplateCode(metadata.files as ResolvedMetadata['files'], parentCode, {})
+    ).map((source) => source.replace(/\\/g, '/'));
+
+    const declaredSources = new Set<string>();
+    for (const declaredFile of metadata.files) {
+      const source = path.posix.normalize(declaredFile.source);
+      declaredSources.add(source);
+
+      if (!sourceFiles.includes(source) && !inheritedSources.includes(source)) {
+        errors.push(`Declared file ${declaredFile.path} has no source: ${declaredFile.source}`);
+      }
+    }
+
+    for (const sourceFile of sourceFiles) {
+      if (!declaredSources.has(sourceFile)) {
+        errors.push(`Unmapped file in files/: ${sourceFile}`);
+      }
+    }
+  }
+
+  // 4. Verify placeholders only reference declared variables
+  if (metadata) {
+    const declared = new Set((metadata.variables ?? []).map((v) => v.name));
+    const texts: Array<{ where: string; text: string }> = [
+      ...metadata.files.map((f) => ({ where: `files path ${f.path}`, text: f.path })),
+      { where: 'usage', text: Object.values(metadata.usage).join('\n') },
+    ];
+
+    const sourceContents = new Map<string, string>();
+    for (const declaredFile of metadata.files) {
+      const sourcePath = path.join(filesDir, declaredFile.source);
+      const content = await fs
+        .readFile(sourcePath, 'utf-8')
+        .catch(() => parentCode[path.normalize(declaredFile.source)] ?? '');
+      sourceContents.set(path.posix.normalize(declaredFile.source), content);
+      texts.push({ where: declaredFile.source, text: content });
+    }
+
+    for (const { where, text } of texts) {
+      for (const name of findPlaceholders(text)) {
+        if (!declared.has(name)) {
+          errors.push(`Undeclared variable {{${name}}} used in ${where}`);
         }
       }
+    }
+
+    // 5. Verify every safeguard points at a declared file and matches its code
+    for (const safeguard of metadata.safeguards ?? []) {
+      const content = sourceContents.get(path.posix.normalize(safeguard.source));
+      if (content === undefined) {
+        errors.push(`Safeguard ${safeguard.name} refers to undeclared source: ${safeguard.source}`);
+      } else if (!new RegExp(safeguard.pattern, 'm').test(content)) {
+        errors.push(`Safeguard ${safeguard.name} pattern doesn't match ${safeguard.source}`);
+      }
+    }
+
+    // 5a. Verify feature modules: declared files match features/<name>/ and only use declared variables
+    const featuresDir = path.join(templatePath, FEATURES_DIR);
+    for (const feature of metadata.features ?? []) {
+      if (!ownFeatures.has(feature.name)) continue;
+
+      const featureDir = path.join(featuresDir, feature.name);
+      const featureFiles = await listSourceFiles(featureDir).catch((): string[] => []);
+      const featureSources = new Set<string>();
+      for (const featureFile of feature.files ?? []) {
+        const source = path.posix.normalize(featureFile.source);
+        featureSources.add(source);
+
+        if (!featureFiles.includes(source)) {
+          errors.push(`Feature ${feature.name} file ${featureFile.path} has no source: ${featureFile.source}`);
+          continue;
+        }
+        const content = await fs.readFile(path.join(featureDir, source), 'utf-8');
+        for (const name of [...findPlaceholders(featureFile.path), ...findPlaceholders(content)]) {
+          if (!declared.has(name)) {
+            errors.push(`Undeclared variable {{${name}}} used in ${FEATURES_DIR}/${feature.name}/${source}`);
+          }
+        }
+      }
+
+      for (const featureFile of featureFiles) {
+        if (!featureSources.has(featureFile)) {
+          errors.push(`Unmapped file in ${FEATURES_DIR}/${feature.name}/: ${featureFile}`);
+        }
+      }
+    }
+
+    const featureDirs = await fs.readdir(featuresDir, { withFileTypes: true }).catch(() => []);
+    for (const entry of featureDirs) {
+      if (!entry.isDirectory() || !ownFeatures.has(entry.name)) {
+        errors.push(`${FEATURES_DIR}/${entry.name} belongs to no declared feature`);
+      }
+    }
+  }
+
+  // 6. Check README.md exists (earlier versions fall back to the template's README;
+  // abstract templates are never shown on their own)
+  if (!version && !metadata?.abstract) {
+    const readmePath = path.join(templatePath, 'README.md');
+    try {
+      await fs.access(readmePath);
     } catch {
-      // files/ doesn't exist, that's okay if template.ts exists
+      warnings.push('README.md not found');
     }
   }
 
-  // 4. Check README.md exists
-  const readmePath = path.join(templatePath, 'README.md');
-  try {
-    await fs.access(readmePath);
-  } catch {
-    warnings.push('README.md not found');
+  // 7. Check versions: each kept version matches its directory and has a changelog
+  const versions = version ? [] : await findVersions(templatePath);
+  if (version) {
+    if (semver.valid(version) !== version) {
+      errors.push(`${VERSIONS_DIR}/${version} is not named after a semver version`);
+    } else if (metadata && metadata.version !== version) {
+      errors.push(`version "${metadata.version}" doesn't match directory ${VERSIONS_DIR}/${version}`);
+    }
+  } else if (metadata) {
+    if (versions.includes(metadata.version)) {
+      errors.push(`${VERSIONS_DIR}/${metadata.version} duplicates the current version`);
+    }
+    for (const removed of metadata.removedVersions ?? []) {
+      if (versions.includes(removed.version)) {
+        errors.push(`Removed version ${removed.version} is still in ${VERSIONS_DIR}/`);
+      }
+    }
+  }
+
+  if (version || versions.length > 0) {
+    try {
+      await fs.access(path.join(templatePath, CHANGELOG_FILE));
+    } catch {
+      warnings.push(`${CHANGELOG_FILE} not found`);
+    }
   }
 
   return {
-    templateId,
+    templateId: version ? `${templateId}@${version}` : templateId,
     valid: errors.length === 0,
     errors,
     warnings,
@@ -302,20 +796,54 @@ async function validateTemplate(templatePath: string): Promise<ValidationResult>
 async function main(): Promise<void> {
   console.log('🔍 Validating templates...\n');
 
-  const templatePaths = await findTemplates(TEMPLATES_DIR);
+  const args = process.argv.slice(2).filter((arg) => arg !== '--');
+  const rootDirs = args.length > 0 ? args.map((dir) => path.resolve(dir)) : [TEMPLATES_DIR];
+
+  const templatePaths: Array<{ templatePath: string; rootDir: string; version?: string }> = [];
+  for (const rootDir of rootDirs) {
+    for (const templatePath of await findTemplates(rootDir)) {
+      templatePaths.push({ templatePath, rootDir });
+      for (const version of await findVersions(templatePath)) {
+        templatePaths.push({ templatePath: path.join(templatePath, VERSIONS_DIR, version), rootDir, version });
+      }
+    }
+  }
+
+  // Parents resolve like they do in the server: through the given roots, then the bundled templates
+  const resolutionRoots = rootDirs.includes(TEMPLATES_DIR) ? rootDirs : [...rootDirs, TEMPLATES_DIR];
+  const templateService = new TemplateService(resolutionRoots.map((dir) => ({ name: dir, path: dir })));
+  const catalog: TemplateCatalog = new Map();
+  for (const rootDir of resolutionRoots) {
+    for (const templatePath of await findTemplates(rootDir)) {
+      const templateId = path.relative(rootDir, templatePath).replace(/\\/g, '/');
+      if (catalog.has(templateId)) continue;
+
+      const content = await fs.readFile(path.join(templatePath, 'metadata.json'), 'utf-8').catch(() => '{}');
+      try {
+        catalog.set(templateId, JSON.parse(content) as CatalogEntry);
+      } catch {
+        catalog.set(templateId, {});
+      }
+    }
+  }
 
   if (templatePaths.length === 0) {
     console.log('⚠️  No templates found!');
     process.exit(1);
   }
 
-  console.log(`Found ${templatePaths.length} templates\n`);
+  const versionCount = templatePaths.filter((t) => t.version).length;
+  console.log(
+    `Found ${templatePaths.length - versionCount} templates` +
+      (versionCount > 0 ? ` and ${versionCount} earlier versions` : '') +
+      '\n'
+  );
 
   const results: ValidationResult[] = [];
   let hasErrors = false;
 
-  for (const templatePath of templatePaths) {
-    const result = await validateTemplate(templatePath);
+  for (const { templatePath, rootDir, version } of templatePaths) {
+    const result = await validateTemplate(templatePath, rootDir, catalog, templateService, version);
     results.push(result);
 
     const icon = result.valid ? '✅' : '❌';
@@ -7,9 +7,12 @@
 import 'dotenv/config';
 
 import { startServer } from './server.js';
+import { resolveServerOptions } from './utils/config.js';
 
-// Start the server
-startServer().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+// Start the server (CLI flags override config)
+Promise.resolve()
+  .then(() => startServer(resolveServerOptions(process.argv.slice(2))))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
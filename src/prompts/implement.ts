@@ -0,0 +1,428 @@
+/**
+ * MCP Prompts: implement_<category> (e.g., implement_auth), one per template category
+ * Step-by-step guides to implement a template, generated from template metadata
+ * @module prompts/implement
+ */
+
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import type { TemplateCategory, TemplateFeatureWithCode, TemplateMetadata } from '../types/index.js';
+import { matchCompletions } from '../utils/completions.js';
+
+/**
+ * Prompt arguments, with the template-choosing argument under its generic name
+ */
+export interface ImplementArgs {
+  /** Variant of the template to implement (e.g., "google" for implement_auth) */
+  variant: string;
+  framework: string;
+  features?: string;
+}
+
+/**
+ * Prompt arguments schema shape (the variant argument is named per prompt)
+ */
+type ImplementArgsShape = Record<string, z.ZodString | z.ZodOptional<z.ZodString>>;
+
+/**
+ * Guided implementation prompt for one template category
+ */
+export interface ImplementPrompt {
+  /** Prompt name (e.g., "implement_auth") */
+  name: string;
+  /** Category whose templates the prompt offers */
+  category: TemplateCategory;
+  /** Subject of the guide title (e.g., "Authentication") */
+  title: string;
+  description: string;
+  /** Name of the argument choosing the template (e.g., "provider") */
+  variantArgument: string;
+  argsSchema: z.ZodObject<ImplementArgsShape>;
+}
+
+/**
+ * Template offered by an implement_* prompt
+ */
+export interface ImplementVariant {
+  variant: string;
+  framework: string;
+  templateId: string;
+  /** Template name (e.g., "NextAuth.js Google OAuth") */
+  name: string;
+  /** Names of the feature modules the template declares */
+  features: string[];
+}
+
+/**
+ * How an implement_* prompt names its variant argument and category, as declared by the category's templates
+ */
+interface ImplementPromptNaming {
+  variantArgument?: string;
+  label?: string;
+}
+
+/**
+ * Capitalize the first letter of a word
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Define the implement_* prompt for a category
+ * @param category - Template category
+ * @param variants - Variants its templates are offered under (for the argument examples)
+ * @param naming - Argument name and label the category's templates declare (generic ones otherwise)
+ */
+function defineImplementPrompt(
+  category: TemplateCategory,
+  variants: string[],
+  naming: ImplementPromptNaming
+): ImplementPrompt {
+  const variantArgument = naming.variantArgument ?? 'variant';
+  const label = naming.label ?? capitalize(category);
+  const examples = variants.length > 0 ? ` (e.g., ${variants.slice(0, 3).join(', ')})` : '';
+
+  return {
+    name: `implement_${category}`,
+    category,
+    title: label,
+    description: `${label}: step-by-step guide to implement a ${category} template in your project`,
+    variantArgument,
+    argsSchema: z.object({
+      [variantArgument]: z.string().describe(`${capitalize(variantArgument)} to implement${examples}`),
+      framework: z.string().describe('Your framework (e.g., nextjs)'),
+      features: z.string().optional().describe('Additional features needed (e.g., 2fa, role-based-access)'),
+    }),
+  };
+}
+
+/**
+ * List the implement_* prompts, one per category the templates cover
+ * Each category's argument name and label come from its templates' variantArgument and categoryLabel
+ * (the first template declaring one wins; pnpm validate-templates rejects disagreeing templates).
+ * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Prompts in category order
+ */
+export async function listImplementPrompts(
+  templateService: TemplateService,
+  namespaces?: string[]
+): Promise<ImplementPrompt[]> {
+  const categories = new Map<TemplateCategory, { variants: Set<string>; naming: ImplementPromptNaming }>();
+  for (const template of await templateService.listTemplates({ namespaces })) {
+    const entry = categories.get(template.category) ?? { variants: new Set<string>(), naming: {} };
+    entry.variants.add(getTemplateVariant(template));
+    entry.naming.variantArgument ??= template.variantArgument;
+    entry.naming.label ??= template.categoryLabel;
+    categories.set(template.category, entry);
+  }
+
+  return [...categories]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, { variants, naming }]) => defineImplementPrompt(category, [...variants].sort(), naming));
+}
+
+/**
+ * Summarize what clients see of a prompt (name, title, description and arguments), to tell whether it changed
+ */
+export function describeImplementPrompt(prompt: ImplementPrompt): string {
+  const args = Object.entries(prompt.argsSchema.shape).map(([name, schema]) => [name, schema.description]);
+  return JSON.stringify([prompt.name, prompt.title, prompt.description, args]);
+}
+
+/**
+ * Get the variant an implement_* prompt offers a template under
+ * @param template - Template metadata
+ * @returns Its declared variant, or the last segment of its ID
+ */
+export function getTemplateVariant(template: TemplateMetadata): string {
+  return template.variant ?? template.id.slice(template.id.lastIndexOf('/') + 1);
+}
+
+/**
+ * List the templates an implement_* prompt offers
+ * @param prompt - Prompt definition
+ * @param templateService - Template service instance
+ * @param framework - Only this framework's templates (undefined for every framework)
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Variants in framework and variant order
+ */
+export async function listImplementVariants(
+  prompt: ImplementPrompt,
+  templateService: TemplateService,
+  framework?: string,
+  namespaces?: string[]
+): Promise<ImplementVariant[]> {
+  const templates = await templateService.listTemplates({
+    category: prompt.category,
+    framework: framework?.toLowerCase(),
+    namespaces,
+  });
+
+  return templates
+    .map((template) => ({
+      variant: getTemplateVariant(template),
+      framework: template.framework,
+      templateId: template.id,
+      name: template.name,
+      features: (template.features ?? []).map((feature) => feature.name),
+    }))
+    .sort((a, b) => a.framework.localeCompare(b.framework) || a.variant.localeCompare(b.variant));
+}
+
+/**
+ * Pick the variant a client asked for
+ * The variant matches a template's declared variant or the last segment of its ID.
+ */
+function matchVariant(variants: ImplementVariant[], variant: string): ImplementVariant | null {
+  const requested = variant.trim().toLowerCase();
+  return (
+    variants.find((v) => v.variant.toLowerCase() === requested) ??
+    variants.find((v) => v.templateId.endsWith(`/${requested}`)) ??
+    null
+  );
+}
+
+/**
+ * Complete the variant argument for the framework chosen so far
+ * @param prompt - Prompt definition
+ * @param templateService - Template service instance
+ * @param value - Partial variant typed so far
+ * @param framework - Framework argument, if the client already filled it in
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Matching variants
+ */
+export async function completeImplementVariants(
+  prompt: ImplementPrompt,
+  templateService: TemplateService,
+  value: string,
+  framework?: string,
+  namespaces?: string[]
+): Promise<string[]> {
+  const variants = await listImplementVariants(prompt, templateService, framework || undefined, namespaces);
+  return matchCompletions(variants.map((v) => v.variant), value);
+}
+
+/**
+ * Complete the last entry of the features argument ("2fa, ro" suggests "2fa, role-based-access")
+ * Only features of the chosen variant are suggested once the client has filled it in.
+ * @param prompt - Prompt definition
+ * @param templateService - Template service instance
+ * @param value - Features typed so far, comma-separated
+ * @param variant - Variant argument, if the client already filled it in
+ * @param framework - Framework argument, if the client already filled it in
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns The typed features with each matching feature completing the last one
+ */
+export async function completeImplementFeatures(
+  prompt: ImplementPrompt,
+  templateService: TemplateService,
+  value: string,
+  variant?: string,
+  framework?: string,
+  namespaces?: string[]
+): Promise<string[]> {
+  const variants = await listImplementVariants(prompt, templateService, framework || undefined, namespaces);
+  const chosen = variant ? variants.filter((v) => v === matchVariant(variants, variant)) : variants;
+
+  const separator = value.lastIndexOf(',');
+  const typed = value.slice(0, separator + 1);
+  const chosenFeatures = new Set(parseFeatureNames(typed));
+  const features = chosen.flatMap((v) => v.features).filter((feature) => !chosenFeatures.has(feature));
+
+  const prefix = typed ? `${typed} ` : '';
+  return matchCompletions(features, value.slice(separator + 1).trim()).map((feature) => `${prefix}${feature}`);
+}
+
+/**
+ * Parse raw prompt arguments, moving the prompt's variant argument to "variant"
+ * @param prompt - Prompt definition
+ * @param args - Arguments as sent by the client
+ * @returns Parsed arguments
+ */
+export function parseImplementArgs(prompt: ImplementPrompt, args: unknown): ImplementArgs {
+  const parsed = prompt.argsSchema.parse(args);
+  return {
+    variant: parsed[prompt.variantArgument] ?? '',
+    framework: parsed.framework ?? '',
+    features: parsed.features,
+  };
+}
+
+/**
+ * Split the features argument (e.g., "2fa, role-based-access") into feature names
+ */
+function parseFeatureNames(features: string | undefined): string[] {
+  const names = (features ?? '').split(/[\s,]+/).map((name) => name.toLowerCase());
+  return Array.from(new Set(names.filter(Boolean)));
+}
+
+/**
+ * Explain which requested features a variant lacks and which variants offer them instead
+ */
+function formatUnsupportedFeatures(
+  prompt: ImplementPrompt,
+  variant: ImplementVariant,
+  unsupported: string[],
+  variants: ImplementVariant[]
+): string {
+  const alternatives = unsupported.map((feature) => {
+    const offering = variants
+      .filter((v) => v.features.includes(feature))
+      .map((v) => `${prompt.variantArgument} "${v.variant}" (${v.name})`);
+    return offering.length > 0
+      ? `- **${feature}**: use ${offering.join(' or ')}`
+      : `- **${feature}**: no ${variant.framework} ${prompt.category} template offers it yet`;
+  });
+
+  return `# ${variant.name} Implementation Guide
+
+## Error
+${prompt.variantArgument} "${variant.variant}" does not support: ${unsupported.join(', ')}.
+
+### Alternatives
+
+${alternatives.join('\n')}
+
+Features available for ${prompt.variantArgument} "${variant.variant}": ${variant.features.join(', ') || 'none'}
+
+Please try again without the unsupported features, or with one of the alternatives.`;
+}
+
+/**
+ * Generate an implementation guide
+ * Requested features are merged in: their files, dependencies, env vars, schema changes and steps.
+ * @param prompt - Prompt definition
+ * @param args - Parsed prompt arguments
+ * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Markdown guide, or an error listing the available variants or features
+ */
+export async function generateImplementationGuide(
+  prompt: ImplementPrompt,
+  args: ImplementArgs,
+  templateService: TemplateService,
+  namespaces?: string[]
+): Promise<string> {
+  const candidates = await listImplementVariants(prompt, templateService, args.framework, namespaces);
+  const variant = matchVariant(candidates, args.variant);
+
+  if (!variant) {
+    const variants = await listImplementVariants(prompt, templateService, undefined, namespaces);
+    const frameworks = Array.from(new Set(variants.map((v) => v.framework)));
+
+    return `# ${prompt.title} Implementation Guide
+
+## Error
+No template found for ${prompt.variantArgument} "${args.variant}" with framework "${args.framework}".
+
+### Available Options by Framework
+
+${frameworks.map((framework) => `**${framework}:**
+${variants.filter((v) => v.framework === framework).map((v) => `- ${v.variant} (${v.name})`).join('\n')}`).join('\n\n') || `No ${prompt.category} templates are available.`}
+
+Please try again with one of the available combinations.`;
+  }
+
+  const requested = parseFeatureNames(args.features);
+  const unsupported = requested.filter((feature) => !variant.features.includes(feature));
+  if (unsupported.length > 0) {
+    return formatUnsupportedFeatures(prompt, variant, unsupported, candidates);
+  }
+
+  const template = await templateService.getTemplateWithCode(variant.templateId);
+
+  if (!template) {
+    return `# ${prompt.title} Implementation Guide
+
+## Error
+Template "${variant.templateId}" not found. Please check if the template exists.`;
+  }
+
+  // Code blocks are headed with each file's destination, for the base template and its features alike
+  const codeFiles = (await templateService.resolveTemplateFiles(template.id))?.files ?? [];
+  const features: TemplateFeatureWithCode[] = [];
+  for (const name of requested) {
+    const feature = await templateService.getFeatureWithCode(template.id, name);
+    if (feature) {
+      features.push(feature);
+      codeFiles.push(...((await templateService.resolveFeatureFiles(template.id, name))?.files ?? []));
+    }
+  }
+
+  const featureDependencies = features.filter((f) => f.dependencies && Object.keys(f.dependencies).length > 0);
+  const envVariables = [...template.envVariables, ...features.flatMap((f) => f.envVariables ?? [])].filter(
+    (env, index, all) => all.findIndex((other) => other.name === env.name) === index
+  );
+  const files = [
+    ...template.files.map((file) => ({ file, feature: undefined as string | undefined })),
+    ...features.flatMap((f) => (f.files ?? []).map((file) => ({ file, feature: f.name }))),
+  ];
+
+  const guide = `# ${template.name} Implementation Guide
+
+## Overview
+${template.description}
+${features.map((f) => `\n**+ ${f.name}:** ${f.description}`).join('')}
+
+## Step 1: Install Dependencies
+
+\`\`\`bash
+${template.usage.installation}${featureDependencies.map((f) => `
+pnpm add ${Object.entries(f.dependencies ?? {}).map(([name, range]) => `${name}@${range}`).join(' ')} # ${f.name}`).join('')}
+\`\`\`
+
+## Step 2: Configure Environment Variables
+
+${envVariables.length > 0 ? `Add the following to your \`.env\` or \`.env.local\` file:
+
+\`\`\`env
+${envVariables.map((env) => `# ${env.description}${env.required ? ' (required)' : ' (optional)'}
+${env.name}=${env.example || 'your-value-here'}`).join('\n\n')}
+\`\`\`` : 'This template needs no environment variables.'}
+
+## Step 3: Add Code Files
+
+${files.map(({ file, feature }) => `### ${file.path}
+${file.description}${feature ? ` (${feature})` : ''}
+${file.isRequired ? '**Required**' : '*Optional*'}`).join('\n\n')}
+
+## Step 4: Configuration
+
+${template.usage.configuration}
+
+## Step 5: Usage Example
+
+\`\`\`${template.language}
+${template.usage.example}
+\`\`\`
+${features.map((feature, i) => `
+## Step ${6 + i}: Add ${feature.name}
+
+${feature.description}
+${(feature.schemaChanges ?? []).map((change) => `
+### Schema: ${change.path}
+${change.description}
+
+\`\`\`${change.path.split('.').pop()}
+${change.content}
+\`\`\`
+`).join('')}
+${feature.steps.map((step, n) => `${n + 1}. ${step}`).join('\n')}
+`).join('')}
+## Code Files
+
+${codeFiles.map((file) => `### ${file.path}
+
+\`\`\`${template.language}
+${file.content}
+\`\`\``).join('\n\n')}
+
+---
+
+*Generated by sfvibe-templates-mcp*`;
+
+  return guide;
+}
@@ -3,21 +3,79 @@
  * @module resources/template-resource
  */
 
+import path from 'node:path';
+
 import type { TemplateService } from '../services/template-service.js';
+import type { TemplateVariableValues } from '../types/index.js';
+import { matchCompletions } from '../utils/completions.js';
 import { logger } from '../utils/logger.js';
+import { isInNamespaces } from '../utils/namespaces.js';
 
 /**
  * Template resource URI prefix
  */
 export const TEMPLATE_URI_PREFIX = 'template://';
 
+/**
+ * URI template of a template's code (every file in one read)
+ */
+export const TEMPLATE_URI_TEMPLATE = `${TEMPLATE_URI_PREFIX}{language}/{framework}/{category}/{name}`;
+
+/**
+ * URI template of a single code file, by its path under the template's files/ directory
+ */
+export const TEMPLATE_FILE_URI_TEMPLATE = `${TEMPLATE_URI_TEMPLATE}/files/{+path}`;
+
+/**
+ * URI template of a template's resolved metadata
+ */
+export const TEMPLATE_METADATA_URI_TEMPLATE = `${TEMPLATE_URI_TEMPLATE}/metadata.json`;
+
+/**
+ * URI template of a template's README
+ */
+export const TEMPLATE_README_URI_TEMPLATE = `${TEMPLATE_URI_TEMPLATE}/README.md`;
+
+/**
+ * Variables naming the template in every template URI, in path order
+ */
+export const TEMPLATE_URI_SEGMENTS = ['language', 'framework', 'category', 'name'] as const;
+
+/**
+ * Variable of a template URI that can be completed
+ */
+export type TemplateUriVariable = (typeof TEMPLATE_URI_SEGMENTS)[number] | 'path';
+
 /**
  * Build a template URI from a template ID
  * @param templateId - Template ID
+ * @param version - Version or semver range to pin (e.g., "1.x")
  * @returns Template URI
  */
-export function buildTemplateUri(templateId: string): string {
-  return `${TEMPLATE_URI_PREFIX}${templateId}`;
+export function buildTemplateUri(templateId: string, version?: string): string {
+  const suffix = version ? `@${encodeURIComponent(version)}` : '';
+  return `${TEMPLATE_URI_PREFIX}${templateId}${suffix}`;
+}
+
+/**
+ * Split a template URI into its template ID, version and the path after the template
+ * (e.g., "files/stripe.ts" in "template://typescript/nextjs/payment/stripe-checkout@1.x/files/stripe.ts")
+ */
+function splitTemplateUri(uri: string): { templateId: string; version?: string; subpath: string } {
+  if (!uri.startsWith(TEMPLATE_URI_PREFIX)) {
+    throw new Error(`Invalid template URI: ${uri}`);
+  }
+
+  const segments = uri.slice(TEMPLATE_URI_PREFIX.length).split('?')[0].split('/');
+  const head = segments.slice(0, TEMPLATE_URI_SEGMENTS.length);
+  const [name, version] = head[head.length - 1].split('@', 2);
+  head[head.length - 1] = name;
+
+  return {
+    templateId: head.join('/'),
+    version,
+    subpath: segments.slice(TEMPLATE_URI_SEGMENTS.length).join('/'),
+  };
 }
 
 /**
@@ -26,10 +84,42 @@ export function buildTemplateUri(templateId: string): string {
  * @returns Template ID
  */
 export function parseTemplateUri(uri: string): string {
-  if (!uri.startsWith(TEMPLATE_URI_PREFIX)) {
-    throw new Error(`Invalid template URI: ${uri}`);
+  return splitTemplateUri(uri).templateId;
+}
+
+/**
+ * Parse the pinned version or semver range from a template URI
+ * (e.g., "template://typescript/nextjs/payment/stripe-checkout@1.x")
+ * @param uri - Template URI
+ * @returns Version or range, or undefined for the latest version
+ */
+export function parseTemplateUriVersion(uri: string): string | undefined {
+  const { version } = splitTemplateUri(uri);
+  return version ? decodeURIComponent(version) : undefined;
+}
+
+/**
+ * Parse the path after the template from a template URI
+ * (e.g., "files/lib/stripe.ts", "metadata.json" or "README.md")
+ * @param uri - Template URI
+ * @returns Path, or an empty string for the template itself
+ */
+export function parseTemplateUriPath(uri: string): string {
+  return decodeURIComponent(splitTemplateUri(uri).subpath);
+}
+
+/**
+ * Parse template variable values from a template URI query string
+ * (e.g., "template://typescript/nextjs/payment/stripe-checkout?srcDir=app")
+ * @param uri - Template URI
+ * @returns Variable values keyed by name
+ */
+export function parseTemplateUriVariables(uri: string): TemplateVariableValues {
+  const queryIndex = uri.indexOf('?');
+  if (queryIndex === -1) {
+    return {};
   }
-  return uri.slice(TEMPLATE_URI_PREFIX.length);
+  return Object.fromEntries(new URLSearchParams(uri.slice(queryIndex + 1)));
 }
 
 /**
@@ -49,6 +139,22 @@ export interface ResourceListItem {
   name: string;
   description: string;
   mimeType: string;
+  /** Template root the template comes from */
+  root: string;
+}
+
+/**
+ * Resolve the template ID and version a template URI points at
+ * (removed versions surface their deprecation notice instead of a plain not-found)
+ */
+async function resolveTemplateUri(
+  uri: string,
+  templateService: TemplateService
+): Promise<{ templateId: string; version: string | undefined }> {
+  const templateId = parseTemplateUri(uri);
+  const requested = parseTemplateUriVersion(uri);
+  const version = requested ? await templateService.resolveVersion(templateId, requested) : undefined;
+  return { templateId, version };
 }
 
 /**
@@ -61,11 +167,12 @@ export async function getTemplateResource(
   uri: string,
   templateService: TemplateService
 ): Promise<ResourceContent[]> {
-  const templateId = parseTemplateUri(uri);
+  const { templateId, version } = await resolveTemplateUri(uri, templateService);
+  const variables = parseTemplateUriVariables(uri);
 
-  logger.debug('Fetching template resource', { uri, templateId });
+  logger.debug('Fetching template resource', { uri, templateId, version });
 
-  const template = await templateService.getTemplateWithCode(templateId);
+  const template = await templateService.getTemplateWithCode(templateId, variables, version);
 
   if (!template) {
     throw new Error(`Template not found: ${templateId}`);
@@ -73,13 +180,13 @@ export async function getTemplateResource(
 
   const contents: ResourceContent[] = [];
 
-  // Add each code file as a resource content
+  // Add each code file as a resource content, addressed by its file resource URI
   for (const [filePath, code] of Object.entries(template.code)) {
     const extension = filePath.split('.').pop() || 'ts';
     const mimeType = getMimeType(extension);
 
     contents.push({
-      uri: `${uri}/${filePath}`,
+      uri: `${buildTemplateUri(templateId, version)}/files/${filePath.split(path.sep).join('/')}`,
       mimeType,
       text: code,
     });
@@ -97,32 +204,149 @@ export async function getTemplateResource(
   return contents;
 }
 
+/**
+ * Get one code file of a template
+ * @param uri - File URI (e.g., "template://typescript/nextjs/payment/stripe-checkout/files/stripe.ts")
+ * @param templateService - Template service instance
+ * @returns The file's content, rendered with the URI's variables
+ */
+export async function getTemplateFileResource(
+  uri: string,
+  templateService: TemplateService
+): Promise<ResourceContent> {
+  const { templateId, version } = await resolveTemplateUri(uri, templateService);
+  const filePath = parseTemplateUriPath(uri).replace(/^files\//, '');
+
+  const template = await templateService.getTemplateWithCode(templateId, parseTemplateUriVariables(uri), version);
+  if (!template) {
+    throw new Error(`Template not found: ${templateId}`);
+  }
+
+  const source = Object.keys(template.code).find((source) => source.split(path.sep).join('/') === filePath);
+  if (source === undefined) {
+    throw new Error(`File not found in ${templateId}: ${filePath}`);
+  }
+
+  return { uri, mimeType: getMimeType(filePath.split('.').pop() ?? ''), text: template.code[source] };
+}
+
+/**
+ * Get a template's resolved metadata (parents merged in) as JSON
+ * @param uri - Metadata URI (e.g., "template://typescript/nextjs/payment/stripe-checkout/metadata.json")
+ * @param templateService - Template service instance
+ * @returns The metadata resource content
+ */
+export async function getTemplateMetadataResource(
+  uri: string,
+  templateService: TemplateService
+): Promise<ResourceContent> {
+  const { templateId, version } = await resolveTemplateUri(uri, templateService);
+
+  const metadata = await templateService.loadTemplate(templateId, version);
+  if (!metadata) {
+    throw new Error(`Template not found: ${templateId}`);
+  }
+
+  return { uri, mimeType: 'application/json', text: JSON.stringify(metadata, null, 2) };
+}
+
+/**
+ * Get a template's README (its parent's when it has none of its own)
+ * @param uri - README URI (e.g., "template://typescript/nextjs/payment/stripe-checkout@1.x/README.md")
+ * @param templateService - Template service instance
+ * @returns The README resource content
+ */
+export async function getTemplateReadmeResource(
+  uri: string,
+  templateService: TemplateService
+): Promise<ResourceContent> {
+  const { templateId, version } = await resolveTemplateUri(uri, templateService);
+
+  const readme = await templateService.getReadme(templateId, version);
+  if (readme === null) {
+    throw new Error(`README not found for template: ${templateId}`);
+  }
+
+  return { uri, mimeType: 'text/markdown', text: readme };
+}
+
 /**
  * List all available template resources
  * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
  * @returns List of resource items
  */
 export async function listTemplateResources(
-  templateService: TemplateService
+  templateService: TemplateService,
+  namespaces?: string[]
 ): Promise<ResourceListItem[]> {
-  const templateIds = await templateService.getAllTemplateIds();
+  const locations = await templateService.getTemplateLocations();
+  const templates = new Map((await templateService.listTemplates({ namespaces })).map((t) => [t.id, t]));
   const resources: ResourceListItem[] = [];
 
-  for (const id of templateIds) {
-    const metadata = await templateService.loadTemplate(id);
+  for (const { id, root } of locations) {
+    const metadata = templates.get(id);
     if (!metadata) continue;
 
     resources.push({
       uri: buildTemplateUri(id),
       name: metadata.name,
       description: metadata.description,
-      mimeType: 'text/typescript',
+      mimeType: getMimeType(metadata.language === 'python' ? 'py' : 'ts'),
+      root,
     });
   }
 
   return resources;
 }
 
+/**
+ * Suggest values for a template URI variable
+ * Segments already filled in (from the completion context) narrow the suggestions,
+ * e.g. frameworks for language "python".
+ * @param templateService - Template service instance
+ * @param variable - Variable being completed
+ * @param value - What the client has typed so far
+ * @param filled - Values of the other variables
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Matching values
+ */
+export async function completeTemplateUri(
+  templateService: TemplateService,
+  variable: TemplateUriVariable,
+  value: string,
+  filled: Record<string, string> = {},
+  namespaces?: string[]
+): Promise<string[]> {
+  if (variable === 'path') {
+    const templateId = TEMPLATE_URI_SEGMENTS.map((segment) => filled[segment]?.split('@')[0]).join('/');
+    if (TEMPLATE_URI_SEGMENTS.some((segment) => !filled[segment]) || !isInNamespaces(templateId, namespaces)) {
+      return [];
+    }
+
+    const code = await templateService.getTemplateCode(templateId);
+    const files = Object.keys(code).map((file) => file.split(path.sep).join('/'));
+    return matchCompletions(files, value);
+  }
+
+  const index = TEMPLATE_URI_SEGMENTS.indexOf(variable);
+  const values: string[] = [];
+
+  for (const id of await templateService.getAllTemplateIds()) {
+    if (!isInNamespaces(id, namespaces)) continue;
+
+    const segments = id.split('/');
+    const mismatch = TEMPLATE_URI_SEGMENTS.slice(0, index).some(
+      (segment, i) => filled[segment] !== undefined && filled[segment] !== segments[i]
+    );
+    if (!mismatch) {
+      values.push(segments[index]);
+    }
+  }
+
+  return matchCompletions(values, value);
+}
+
 /**
  * Get MIME type for a file extension
  */
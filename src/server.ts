@@ -3,14 +3,25 @@
  * @module server
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CompleteResourceTemplateCallback, RegisteredPrompt } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ListResourcesResult } from '@modelcontextprotocol/sdk/types.js';
 
 import { logger } from './utils/logger.js';
-import { config } from './utils/config.js';
+import { config, getTemplateRoots } from './utils/config.js';
+import type { ServerOptions } from './utils/config.js';
+import { startHttpTransport } from './transports/http-transport.js';
 import { TemplateService } from './services/template-service.js';
 import { EmbeddingService } from './services/embedding-service.js';
 import { SearchService } from './services/search-service.js';
+import { ApiKeyService } from './services/api-key-service.js';
+import { TemplateWatcher } from './services/template-watcher.js';
+import { TemplateNotFoundError } from './services/template-service.js';
+import { isInNamespaces } from './utils/namespaces.js';
+import { completeFrameworks } from './utils/completions.js';
 
 // Tools
 import {
@@ -30,18 +41,67 @@ import {
   formatTemplateList,
   LIST_TEMPLATES_DESCRIPTION,
 } from './tools/list-templates.js';
+import {
+  applyTemplateSchema,
+  handleApplyTemplate,
+  APPLY_TEMPLATE_DESCRIPTION,
+} from './tools/apply-template.js';
+import {
+  composeTemplatesSchema,
+  handleComposeTemplates,
+  COMPOSE_TEMPLATES_DESCRIPTION,
+} from './tools/compose-templates.js';
+import {
+  checkDependenciesSchema,
+  handleCheckDependencies,
+  CHECK_DEPENDENCIES_DESCRIPTION,
+} from './tools/check-dependencies.js';
+import {
+  recommendTemplatesSchema,
+  handleRecommendTemplates,
+  RECOMMEND_TEMPLATES_DESCRIPTION,
+} from './tools/recommend-templates.js';
+import {
+  diffTemplateSchema,
+  handleDiffTemplate,
+  formatDiffTemplateResponse,
+  DIFF_TEMPLATE_DESCRIPTION,
+} from './tools/diff-template.js';
+import {
+  checkDriftSchema,
+  handleCheckDrift,
+  formatDriftReport,
+  CHECK_DRIFT_DESCRIPTION,
+} from './tools/check-drift.js';
 
 // Resources
 import {
+  completeTemplateUri,
+  getTemplateFileResource,
+  getTemplateMetadataResource,
+  getTemplateReadmeResource,
   getTemplateResource,
+  listTemplateResources,
+  parseTemplateUri,
+  TEMPLATE_FILE_URI_TEMPLATE,
+  TEMPLATE_METADATA_URI_TEMPLATE,
+  TEMPLATE_README_URI_TEMPLATE,
   TEMPLATE_URI_PREFIX,
+  TEMPLATE_URI_SEGMENTS,
+  TEMPLATE_URI_TEMPLATE,
 } from './resources/template-resource.js';
+import type { ResourceContent, TemplateUriVariable } from './resources/template-resource.js';
 
 // Prompts
+import type { ImplementPrompt } from './prompts/implement.js';
 import {
-  IMPLEMENT_AUTH_PROMPT,
-  generateAuthGuide,
-} from './prompts/implement-auth.js';
+  completeImplementFeatures,
+  completeImplementVariants,
+  describeImplementPrompt,
+  generateImplementationGuide,
+  listImplementPrompts,
+  parseImplementArgs,
+} from './prompts/implement.js';
 
 /**
  * Server dependencies
@@ -50,25 +110,53 @@ interface ServerDependencies {
   templateService: TemplateService;
   embeddingService: EmbeddingService;
   searchService: SearchService;
+  /** Reloads changed templates (absent when WATCH_TEMPLATES is off) */
+  templateWatcher?: TemplateWatcher;
+}
+
+/**
+ * Reject template IDs outside the client's scopes
+ * (reported as not found so private templates stay hidden)
+ * @throws TemplateNotFoundError for the first out-of-scope ID
+ */
+function assertInScope(scopes: string[] | undefined, templateIds: string[]): void {
+  for (const templateId of templateIds) {
+    if (!isInNamespaces(templateId, scopes)) {
+      throw new TemplateNotFoundError(templateId);
+    }
+  }
 }
 
 /**
  * Create and configure the MCP server
+ * @param deps - Shared services
+ * @param scopes - Template ID prefixes the client may see (undefined for all)
  */
-export function createServer(deps: ServerDependencies): McpServer {
+export async function createServer(deps: ServerDependencies, scopes?: string[]): Promise<McpServer> {
   const server = new McpServer({
     name: 'sfvibe-templates',
     version: '1.0.0',
   });
 
   // Register tools
-  registerTools(server, deps);
+  registerTools(server, deps, scopes);
 
   // Register resources
-  registerResources(server, deps);
+  registerResources(server, deps, scopes);
 
   // Register prompts
-  registerPrompts(server, deps);
+  const unsubscribePrompts = await registerPrompts(server, deps, scopes);
+
+  // Notify the client when templates change on disk
+  if (deps.templateWatcher) {
+    const unsubscribeResources = registerTemplateNotifications(server, deps.templateWatcher, scopes);
+
+    // Stop listening once the session ends
+    server.server.onclose = (): void => {
+      unsubscribeResources();
+      unsubscribePrompts?.();
+    };
+  }
 
   return server;
 }
@@ -76,7 +164,7 @@ export function createServer(deps: ServerDependencies): McpServer {
 /**
  * Register MCP tools
  */
-function registerTools(server: McpServer, deps: ServerDependencies): void {
+function registerTools(server: McpServer, deps: ServerDependencies, scopes?: string[]): void {
   // search_templates tool
   server.tool(
     'search_templates',
@@ -85,13 +173,13 @@ function registerTools(server: McpServer, deps: ServerDependencies): void {
     async (args) => {
       try {
         const input = searchTemplatesSchema.parse(args);
-        const results = await handleSearchTemplates(input, deps.searchService);
+        const response = await handleSearchTemplates(input, deps.searchService, scopes);
 
         return {
           content: [
             {
               type: 'text' as const,
-              text: JSON.stringify(results, null, 2),
+              text: JSON.stringify(response, null, 2),
             },
           ],
         };
@@ -118,7 +206,7 @@ function registerTools(server: McpServer, deps: ServerDependencies): void {
     async (args) => {
       try {
         const input = getTemplateSchema.parse(args);
-        const result = await handleGetTemplate(input, deps.templateService);
+        const result = await handleGetTemplate(input, deps.templateService, scopes);
         const formatted = formatGetTemplateResponse(result, input.format);
 
         return {
@@ -152,8 +240,8 @@ function registerTools(server: McpServer, deps: ServerDependencies): void {
     async (args) => {
       try {
         const input = listTemplatesSchema.parse(args);
-        const results = await handleListTemplates(input, deps.templateService);
-        const formatted = formatTemplateList(results);
+        const response = await handleListTemplates(input, deps.templateService, scopes);
+        const formatted = formatTemplateList(response);
 
         return {
           content: [
@@ -178,59 +266,378 @@ function registerTools(server: McpServer, deps: ServerDependencies): void {
     }
   );
 
+  // apply_template tool
+  server.tool(
+    'apply_template',
+    APPLY_TEMPLATE_DESCRIPTION,
+    applyTemplateSchema.shape,
+    async (args) => {
+      try {
+        const input = applyTemplateSchema.parse(args);
+        assertInScope(scopes, [input.templateId]);
+        const report = await handleApplyTemplate(input, deps.templateService);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('apply_template error', { error });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // compose_templates tool
+  server.tool(
+    'compose_templates',
+    COMPOSE_TEMPLATES_DESCRIPTION,
+    composeTemplatesSchema.shape,
+    async (args) => {
+      try {
+        const input = composeTemplatesSchema.parse(args);
+        assertInScope(scopes, input.templateIds);
+        const bundle = await handleComposeTemplates(input, deps.templateService);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(bundle, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('compose_templates error', { error });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // check_dependencies tool
+  server.tool(
+    'check_dependencies',
+    CHECK_DEPENDENCIES_DESCRIPTION,
+    checkDependenciesSchema.shape,
+    async (args) => {
+      try {
+        const input = checkDependenciesSchema.parse(args);
+        assertInScope(scopes, input.templateIds);
+        const report = await handleCheckDependencies(input, deps.templateService);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('check_dependencies error', { error });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // recommend_templates tool
+  server.tool(
+    'recommend_templates',
+    RECOMMEND_TEMPLATES_DESCRIPTION,
+    recommendTemplatesSchema.shape,
+    async (args) => {
+      try {
+        const input = recommendTemplatesSchema.parse(args);
+        const recommendations = await handleRecommendTemplates(input, deps.templateService, scopes);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(recommendations, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('recommend_templates error', { error });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // diff_template tool
+  server.tool(
+    'diff_template',
+    DIFF_TEMPLATE_DESCRIPTION,
+    diffTemplateSchema.shape,
+    async (args) => {
+      try {
+        const input = diffTemplateSchema.parse(args);
+        const diff = await handleDiffTemplate(input, deps.templateService, scopes);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: formatDiffTemplateResponse(diff),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('diff_template error', { error });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // check_drift tool
+  server.tool(
+    'check_drift',
+    CHECK_DRIFT_DESCRIPTION,
+    checkDriftSchema.shape,
+    async (args) => {
+      try {
+        const input = checkDriftSchema.parse(args);
+        const report = await handleCheckDrift(input, deps.templateService, scopes);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: formatDriftReport(report),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('check_drift error', { error });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
   logger.info('Registered MCP tools', {
-    tools: ['search_templates', 'get_template', 'list_templates'],
+    tools: [
+      'search_templates',
+      'get_template',
+      'list_templates',
+      'apply_template',
+      'compose_templates',
+      'check_dependencies',
+      'recommend_templates',
+      'diff_template',
+      'check_drift',
+    ],
   });
 }
 
 /**
  * Register MCP resources
+ * Each template is a resource (all its code files), with per-file, metadata and README
+ * resources underneath; clients can list templates and complete every URI segment.
  */
-function registerResources(server: McpServer, deps: ServerDependencies): void {
-  // List all template resources
-  server.resource(
-    `${TEMPLATE_URI_PREFIX}*`,
-    'Code template resources',
-    async (uri) => {
+function registerResources(server: McpServer, deps: ServerDependencies, scopes?: string[]): void {
+  const complete = (variables: TemplateUriVariable[]): Record<string, CompleteResourceTemplateCallback> =>
+    Object.fromEntries(
+      variables.map((variable) => [
+        variable,
+        (value: string, context?: { arguments?: Record<string, string> }): Promise<string[]> =>
+          completeTemplateUri(deps.templateService, variable, value, context?.arguments, scopes),
+      ])
+    );
+
+  const read =
+    (fetch: (uri: string, templateService: TemplateService) => Promise<ResourceContent | ResourceContent[]>) =>
+    async (uri: URL): Promise<{ contents: ResourceContent[] }> => {
       try {
-        const contents = await getTemplateResource(uri.href, deps.templateService);
+        assertInScope(scopes, [parseTemplateUri(uri.href)]);
+        const contents = await fetch(uri.href, deps.templateService);
 
-        return {
-          contents: contents.map((c) => ({
-            uri: c.uri,
-            mimeType: c.mimeType,
-            text: c.text,
-          })),
-        };
+        return { contents: Array.isArray(contents) ? contents : [contents] };
       } catch (error) {
         logger.error('Resource fetch error', { uri: uri.href, error });
         throw error;
       }
-    }
+    };
+
+  server.resource(
+    'template',
+    new ResourceTemplate(TEMPLATE_URI_TEMPLATE, {
+      list: async (): Promise<ListResourcesResult> => ({
+        resources: (await listTemplateResources(deps.templateService, scopes)).map(({ root, ...resource }) => ({
+          ...resource,
+          _meta: { root },
+        })),
+      }),
+      complete: complete([...TEMPLATE_URI_SEGMENTS]),
+    }),
+    { description: 'Every code file of a template; pin a version with @ (e.g., stripe-checkout@1.x)' },
+    read(getTemplateResource)
+  );
+
+  server.resource(
+    'template-file',
+    new ResourceTemplate(TEMPLATE_FILE_URI_TEMPLATE, {
+      list: undefined,
+      complete: complete([...TEMPLATE_URI_SEGMENTS, 'path']),
+    }),
+    { description: "One code file of a template, by its path under the template's files/ directory" },
+    read(getTemplateFileResource)
+  );
+
+  server.resource(
+    'template-metadata',
+    new ResourceTemplate(TEMPLATE_METADATA_URI_TEMPLATE, {
+      list: undefined,
+      complete: complete([...TEMPLATE_URI_SEGMENTS]),
+    }),
+    { description: 'Resolved template metadata (inherited fields merged in)', mimeType: 'application/json' },
+    read(getTemplateMetadataResource)
+  );
+
+  server.resource(
+    'template-readme',
+    new ResourceTemplate(TEMPLATE_README_URI_TEMPLATE, {
+      list: undefined,
+      complete: complete([...TEMPLATE_URI_SEGMENTS]),
+    }),
+    { description: 'Template README', mimeType: 'text/markdown' },
+    read(getTemplateReadmeResource)
   );
 
   logger.info('Registered MCP resources');
 }
 
 /**
- * Register MCP prompts
+ * Track resource subscriptions and send list-changed and updated notifications when templates change
+ * Only changes to templates within the client's scopes are announced.
+ * @returns Function that stops listening to the watcher
  */
-function registerPrompts(server: McpServer, deps: ServerDependencies): void {
-  // implement_auth prompt
-  server.prompt(
-    IMPLEMENT_AUTH_PROMPT.name,
-    IMPLEMENT_AUTH_PROMPT.description,
-    IMPLEMENT_AUTH_PROMPT.argsSchema.shape,
-    async (args) => {
+function registerTemplateNotifications(
+  server: McpServer,
+  watcher: TemplateWatcher,
+  scopes?: string[]
+): () => void {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return watcher.subscribe((templateIds) => {
+    const visible = new Set(templateIds.filter((id) => isInNamespaces(id, scopes)));
+    if (visible.size === 0 || !server.isConnected()) {
+      return;
+    }
+
+    server.sendResourceListChanged();
+    for (const uri of subscriptions) {
+      if (uri.startsWith(TEMPLATE_URI_PREFIX) && visible.has(parseTemplateUri(uri))) {
+        server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+          logger.warn('Failed to send resource update', { uri, error });
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Register one implement_* prompt
+ */
+function registerImplementPrompt(
+  server: McpServer,
+  prompt: ImplementPrompt,
+  deps: ServerDependencies,
+  scopes?: string[]
+): RegisteredPrompt {
+  // completable() marks the schema itself, so each server completes on its own copies (with its own scopes)
+  const args = prompt.argsSchema.shape;
+  return server.prompt(
+    prompt.name,
+    prompt.description,
+    {
+      ...args,
+      [prompt.variantArgument]: completable(args[prompt.variantArgument].clone(), (value, context) =>
+        completeImplementVariants(prompt, deps.templateService, value ?? '', context?.arguments?.framework, scopes)
+      ),
+      framework: completable(args.framework.clone(), (value) =>
+        completeFrameworks(deps.templateService, value ?? '', { category: prompt.category, namespaces: scopes })
+      ),
+      features: completable(args.features.clone(), (value, context) =>
+        completeImplementFeatures(
+          prompt,
+          deps.templateService,
+          value ?? '',
+          context?.arguments?.[prompt.variantArgument],
+          context?.arguments?.framework,
+          scopes
+        )
+      ),
+    },
+    async (rawArgs) => {
       try {
-        const parsedArgs = IMPLEMENT_AUTH_PROMPT.argsSchema.parse(args);
-        const guide = await generateAuthGuide(
-          {
-            provider: parsedArgs.provider,
-            framework: parsedArgs.framework,
-            features: parsedArgs.features,
-          },
-          deps.templateService
+        const guide = await generateImplementationGuide(
+          prompt,
+          parseImplementArgs(prompt, rawArgs),
+          deps.templateService,
+          scopes
         );
 
         return {
@@ -245,14 +652,58 @@ function registerPrompts(server: McpServer, deps: ServerDependencies): void {
           ],
         };
       } catch (error) {
-        logger.error('implement_auth prompt error', { error });
+        logger.error(`${prompt.name} prompt error`, { error });
         throw error;
       }
     }
   );
+}
+
+/**
+ * Register MCP prompts: an implement_* prompt per category of the templates in the client's scopes
+ * With a watcher, prompts follow template changes (categories added or dropped, new variant examples).
+ * @returns Function that stops following template changes (undefined without a watcher)
+ */
+async function registerPrompts(
+  server: McpServer,
+  deps: ServerDependencies,
+  scopes?: string[]
+): Promise<(() => void) | undefined> {
+  const registered = new Map<string, { prompt: ImplementPrompt; handle: RegisteredPrompt }>();
+
+  const sync = (prompts: ImplementPrompt[]): void => {
+    const next = new Map(prompts.map((prompt) => [prompt.name, prompt]));
+    for (const [name, { prompt, handle }] of registered) {
+      const replacement = next.get(name);
+      if (!replacement || describeImplementPrompt(replacement) !== describeImplementPrompt(prompt)) {
+        handle.remove();
+        registered.delete(name);
+      }
+    }
 
+    for (const prompt of prompts) {
+      if (!registered.has(prompt.name)) {
+        registered.set(prompt.name, { prompt, handle: registerImplementPrompt(server, prompt, deps, scopes) });
+      }
+    }
+  };
+
+  sync(await listImplementPrompts(deps.templateService, scopes));
   logger.info('Registered MCP prompts', {
-    prompts: ['implement_auth'],
+    prompts: Array.from(registered.keys()),
+  });
+
+  return deps.templateWatcher?.subscribe((templateIds) => {
+    if (!templateIds.some((id) => isInNamespaces(id, scopes))) {
+      return;
+    }
+
+    // A session that started without prompts can't add them (MCP fixes capabilities on connect)
+    listImplementPrompts(deps.templateService, scopes)
+      .then(sync)
+      .catch((error: unknown) => {
+        logger.warn('Failed to refresh implement prompts', { error });
+      });
   });
 }
 
@@ -262,38 +713,77 @@ function registerPrompts(server: McpServer, deps: ServerDependencies): void {
 async function initializeServices(): Promise<ServerDependencies> {
   logger.info('Initializing services...');
 
-  const templateService = new TemplateService(config.TEMPLATES_DIR);
+  const templateService = new TemplateService(getTemplateRoots());
+  logger.info('Template roots', {
+    roots: templateService.getRoots().map((root) => `${root.name}=${root.path}`),
+  });
   const embeddingService = new EmbeddingService();
   const searchService = new SearchService(templateService, embeddingService);
 
   // Initialize search service (loads embeddings)
   await searchService.initialize();
 
+  // Reload templates edited while the server runs
+  let templateWatcher: TemplateWatcher | undefined;
+  if (config.WATCH_TEMPLATES) {
+    templateWatcher = new TemplateWatcher(templateService, searchService);
+    await templateWatcher.start();
+  }
+
   logger.info('Services initialized');
 
   return {
     templateService,
     embeddingService,
     searchService,
+    templateWatcher,
   };
 }
 
 /**
  * Start the MCP server
+ * @param options - Transport options (defaults to config)
  */
-export async function startServer(): Promise<void> {
-  logger.info('Starting sfvibe-templates MCP server...');
+export async function startServer(options?: Partial<ServerOptions>): Promise<void> {
+  const transport = options?.transport ?? config.MCP_TRANSPORT;
+  logger.info('Starting sfvibe-templates MCP server...', { transport });
 
   try {
     // Initialize services
     const deps = await initializeServices();
 
-    // Create server
-    const server = createServer(deps);
-
-    // Connect to stdio transport
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    if (transport === 'http') {
+      const apiKeys = await ApiKeyService.load({ file: config.API_KEYS_FILE, env: config.API_KEYS });
+
+      // Each HTTP session gets its own server instance, scoped to the client's key
+      const handle = await startHttpTransport({
+        host: options?.host ?? config.HTTP_HOST,
+        port: options?.port ?? config.HTTP_PORT,
+        apiKeys,
+        allowUnauthenticated: config.HTTP_ALLOW_UNAUTHENTICATED,
+        allowedHosts: config.HTTP_ALLOWED_HOSTS?.split(',').map((host) => host.trim()).filter(Boolean),
+        createServer: (client) => createServer(deps, client?.scopes),
+        getHealth: async () => ({
+          templateCount: (await deps.templateService.getAllTemplateIds()).length,
+          hasSemanticSearch: deps.searchService.hasSemanticSearch(),
+        }),
+      });
+
+      const shutdown = (): void => {
+        logger.info('Shutting down HTTP transport...');
+        deps.templateWatcher?.close();
+        handle.close().finally(() => process.exit(0));
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    } else {
+      // Connect to stdio transport
+      const server = await createServer(deps);
+      await server.connect(new StdioServerTransport());
+
+      // Stop watching once the client goes away, so the process can exit
+      process.stdin.once('end', () => deps.templateWatcher?.close());
+    }
 
     logger.info('MCP server started successfully');
   } catch (error) {
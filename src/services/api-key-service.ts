@@ -0,0 +1,155 @@
+/**
+ * API key authentication for the HTTP transport
+ * @module services/api-key-service
+ */
+
+import fs from 'node:fs/promises';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+
+import { logger } from '../utils/logger.js';
+import { normalizeNamespace } from '../utils/namespaces.js';
+
+/**
+ * An API key and the template namespaces it may see
+ */
+export interface ApiKey {
+  /** Client name used in logs and session ownership */
+  name: string;
+  key: string;
+  /** Template ID prefixes the key may see (undefined or "*" for all) */
+  scopes?: string[];
+}
+
+/**
+ * Schema of the API keys file
+ */
+const apiKeysFileSchema = z.object({
+  keys: z.array(
+    z.object({
+      name: z.string().min(1),
+      key: z.string().min(16, 'API keys must be at least 16 characters'),
+      scopes: z.array(z.string().min(1)).optional(),
+    })
+  ),
+});
+
+/**
+ * Error thrown when API keys cannot be loaded
+ */
+export class ApiKeyConfigError extends Error {
+  constructor(source: string, reason: string) {
+    super(`Invalid API keys in ${source}: ${reason}`);
+    this.name = 'ApiKeyConfigError';
+  }
+}
+
+/**
+ * Hash a key so comparisons run in constant time regardless of length
+ */
+function digest(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Parse API keys from an environment variable
+ * Format: comma-separated entries of `key` or `key:scope|scope`
+ * (e.g., "k1:typescript/nextjs/payment|typescript/nextjs/auth,k2")
+ * @param value - Environment variable value
+ * @returns Parsed keys, named env-1, env-2, ...
+ * @throws ApiKeyConfigError if an entry is malformed
+ */
+export function parseApiKeysEnv(value: string): ApiKey[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const [key, scopeList] = entry.split(/:(.*)/s, 2);
+      if (key.length < 16) {
+        throw new ApiKeyConfigError('API_KEYS', `entry ${index + 1} is shorter than 16 characters`);
+      }
+
+      const scopes = scopeList?.split('|').map((scope) => scope.trim()).filter(Boolean);
+      return { name: `env-${index + 1}`, key, scopes };
+    });
+}
+
+/**
+ * Service validating bearer tokens against configured API keys
+ */
+export class ApiKeyService {
+  private readonly keys: Array<ApiKey & { digest: Buffer }>;
+
+  constructor(keys: ApiKey[]) {
+    const names = new Set<string>();
+    for (const key of keys) {
+      if (names.has(key.name)) {
+        throw new ApiKeyConfigError('configuration', `duplicate key name "${key.name}"`);
+      }
+      names.add(key.name);
+    }
+
+    this.keys = keys.map((key) => ({
+      ...key,
+      scopes: key.scopes?.map(normalizeNamespace),
+      digest: digest(key.key),
+    }));
+  }
+
+  /**
+   * Load keys from a JSON keys file and/or an environment variable value
+   * @param options - Keys file path and API_KEYS value
+   * @returns Service holding every configured key
+   * @throws ApiKeyConfigError if the file or variable is invalid
+   */
+  static async load(options: { file?: string; env?: string }): Promise<ApiKeyService> {
+    const keys: ApiKey[] = [];
+
+    if (options.file) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(options.file, 'utf-8'));
+      } catch (error) {
+        throw new ApiKeyConfigError(options.file, error instanceof Error ? error.message : 'unreadable');
+      }
+
+      const result = apiKeysFileSchema.safeParse(parsed);
+      if (!result.success) {
+        const problems = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+        throw new ApiKeyConfigError(options.file, problems.join('; '));
+      }
+      keys.push(...result.data.keys);
+    }
+
+    if (options.env) {
+      keys.push(...parseApiKeysEnv(options.env));
+    }
+
+    logger.info('Loaded API keys', { count: keys.length });
+    return new ApiKeyService(keys);
+  }
+
+  /**
+   * Check whether any keys are configured
+   */
+  public hasKeys(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * Find the API key matching a bearer token
+   * @param token - Token from the Authorization header
+   * @returns Matching key or null
+   */
+  public authenticate(token: string): ApiKey | null {
+    const candidate = digest(token);
+    const match = this.keys.find((key) => timingSafeEqual(key.digest, candidate));
+
+    if (!match) {
+      return null;
+    }
+
+    return { name: match.name, key: match.key, scopes: match.scopes };
+  }
+}
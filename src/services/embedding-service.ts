@@ -1,14 +1,16 @@
 /**
  * Embedding service for generating vector embeddings
- * Supports multiple providers: OpenAI, Google Gemini, Anthropic Claude
+ * Supports multiple providers: OpenAI, Google Gemini, Anthropic Claude, local Ollama
  * @module services/embedding-service
  */
 
+import { createHash } from 'node:crypto';
+
 import OpenAI from 'openai';
 
 import { logger } from '../utils/logger.js';
 import { config, hasEmbeddingsSupport, getEmbeddingProvider, type EmbeddingProvider } from '../utils/config.js';
-import type { TemplateMetadata } from '../types/index.js';
+import type { EmbeddingInput, TemplateMetadata } from '../types/index.js';
 
 /**
  * Embedding configuration per provider
@@ -26,6 +28,11 @@ const PROVIDER_CONFIG = {
     model: 'voyage-3-lite',
     dimensions: 512,
   },
+  ollama: {
+    model: config.OLLAMA_EMBEDDING_MODEL,
+    // Default for nomic-embed-text; other models report their size once they return a vector
+    dimensions: 768,
+  },
 } as const;
 
 /**
@@ -34,6 +41,7 @@ const PROVIDER_CONFIG = {
 export class EmbeddingService {
   private openaiClient: OpenAI | null = null;
   private provider: EmbeddingProvider | null = null;
+  private ollamaDimensions: number | null = null;
 
   /**
    * Create a new EmbeddingService instance
@@ -50,6 +58,10 @@ export class EmbeddingService {
       logger.info('Using Google Gemini for embeddings');
     } else if (this.provider === 'anthropic' && config.ANTHROPIC_API_KEY) {
       logger.info('Using Anthropic/Voyage for embeddings');
+    } else if (this.provider === 'ollama') {
+      logger.info('Using Ollama for embeddings', { url: config.OLLAMA_URL, model: config.OLLAMA_EMBEDDING_MODEL });
+    } else if (config.EMBEDDING_PROVIDER) {
+      logger.warn(`EMBEDDING_PROVIDER is ${config.EMBEDDING_PROVIDER} but its API key is not set. Semantic search will be disabled.`);
     } else if (!hasEmbeddingsSupport()) {
       logger.warn('No embedding API key configured. Semantic search will be disabled.');
     }
@@ -139,6 +151,44 @@ export class EmbeddingService {
     return embedding.map(val => val / magnitude);
   }
 
+  /**
+   * Generate an embedding for a text string using a local Ollama server
+   * Works offline once the model is pulled; a server that does not answer within
+   * OLLAMA_TIMEOUT_MS counts as unreachable
+   */
+  private async generateOllamaEmbedding(text: string): Promise<number[]> {
+    let response: Response;
+    try {
+      response = await fetch(new URL('/api/embed', config.OLLAMA_URL), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: PROVIDER_CONFIG.ollama.model,
+          input: text,
+        }),
+        signal: AbortSignal.timeout(config.OLLAMA_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new Error(`Ollama is not reachable at ${config.OLLAMA_URL}. Is "ollama serve" running?`, { cause: error });
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Ollama API error: ${error}`);
+    }
+
+    const data = await response.json() as { embeddings?: number[][] };
+    const embedding = data.embeddings?.[0];
+    if (!embedding || embedding.length === 0) {
+      throw new Error('Ollama API error: no embedding returned');
+    }
+
+    this.ollamaDimensions = embedding.length;
+    return embedding;
+  }
+
   /**
    * Simple hash function for text
    */
@@ -170,6 +220,8 @@ export class EmbeddingService {
           return await this.generateGeminiEmbedding(text);
         case 'anthropic':
           return await this.generateAnthropicEmbedding(text);
+        case 'ollama':
+          return await this.generateOllamaEmbedding(text);
         default:
           throw new Error(`Unknown provider: ${this.provider}`);
       }
@@ -180,12 +232,12 @@ export class EmbeddingService {
   }
 
   /**
-   * Generate an embedding for a template based on its metadata
+   * Build the text a template's embedding is generated from
    * @param template - Template metadata
-   * @returns Embedding vector
+   * @returns Name, description, category, framework, language and tags
    */
-  public async generateTemplateEmbedding(template: TemplateMetadata): Promise<number[]> {
-    const text = [
+  public getTemplateText(template: TemplateMetadata): string {
+    return [
       template.name,
       template.description,
       template.category,
@@ -193,17 +245,33 @@ export class EmbeddingService {
       template.language,
       ...template.tags,
     ].join(' ');
+  }
 
-    return this.generateEmbedding(text);
+  /**
+   * Hash the text an embedding is generated from, to tell when a cached embedding is stale
+   * @param text - Embedded text
+   * @returns SHA-256 hex digest
+   */
+  public hashText(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
   }
 
   /**
-   * Generate embeddings for multiple templates
-   * @param templates - Array of template metadata
-   * @returns Map of template ID to embedding vector
+   * Generate an embedding for a template based on its metadata
+   * @param template - Template metadata
+   * @returns Embedding vector
+   */
+  public async generateTemplateEmbedding(template: TemplateMetadata): Promise<number[]> {
+    return this.generateEmbedding(this.getTemplateText(template));
+  }
+
+  /**
+   * Generate embeddings for multiple texts
+   * @param inputs - Texts with the IDs to store their vectors under
+   * @returns Map of ID to embedding vector
    */
   public async generateBatchEmbeddings(
-    templates: TemplateMetadata[]
+    inputs: EmbeddingInput[]
   ): Promise<Map<string, number[]>> {
     const embeddings = new Map<string, number[]>();
 
@@ -213,12 +281,12 @@ export class EmbeddingService {
     }
 
     const batchSize = 10;
-    for (let i = 0; i < templates.length; i += batchSize) {
-      const batch = templates.slice(i, i + batchSize);
+    for (let i = 0; i < inputs.length; i += batchSize) {
+      const batch = inputs.slice(i, i + batchSize);
 
-      const promises = batch.map(async (template) => {
-        const embedding = await this.generateTemplateEmbedding(template);
-        return { id: template.id, embedding };
+      const promises = batch.map(async (input) => {
+        const embedding = await this.generateEmbedding(input.text);
+        return { id: input.id, embedding };
       });
 
       const results = await Promise.all(promises);
@@ -228,7 +296,7 @@ export class EmbeddingService {
 
       logger.debug('Processed embedding batch', {
         batch: i / batchSize + 1,
-        total: Math.ceil(templates.length / batchSize),
+        total: Math.ceil(inputs.length / batchSize),
         provider: this.provider,
       });
     }
@@ -244,11 +312,24 @@ export class EmbeddingService {
     return PROVIDER_CONFIG[this.provider].model;
   }
 
+  /**
+   * Check whether stored vectors can be compared with the ones this service generates
+   * Ollama models vary in size, so only the model is checked until a vector has been generated
+   * @param model - Model the vectors came from
+   * @param dimensions - Length of the vectors
+   */
+  public isCompatible(model: string, dimensions: number): boolean {
+    if (!this.isAvailable() || model !== this.getModelName()) return false;
+    if (this.provider === 'ollama' && this.ollamaDimensions === null) return true;
+    return dimensions === this.getDimensions();
+  }
+
   /**
    * Get the embedding dimensions
    */
   public getDimensions(): number {
     if (!this.provider) return 0;
+    if (this.provider === 'ollama' && this.ollamaDimensions !== null) return this.ollamaDimensions;
     return PROVIDER_CONFIG[this.provider].dimensions;
   }
 }
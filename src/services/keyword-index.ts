@@ -0,0 +1,224 @@
+/**
+ * Offline keyword index with BM25 scoring
+ * @module services/keyword-index
+ */
+
+import { stem } from '../utils/stemmer.js';
+
+/**
+ * Relative weight of each indexed field
+ */
+export type FieldWeights = Record<string, number>;
+
+/**
+ * Field weights for template metadata and content chunks: a hit in the name or tags says more
+ * than one in the description, README or code
+ */
+export const TEMPLATE_FIELD_WEIGHTS: FieldWeights = {
+  name: 3,
+  tags: 2,
+  category: 1.5,
+  description: 1,
+  content: 1,
+};
+
+/**
+ * Words too common to say anything about a template
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'we', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into stemmed search terms
+ * Splits on punctuation and camelCase, lowercases, drops stop words and stems each word.
+ * @param text - Text to tokenize
+ * @returns Terms in order of appearance (with repeats)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * A document matching a keyword query
+ */
+export interface KeywordMatch {
+  id: string;
+  /** BM25 score (unbounded, higher is better) */
+  score: number;
+  /** Query terms found in the document, stemmed */
+  matchedTerms: string[];
+  /** Fields each matched term was found in */
+  fields: Record<string, string[]>;
+}
+
+/**
+ * BM25 tuning parameters
+ */
+export interface KeywordIndexOptions {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number;
+  /** Length normalization, 0 (none) to 1 (full) (default 0.75) */
+  b?: number;
+  /** Weight per field name; fields without a weight are ignored */
+  weights?: FieldWeights;
+}
+
+/**
+ * Inverted index scoring documents with BM25F
+ * Each field's term frequency is length-normalized against that field's average length,
+ * weighted, summed, and then saturated once per term.
+ */
+export class KeywordIndex {
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly weights: FieldWeights;
+  /** term -> document ID -> field -> term frequency */
+  private postings: Map<string, Map<string, Map<string, number>>> = new Map();
+  /** document ID -> field -> number of terms */
+  private fieldLengths: Map<string, Map<string, number>> = new Map();
+  /** field -> total number of terms and number of documents with the field */
+  private fieldTotals: Map<string, { terms: number; documents: number }> = new Map();
+
+  /**
+   * Create a new KeywordIndex instance
+   * @param options - BM25 parameters and field weights
+   */
+  constructor(options: KeywordIndexOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.weights = options.weights ?? TEMPLATE_FIELD_WEIGHTS;
+  }
+
+  /**
+   * Weight of a field (0 for fields that are not indexed)
+   * @param field - Field name
+   */
+  public fieldWeight(field: string): number {
+    return this.weights[field] ?? 0;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  public get size(): number {
+    return this.fieldLengths.size;
+  }
+
+  /**
+   * Add a document, replacing any document with the same ID
+   * @param id - Document ID
+   * @param fields - Text per field
+   */
+  public add(id: string, fields: Record<string, string>): void {
+    this.remove(id);
+
+    const lengths = new Map<string, number>();
+    for (const [field, text] of Object.entries(fields)) {
+      if (!(field in this.weights)) continue;
+
+      const terms = tokenize(text);
+      const totals = this.fieldTotals.get(field) ?? { terms: 0, documents: 0 };
+      lengths.set(field, terms.length);
+      this.fieldTotals.set(field, { terms: totals.terms + terms.length, documents: totals.documents + 1 });
+
+      for (const term of terms) {
+        let documents = this.postings.get(term);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(term, documents);
+        }
+        let frequencies = documents.get(id);
+        if (!frequencies) {
+          frequencies = new Map();
+          documents.set(id, frequencies);
+        }
+        frequencies.set(field, (frequencies.get(field) ?? 0) + 1);
+      }
+    }
+
+    this.fieldLengths.set(id, lengths);
+  }
+
+  /**
+   * Remove a document
+   * @param id - Document ID
+   * @returns True if the document was indexed
+   */
+  public remove(id: string): boolean {
+    const lengths = this.fieldLengths.get(id);
+    if (!lengths) {
+      return false;
+    }
+
+    for (const [field, length] of lengths) {
+      const totals = this.fieldTotals.get(field);
+      if (totals) {
+        this.fieldTotals.set(field, { terms: totals.terms - length, documents: totals.documents - 1 });
+      }
+    }
+    for (const [term, documents] of this.postings) {
+      if (documents.delete(id) && documents.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.fieldLengths.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove every document
+   */
+  public clear(): void {
+    this.postings.clear();
+    this.fieldLengths.clear();
+    this.fieldTotals.clear();
+  }
+
+  /**
+   * Score documents against a query
+   * @param query - Free-text query
+   * @param include - Optional predicate limiting which document IDs are scored
+   * @returns Matching documents by descending score (ties by ID, so results are deterministic)
+   */
+  public search(query: string, include?: (id: string) => boolean): KeywordMatch[] {
+    const documentCount = this.fieldLengths.size;
+    const terms = Array.from(new Set(tokenize(query)));
+    const matches = new Map<string, KeywordMatch>();
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      if (!documents) continue;
+
+      const idf = Math.log(1 + (documentCount - documents.size + 0.5) / (documents.size + 0.5));
+
+      for (const [id, frequencies] of documents) {
+        if (include && !include(id)) continue;
+
+        let weighted = 0;
+        for (const [field, frequency] of frequencies) {
+          // Average over the documents that have the field (e.g., only templates have a name)
+          const totals = this.fieldTotals.get(field);
+          const average = (totals && totals.terms / totals.documents) || 1;
+          const length = this.fieldLengths.get(id)?.get(field) ?? 0;
+          weighted += (this.weights[field] * frequency) / (1 - this.b + (this.b * length) / average);
+        }
+
+        const match = matches.get(id) ?? { id, score: 0, matchedTerms: [], fields: {} };
+        match.score += (idf * weighted) / (this.k1 + weighted);
+        match.matchedTerms.push(term);
+        match.fields[term] = Array.from(frequencies.keys());
+        matches.set(id, match);
+      }
+    }
+
+    return Array.from(matches.values()).sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+}
@@ -7,14 +7,26 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 
 import { logger } from '../utils/logger.js';
-import { config } from '../utils/config.js';
+import { config, getEmbeddingsCachePath } from '../utils/config.js';
+import { countFacets, matchesTemplateFilters } from '../utils/template-filters.js';
+import { parseParentReference } from '../utils/template-inheritance.js';
 import { EmbeddingService } from './embedding-service.js';
-import { TemplateService } from './template-service.js';
+import { KeywordIndex } from './keyword-index.js';
+import { README_FILE, TemplateService } from './template-service.js';
+import { chunkLines, type TextChunk } from '../utils/text-chunks.js';
 import type {
   TemplateMetadata,
   SearchResult,
+  SearchResponse,
   SearchFilters,
+  SearchSignal,
+  SearchSignals,
+  SearchHit,
+  SearchExplanation,
+  FusionMethod,
   EmbeddingCache,
+  EmbeddingCacheEntry,
+  EmbeddingInput,
 } from '../types/index.js';
 
 /**
@@ -22,6 +34,81 @@ import type {
  */
 const DEFAULT_LIMIT = 5;
 
+/**
+ * Rank constant for reciprocal rank fusion; larger values flatten the gap between top ranks
+ */
+const RRF_K = 60;
+
+/**
+ * Documents embedded between embedding cache writes, so an interrupted run keeps its progress
+ */
+const CACHE_WRITE_BATCH = 50;
+
+/**
+ * Weight of a template's best README or code match relative to its metadata match in keyword ranking
+ */
+const CONTENT_WEIGHT = 0.5;
+
+/**
+ * Most hits reported per signal for one template
+ */
+const MAX_HITS = 3;
+
+/**
+ * Part of a template's README or code, indexed as its own search document
+ */
+interface ContentChunk extends TextChunk {
+  templateId: string;
+  /** README.md or a path under files/ */
+  file: string;
+}
+
+/**
+ * Templates and content chunks of an index being built, before it replaces the live one
+ */
+interface IndexedDocuments {
+  templateMetadata: Map<string, TemplateMetadata>;
+  contentChunks: Map<string, ContentChunk>;
+}
+
+/**
+ * A template in one signal's ranking
+ */
+interface RankedTemplate {
+  id: string;
+  score: number;
+  matchedTerms?: string[];
+  /** Content chunks that matched, best first */
+  hits?: ContentChunk[];
+  /** This signal's part of the explanation */
+  details?: Pick<SearchExplanation, SearchSignal>;
+}
+
+/**
+ * Keyword matches collected for one template
+ */
+interface KeywordTemplate {
+  metadataScore: number;
+  /** Score of the best content chunk */
+  contentScore: number;
+  hits: ContentChunk[];
+  /** Matched term -> where it was found */
+  terms: Map<string, Set<string>>;
+  /** Matched fields ("content" for README and code) */
+  fields: Set<string>;
+}
+
+/**
+ * A template's fused score with the signals behind it
+ */
+interface FusedTemplate {
+  id: string;
+  score: number;
+  signals: SearchSignals;
+  hits: SearchHit[];
+  explanation: SearchExplanation;
+}
+
 /**
  * Calculate cosine similarity between two vectors
  * @param a - First vector
@@ -54,32 +141,99 @@ function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 /**
- * Simple keyword matching score
- * @param query - Search query
- * @param template - Template metadata
- * @returns Match score (0-1)
+ * Location label of a content chunk (e.g., "README.md:1-40")
  */
-function keywordMatchScore(query: string, template: TemplateMetadata): number {
-  const queryTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
-  const searchableText = [
-    template.name,
-    template.description,
-    template.category,
-    template.framework,
-    template.language,
-    ...template.tags,
-  ]
-    .join(' ')
-    .toLowerCase();
-
-  let matches = 0;
-  for (const term of queryTerms) {
-    if (searchableText.includes(term)) {
-      matches++;
+function chunkLabel(chunk: ContentChunk): string {
+  return `${chunk.file}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+/**
+ * Document ID of a content chunk (e.g., "typescript/nextjs/storage/s3-upload#s3.ts:1-40")
+ */
+function chunkId(chunk: ContentChunk): string {
+  return `${chunk.templateId}#${chunkLabel(chunk)}`;
+}
+
+/**
+ * Text of each indexed field of a template
+ */
+function templateFields(template: TemplateMetadata): Record<string, string> {
+  return {
+    name: template.name,
+    tags: template.tags.join(' '),
+    category: [template.category, template.framework, template.language].join(' '),
+    description: template.description,
+  };
+}
+
+/**
+ * Remove a template and its content chunks from an index being built
+ * Their embeddings stay until the next sync, which reuses those whose text hasn't changed.
+ */
+function removeTemplateDocuments(documents: IndexedDocuments, templateId: string): void {
+  documents.templateMetadata.delete(templateId);
+  for (const [id, chunk] of documents.contentChunks) {
+    if (chunk.templateId === templateId) {
+      documents.contentChunks.delete(id);
     }
   }
+}
 
-  return queryTerms.length > 0 ? matches / queryTerms.length : 0;
+/**
+ * Combine per-signal rankings into one
+ * With a single ranking its scores are kept as they are.
+ * @param rankings - Ranking per signal, best first
+ * @param fusion - rrf scores by rank, weighted by score
+ * @param weights - Relative weight per signal
+ * @returns Fused scores (0-1 for rrf; 1 means first in every ranking), best first with ties by ID
+ */
+function fuseRankings(
+  rankings: Partial<Record<SearchSignal, RankedTemplate[]>>,
+  fusion: FusionMethod,
+  weights: Record<SearchSignal, number>
+): FusedTemplate[] {
+  const signals = Object.keys(rankings) as SearchSignal[];
+  const totalWeight = signals.reduce((sum, signal) => sum + weights[signal], 0);
+  const method = signals.length > 1 ? fusion : 'none';
+  const shares: Partial<Record<SearchSignal, number>> = {};
+  for (const signal of signals) {
+    shares[signal] = signals.length === 1 ? 1 : weights[signal] / totalWeight;
+  }
+  const fused = new Map<string, FusedTemplate>();
+
+  for (const signal of signals) {
+    const weight = shares[signal] ?? 0;
+
+    rankings[signal]?.forEach((entry, index) => {
+      const rank = index + 1;
+      const contribution = method === 'rrf'
+        ? (weight * (RRF_K + 1)) / (RRF_K + rank)
+        : weight * entry.score;
+
+      const template = fused.get(entry.id) ?? {
+        id: entry.id,
+        score: 0,
+        signals: {},
+        hits: [],
+        explanation: { fusion: method, weights: shares, rrfK: method === 'rrf' ? RRF_K : undefined },
+      };
+      template.score += contribution;
+      template.signals[signal] = { score: entry.score, rank, contribution, matchedTerms: entry.matchedTerms };
+      Object.assign(template.explanation, entry.details);
+      fused.set(entry.id, template);
+
+      for (const chunk of entry.hits ?? []) {
+        const hit = template.hits.find((h) => h.file === chunk.file && h.startLine === chunk.startLine);
+        if (hit) {
+          hit.signals.push(signal);
+        } else {
+          template.hits.push({ file: chunk.file, startLine: chunk.startLine, endLine: chunk.endLine, signals: [signal] });
+        }
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
 }
 
 /**
@@ -88,19 +242,29 @@ function keywordMatchScore(query: string, template: TemplateMetadata): number {
 export class SearchService {
   private embeddingService: EmbeddingService;
   private templateService: TemplateService;
-  private templateEmbeddings: Map<string, number[]> = new Map();
+  /** Embeddings of templates (by template ID) and content chunks (by chunk ID), with the hash of their text */
+  private embeddings: Map<string, EmbeddingCacheEntry> = new Map();
   private templateMetadata: Map<string, TemplateMetadata> = new Map();
+  private contentChunks: Map<string, ContentChunk> = new Map();
+  private keywordIndex = new KeywordIndex();
   private initialized = false;
   private embeddingsAvailable = false;
+  private cachePath: string;
 
   /**
    * Create a new SearchService instance
    * @param templateService - Template service for loading templates
    * @param embeddingService - Embedding service for generating embeddings
+   * @param cachePath - Embedding cache file (default: getEmbeddingsCachePath())
    */
-  constructor(templateService: TemplateService, embeddingService: EmbeddingService) {
+  constructor(
+    templateService: TemplateService,
+    embeddingService: EmbeddingService,
+    cachePath = getEmbeddingsCachePath()
+  ) {
     this.templateService = templateService;
     this.embeddingService = embeddingService;
+    this.cachePath = cachePath;
   }
 
   /**
@@ -113,131 +277,334 @@ export class SearchService {
 
     logger.info('Initializing search service...');
 
-    // Load all template metadata first
-    const templateIds = await this.templateService.getAllTemplateIds();
-    for (const id of templateIds) {
-      const metadata = await this.templateService.loadTemplate(id);
-      if (metadata) {
-        this.templateMetadata.set(id, metadata);
-      }
+    // Load all template metadata first (templates with a broken inheritance chain are skipped)
+    const documents: IndexedDocuments = { templateMetadata: new Map(), contentChunks: new Map() };
+    for (const metadata of await this.templateService.listTemplates()) {
+      await this.addTemplateDocuments(documents, metadata);
     }
 
-    // Try to load cached embeddings
-    const cacheLoaded = await this.loadCachedEmbeddings();
-
-    if (!cacheLoaded && this.embeddingService.isAvailable()) {
-      // Generate embeddings for all templates if OpenAI is available
-      await this.generateAllEmbeddings();
-      this.embeddingsAvailable = true;
-    } else if (cacheLoaded) {
-      this.embeddingsAvailable = true;
-    } else {
+    if (!this.embeddingService.isAvailable()) {
       logger.info('Embeddings not available. Using keyword search fallback.');
-      this.embeddingsAvailable = false;
     }
+    await this.replaceIndex(documents);
 
     this.initialized = true;
     logger.info('Search service initialized', {
       templateCount: this.templateMetadata.size,
+      chunkCount: this.contentChunks.size,
       embeddingsAvailable: this.embeddingsAvailable,
     });
   }
 
+  /**
+   * Re-index templates that were added, edited or deleted, and re-embed what changed
+   * Templates extending a changed template are re-indexed too. Before initialization this is a no-op.
+   * @param templateIds - Changed template IDs
+   */
+  public async refreshTemplates(templateIds: string[]): Promise<void> {
+    if (!this.initialized) {
+      return;
+    }
+
+    const affected = new Set(templateIds);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const metadata of this.templateMetadata.values()) {
+        const parentId = metadata.extends && parseParentReference(metadata.extends).templateId;
+        if (parentId && affected.has(parentId) && !affected.has(metadata.id)) {
+          affected.add(metadata.id);
+          grew = true;
+        }
+      }
+    }
+
+    // Searches keep using the current index until the new one is complete
+    const documents: IndexedDocuments = {
+      templateMetadata: new Map(this.templateMetadata),
+      contentChunks: new Map(this.contentChunks),
+    };
+    for (const id of affected) {
+      removeTemplateDocuments(documents, id);
+
+      // A template caught mid-edit (e.g., half-written metadata.json) stays out until it loads again
+      const metadata = await this.templateService.loadTemplate(id).catch((error: unknown) => {
+        logger.warn('Skipping template that failed to load', { templateId: id, error });
+        return null;
+      });
+      // Abstract templates are left out, as in listTemplates()
+      if (metadata && !metadata.abstract) {
+        await this.addTemplateDocuments(documents, metadata);
+      }
+    }
+
+    await this.replaceIndex(documents);
+
+    logger.info('Search index refreshed', {
+      templates: Array.from(affected),
+      templateCount: this.templateMetadata.size,
+      chunkCount: this.contentChunks.size,
+    });
+  }
+
   /**
    * Search for templates using natural language query
+   * Hybrid mode (the default) fuses the embedding and keyword rankings; without embeddings, or when
+   * the query can't be embedded, every mode falls back to keyword search.
    * @param query - Search query
-   * @param filters - Optional filters
+   * @param filters - Optional filters, ranking mode and fusion weights
    * @returns Search results sorted by relevance
    */
   public async search(query: string, filters?: SearchFilters): Promise<SearchResult[]> {
+    return (await this.searchWithFacets(query, filters)).results;
+  }
+
+  /**
+   * Search for templates and count facets over every template the query matched
+   * (by keyword, or by embedding similarity of at least SEMANTIC_MIN_SIMILARITY)
+   * @param query - Search query
+   * @param filters - Optional filters, ranking mode and fusion weights
+   * @returns Results sorted by relevance, with facet counts to refine the query
+   */
+  public async searchWithFacets(query: string, filters?: SearchFilters): Promise<SearchResponse> {
     if (!this.initialized) {
       await this.initialize();
     }
 
     const limit = filters?.limit ?? DEFAULT_LIMIT;
+    const mode = filters?.mode ?? 'hybrid';
+    const weights: Record<SearchSignal, number> = {
+      semantic: filters?.weights?.semantic ?? 1,
+      keyword: filters?.weights?.keyword ?? 1,
+    };
+
+    // A signal is left out when the mode excludes it or its weight is 0
+    const semanticReady = this.embeddingsAvailable && this.embeddings.size > 0;
+    const useSemantic = mode !== 'keyword' && weights.semantic > 0 && semanticReady;
+    const useKeyword = (mode !== 'semantic' && weights.keyword > 0) || !useSemantic;
+
+    const rankings: Partial<Record<SearchSignal, RankedTemplate[]>> = {};
+    if (useSemantic) {
+      // The provider may be down (e.g., Ollama not running); the offline keyword index still answers
+      try {
+        rankings.semantic = await this.semanticRanking(query, filters);
+      } catch (error) {
+        logger.warn('Query embedding failed; using keyword search fallback', { error });
+      }
+    }
+    if (useKeyword || !rankings.semantic) {
+      rankings.keyword = this.keywordRanking(query, filters);
+    }
+
+    const fused = fuseRankings(rankings, filters?.fusion ?? 'rrf', weights);
+    const matched = fused.flatMap((template) => this.templateMetadata.get(template.id) ?? []);
+
+    const offset = filters?.offset ?? 0;
+    return {
+      results: this.buildSearchResults(fused.slice(offset, offset + limit), filters?.explain ?? false),
+      facets: countFacets(matched),
+      total: fused.length,
+    };
+  }
 
-    // Use semantic search if embeddings are available, otherwise fallback to keyword search
-    if (this.embeddingsAvailable && this.templateEmbeddings.size > 0) {
-      return this.semanticSearch(query, filters, limit);
-    } else {
-      return this.keywordSearch(query, filters, limit);
+  /**
+   * Add a template's metadata, README and code to an index being built
+   */
+  private async addTemplateDocuments(documents: IndexedDocuments, metadata: TemplateMetadata): Promise<void> {
+    documents.templateMetadata.set(metadata.id, metadata);
+
+    // README and code are indexed in chunks so hits point at a line range
+    for (const chunk of await this.loadContentChunks(metadata.id)) {
+      documents.contentChunks.set(chunkId(chunk), chunk);
     }
   }
 
   /**
-   * Semantic search using embeddings
+   * Build the keyword index and embeddings of a complete set of documents, then replace the live index in one step
+   * Embeddings of documents whose text hasn't changed are reused.
+   */
+  private async replaceIndex(documents: IndexedDocuments): Promise<void> {
+    const keywordIndex = new KeywordIndex();
+    for (const metadata of documents.templateMetadata.values()) {
+      keywordIndex.add(metadata.id, templateFields(metadata));
+    }
+    for (const [id, chunk] of documents.contentChunks) {
+      keywordIndex.add(id, { content: chunk.text });
+    }
+
+    const embeddings = this.embeddingService.isAvailable() ? await this.syncEmbeddings(documents) : this.embeddings;
+
+    this.templateMetadata = documents.templateMetadata;
+    this.contentChunks = documents.contentChunks;
+    this.keywordIndex = keywordIndex;
+    this.embeddings = embeddings;
+    this.embeddingsAvailable = this.embeddingService.isAvailable() && embeddings.size > 0;
+  }
+
+  /**
+   * Split a template's README and code files into chunks
    */
-  private async semanticSearch(
+  private async loadContentChunks(templateId: string): Promise<ContentChunk[]> {
+    const files: Record<string, string> = {};
+    for (const [file, content] of Object.entries(await this.templateService.getTemplateCode(templateId))) {
+      files[file.split(path.sep).join('/')] = content;
+    }
+    const readme = await this.templateService.getReadme(templateId);
+    if (readme !== null) {
+      files[README_FILE] = readme;
+    }
+
+    return Object.keys(files)
+      .sort()
+      .flatMap((file) => chunkLines(files[file]).map((chunk) => ({ ...chunk, templateId, file })));
+  }
+
+  /**
+   * Get the template a search document belongs to (documents are templates or content chunks)
+   */
+  private templateIdOf(documentId: string): string {
+    return this.contentChunks.get(documentId)?.templateId ?? documentId;
+  }
+
+  /**
+   * Check whether a template passes the search filters
+   */
+  private matchesFilters(templateId: string, filters: SearchFilters | undefined): boolean {
+    const metadata = this.templateMetadata.get(templateId);
+    return metadata !== undefined && matchesTemplateFilters(metadata, filters);
+  }
+
+  /**
+   * Rank templates by embedding similarity to the query
+   * A template scores as its most similar document; chunks more similar than the metadata are hits.
+   * Templates below SEMANTIC_MIN_SIMILARITY are left out, so unrelated queries don't match the whole catalog.
+   */
+  private async semanticRanking(
     query: string,
-    filters: SearchFilters | undefined,
-    limit: number
-  ): Promise<SearchResult[]> {
+    filters: SearchFilters | undefined
+  ): Promise<RankedTemplate[]> {
     // Generate embedding for the query
     const queryEmbedding = await this.embeddingService.generateEmbedding(query);
 
-    // Calculate similarity scores
-    const scores: Array<{ id: string; score: number }> = [];
+    // Calculate similarity scores per template
+    const templates = new Map<string, { metadataScore: number; chunks: Array<{ chunk: ContentChunk; score: number }> }>();
 
-    for (const [templateId, embedding] of this.templateEmbeddings) {
-      const metadata = this.templateMetadata.get(templateId);
-      if (!metadata) continue;
-
-      // Apply filters
-      if (filters?.category && metadata.category !== filters.category) continue;
-      if (filters?.language && metadata.language !== filters.language) continue;
-      if (filters?.framework && metadata.framework !== filters.framework) continue;
+    for (const [documentId, { embedding }] of this.embeddings) {
+      const templateId = this.templateIdOf(documentId);
+      if (!this.matchesFilters(templateId, filters)) continue;
 
       const score = cosineSimilarity(queryEmbedding, embedding);
-      scores.push({ id: templateId, score });
+      const template = templates.get(templateId) ?? { metadataScore: -Infinity, chunks: [] };
+      const chunk = this.contentChunks.get(documentId);
+      if (chunk) {
+        template.chunks.push({ chunk, score });
+      } else {
+        template.metadataScore = score;
+      }
+      templates.set(templateId, template);
     }
 
-    // Sort by score descending and take top results
-    scores.sort((a, b) => b.score - a.score);
-    const topResults = scores.slice(0, limit);
+    const scores: RankedTemplate[] = [];
+    for (const [id, { metadataScore, chunks }] of templates) {
+      const hits = chunks
+        .filter((c) => c.score > metadataScore)
+        .sort((a, b) => b.score - a.score);
+
+      const best = hits[0];
+      scores.push({
+        id,
+        score: best?.score ?? metadataScore,
+        hits: hits.slice(0, MAX_HITS).map((c) => c.chunk),
+        details: {
+          semantic: {
+            metadataSimilarity: Number.isFinite(metadataScore) ? metadataScore : undefined,
+            bestChunk: best && {
+              file: best.chunk.file,
+              startLine: best.chunk.startLine,
+              endLine: best.chunk.endLine,
+              similarity: best.score,
+            },
+          },
+        },
+      });
+    }
 
-    // Build search results
-    return this.buildSearchResults(topResults);
+    return scores
+      .filter((template) => template.score >= config.SEMANTIC_MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
   }
 
   /**
-   * Keyword-based search fallback
+   * Rank templates with the BM25 keyword index (works offline)
+   * A template scores its metadata match plus its best README or code match at CONTENT_WEIGHT;
+   * scores are scaled so the best template scores 1.
    */
-  private keywordSearch(
-    query: string,
-    filters: SearchFilters | undefined,
-    limit: number
-  ): SearchResult[] {
-    const scores: Array<{ id: string; score: number }> = [];
-
-    for (const [templateId, metadata] of this.templateMetadata) {
-      // Apply filters
-      if (filters?.category && metadata.category !== filters.category) continue;
-      if (filters?.language && metadata.language !== filters.language) continue;
-      if (filters?.framework && metadata.framework !== filters.framework) continue;
-
-      const score = keywordMatchScore(query, metadata);
-      if (score > 0) {
-        scores.push({ id: templateId, score });
+  private keywordRanking(query: string, filters: SearchFilters | undefined): RankedTemplate[] {
+    const matches = this.keywordIndex.search(query, (documentId) =>
+      this.matchesFilters(this.templateIdOf(documentId), filters)
+    );
+    const templates = new Map<string, KeywordTemplate>();
+
+    // Matches come best first, so a template's first chunk match is its best
+    for (const match of matches) {
+      const chunk = this.contentChunks.get(match.id);
+      const id = chunk?.templateId ?? match.id;
+
+      const template: KeywordTemplate = templates.get(id) ?? { metadataScore: 0, contentScore: 0, hits: [], terms: new Map(), fields: new Set() };
+      if (!chunk) {
+        template.metadataScore = match.score;
+      } else if (template.hits.length === 0) {
+        template.contentScore = match.score;
+      }
+      const isHit = chunk !== undefined && template.hits.length < MAX_HITS;
+      if (isHit) {
+        template.hits.push(chunk);
       }
+
+      for (const [term, fields] of Object.entries(match.fields)) {
+        const locations = template.terms.get(term) ?? new Set();
+        for (const field of fields) {
+          // Chunks are located by line range when reported as hits, otherwise by file
+          locations.add(!chunk ? field : isHit ? chunkLabel(chunk) : chunk.file);
+          template.fields.add(field);
+        }
+        template.terms.set(term, locations);
+      }
+      templates.set(id, template);
     }
 
-    // Sort by score descending and take top results
-    scores.sort((a, b) => b.score - a.score);
-    const topResults = scores.slice(0, limit);
+    const ranked: RankedTemplate[] = [];
+    for (const [id, { metadataScore, contentScore, hits, terms, fields }] of templates) {
+      const matchedTerms = Array.from(terms.keys()).sort();
+      ranked.push({
+        id,
+        score: metadataScore + CONTENT_WEIGHT * contentScore,
+        matchedTerms,
+        hits,
+        details: {
+          keyword: {
+            metadataScore,
+            contentScore,
+            contentWeight: CONTENT_WEIGHT,
+            terms: matchedTerms.map((term) => ({ term, fields: Array.from(terms.get(term) ?? []) })),
+            fieldWeights: Object.fromEntries(Array.from(fields, (field) => [field, this.keywordIndex.fieldWeight(field)])),
+          },
+        },
+      });
+    }
+    ranked.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
 
-    // Build search results
-    return this.buildSearchResults(topResults);
+    const topScore = ranked[0]?.score ?? 0;
+    return ranked.map((template) => ({ ...template, score: template.score / topScore }));
   }
 
   /**
-   * Build search results from scores
+   * Build search results from fused scores
    */
-  private buildSearchResults(
-    scores: Array<{ id: string; score: number }>
-  ): SearchResult[] {
+  private buildSearchResults(scores: FusedTemplate[], explain: boolean): SearchResult[] {
     const results: SearchResult[] = [];
 
-    for (const { id, score } of scores) {
+    for (const { id, score, signals, hits, explanation } of scores) {
       const metadata = this.templateMetadata.get(id);
       if (!metadata) continue;
 
@@ -249,6 +616,10 @@ export class SearchService {
         category: metadata.category,
         language: metadata.language,
         framework: metadata.framework,
+        root: metadata.root,
+        signals,
+        hits,
+        explanation: explain ? explanation : undefined,
       });
     }
 
@@ -256,54 +627,180 @@ export class SearchService {
   }
 
   /**
-   * Load cached embeddings from disk
-   * @returns True if cache was loaded successfully
+   * Load the embedding cache from disk
+   * @returns The cache, or null if it is missing, in an old format or from another model
    */
-  private async loadCachedEmbeddings(): Promise<boolean> {
-    const cachePath = path.join(config.TEMPLATES_DIR, 'embeddings.json');
-
+  private async loadEmbeddingCache(): Promise<EmbeddingCache | null> {
+    let cache: EmbeddingCache;
     try {
-      const cacheContent = await fs.readFile(cachePath, 'utf-8');
-      const cache = JSON.parse(cacheContent) as EmbeddingCache;
-
-      // Load embeddings
-      for (const [id, embedding] of Object.entries(cache.embeddings)) {
-        this.templateEmbeddings.set(id, embedding);
+      cache = JSON.parse(await fs.readFile(this.cachePath, 'utf-8')) as EmbeddingCache;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to load embedding cache', { error });
       }
+      return null;
+    }
+
+    if (typeof cache.dimensions !== 'number' || typeof cache.embeddings !== 'object' || cache.embeddings === null) {
+      logger.info('Ignoring embedding cache in an outdated format', { path: this.cachePath });
+      return null;
+    }
 
-      logger.info('Loaded cached embeddings', {
-        count: this.templateEmbeddings.size,
-        generatedAt: cache.generatedAt,
+    // Vectors from another model (e.g., after switching from Gemini to OpenAI) can't be compared with query embeddings
+    if (!this.embeddingService.isCompatible(cache.model, cache.dimensions)) {
+      logger.info('Ignoring embedding cache from another model', {
+        cacheModel: cache.model,
+        cacheDimensions: cache.dimensions,
+        model: this.embeddingService.getModelName(),
+        dimensions: this.embeddingService.getDimensions(),
       });
+      return null;
+    }
 
-      return true;
+    logger.info('Loaded cached embeddings', {
+      count: Object.keys(cache.embeddings).length,
+      generatedAt: cache.generatedAt,
+    });
+
+    return cache;
+  }
+
+  /**
+   * Write the embedding cache to disk (failures are logged, e.g., for a read-only install)
+   */
+  private async saveEmbeddingCache(embeddings: Record<string, EmbeddingCacheEntry>): Promise<void> {
+    const first = Object.values(embeddings)[0];
+    const cache: EmbeddingCache = {
+      embeddings,
+      generatedAt: new Date().toISOString(),
+      model: this.embeddingService.getModelName(),
+      dimensions: first?.embedding.length ?? this.embeddingService.getDimensions(),
+    };
+
+    // Write to a temporary file first so an interrupted write never leaves a truncated cache
+    const tempPath = `${this.cachePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.cachePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(cache));
+      await fs.rename(tempPath, this.cachePath);
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        logger.warn('Failed to load embedding cache', { error });
-      }
-      return false;
+      logger.warn('Failed to save embedding cache', { error, path: this.cachePath });
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
     }
   }
 
   /**
-   * Generate embeddings for all templates
+   * Texts to embed: each template's metadata and each content chunk
    */
-  private async generateAllEmbeddings(): Promise<void> {
-    logger.info('Generating embeddings for all templates...');
+  private embeddingInputs(documents: IndexedDocuments): EmbeddingInput[] {
+    const inputs: EmbeddingInput[] = [];
+    for (const metadata of documents.templateMetadata.values()) {
+      inputs.push({ id: metadata.id, text: this.embeddingService.getTemplateText(metadata) });
+    }
+    for (const [id, chunk] of documents.contentChunks) {
+      inputs.push({ id, text: `${chunk.file}\n${chunk.text}` });
+    }
+    return inputs;
+  }
 
-    const templates = Array.from(this.templateMetadata.values());
-    const embeddings = await this.embeddingService.generateBatchEmbeddings(templates);
-    this.templateEmbeddings = embeddings;
+  /**
+   * Reuse embeddings of unchanged documents, re-embed stale or missing ones, drop orphans and save the cache
+   * Embeddings held in memory are reused first; the disk cache is only read for documents they don't cover,
+   * so a cache that can't be written (e.g., a read-only install) doesn't mean re-embedding on every refresh.
+   * An embedding is reused only while the hash of its text matches.
+   * @param documents - Documents of the index being built
+   * @returns Embeddings by document ID; documents still missing one are only found by keyword
+   */
+  private async syncEmbeddings(documents: IndexedDocuments): Promise<Map<string, EmbeddingCacheEntry>> {
+    const inputs = this.embeddingInputs(documents);
+    const entries: Record<string, EmbeddingCacheEntry> = {};
+    const stale: Array<EmbeddingInput & { hash: string }> = [];
+    // Loaded on the first document missing from memory
+    let cache: EmbeddingCache | null | undefined;
+    let dirty = false;
+
+    for (const input of inputs) {
+      const hash = this.embeddingService.hashText(input.text);
+      let entry = this.embeddings.get(input.id);
+
+      if (entry?.hash !== hash) {
+        if (cache === undefined) {
+          cache = await this.loadEmbeddingCache();
+          dirty = cache === null;
+        }
+        const cached = cache?.embeddings[input.id];
+        const fresh = cached?.hash === hash && Array.isArray(cached.embedding) &&
+          cached.embedding.length === cache?.dimensions;
+        entry = fresh ? cached : undefined;
+      }
+
+      if (entry) {
+        entries[input.id] = entry;
+      } else {
+        stale.push({ ...input, hash });
+      }
+    }
+
+    const current = new Set(inputs.map((input) => input.id));
+    const known = new Set([...this.embeddings.keys(), ...Object.keys(cache?.embeddings ?? {})]);
+    const orphans = Array.from(known).filter((id) => !current.has(id));
+    dirty ||= orphans.length > 0;
+    let embedded = 0;
+
+    if (stale.length > 0) {
+      logger.info('Generating embeddings for new or changed templates...', { count: stale.length });
+    }
+
+    for (let i = 0; i < stale.length; i += CACHE_WRITE_BATCH) {
+      const batch = stale.slice(i, i + CACHE_WRITE_BATCH);
+
+      let embeddings: Map<string, number[]>;
+      try {
+        embeddings = await this.embeddingService.generateBatchEmbeddings(batch);
+      } catch (error) {
+        logger.warn('Failed to generate embeddings', { error });
+        break;
+      }
+
+      for (const { id, hash } of batch) {
+        const embedding = embeddings.get(id);
+        if (!embedding) continue;
+
+        entries[id] = { hash, embedding };
+        embedded++;
+      }
+
+      await this.saveEmbeddingCache(entries);
+      dirty = false;
+    }
+
+    if (dirty) {
+      await this.saveEmbeddingCache(entries);
+    }
+
+    const synced = new Map(Object.entries(entries));
+    logger.info('Embedding cache up to date', {
+      reused: synced.size - embedded,
+      embedded,
+      dropped: orphans.length,
+    });
+
+    const missing = inputs.filter((input) => !synced.has(input.id)).map((input) => input.id);
+    if (missing.length > 0) {
+      logger.warn('Documents missing embeddings are only found by keyword search', { documents: missing });
+    }
 
-    logger.info('Generated embeddings', { count: embeddings.size });
+    return synced;
   }
 
   /**
    * Clear the embedding cache
    */
   public clearCache(): void {
-    this.templateEmbeddings.clear();
+    this.embeddings.clear();
     this.templateMetadata.clear();
+    this.contentChunks.clear();
+    this.keywordIndex.clear();
     this.initialized = false;
     this.embeddingsAvailable = false;
   }
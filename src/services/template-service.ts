@@ -5,16 +5,50 @@
 
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import semver from 'semver';
 
 import { logger } from '../utils/logger.js';
+import { BUNDLED_ROOT } from '../utils/template-roots.js';
+import { resolveVariableValues, renderPlaceholders } from '../utils/template-variables.js';
+import { matchesTemplateFilters } from '../utils/template-filters.js';
+import { mergeTemplateCode, mergeTemplateMetadata, parseParentReference } from '../utils/template-inheritance.js';
 import type {
   TemplateMetadata,
   TemplateWithCode,
   TemplateFilters,
   ParsedTemplateId,
   TemplateListItem,
+  ResolvedTemplateFiles,
+  TemplateVariableValues,
+  TemplateRoot,
+  TemplateLocation,
+  RemovedTemplateVersion,
+  TemplateFeature,
+  TemplateFeatureWithCode,
+  TemplateFile,
+  EnvVariable,
 } from '../types/index.js';
 
+/**
+ * Directory inside a template holding earlier versions (versions/<version>/)
+ */
+export const VERSIONS_DIR = 'versions';
+
+/**
+ * Directory inside a template holding feature module code (features/<name>/)
+ */
+export const FEATURES_DIR = 'features';
+
+/**
+ * File describing the changes in a template version
+ */
+export const CHANGELOG_FILE = 'CHANGELOG.md';
+
+/**
+ * File documenting how to use a template
+ */
+export const README_FILE = 'README.md';
+
 /**
  * Custom error for template not found
  */
@@ -35,19 +69,71 @@ export class InvalidTemplateError extends Error {
   }
 }
 
+/**
+ * Custom error for a version or range no available version satisfies
+ */
+export class TemplateVersionNotFoundError extends Error {
+  constructor(templateId: string, requested: string, available: string[]) {
+    super(`No version of ${templateId} matches ${requested} (available: ${available.join(', ')})`);
+    this.name = 'TemplateVersionNotFoundError';
+  }
+}
+
+/**
+ * Custom error for a version that was removed, carrying its deprecation notice
+ */
+export class TemplateVersionRemovedError extends Error {
+  constructor(templateId: string, removed: RemovedTemplateVersion, available: string[]) {
+    const when = removed.removedAt ? ` on ${removed.removedAt}` : '';
+    super(
+      `Deprecated: version ${removed.version} of ${templateId} was removed${when}. ${removed.reason} ` +
+        `(available: ${available.join(', ')})`
+    );
+    this.name = 'TemplateVersionRemovedError';
+  }
+}
+
+/**
+ * Custom error for unknown, missing or invalid template variables
+ */
+export class TemplateVariableError extends Error {
+  constructor(templateId: string, problems: string[]) {
+    super(`Invalid variables for template ${templateId}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'TemplateVariableError';
+  }
+}
+
 /**
  * Service for loading and managing code templates
  */
 export class TemplateService {
-  private templatesDir: string;
+  private roots: TemplateRoot[];
   private templateCache: Map<string, TemplateMetadata> = new Map();
+  private templateRoots: Map<string, TemplateRoot> = new Map();
 
   /**
    * Create a new TemplateService instance
-   * @param templatesDir - Directory containing templates
+   * @param templatesDir - Directory containing templates, or template roots in precedence order
+   *   (a template ID found in an earlier root shadows the same ID in later roots)
+   */
+  constructor(templatesDir: string | TemplateRoot[]) {
+    this.roots = typeof templatesDir === 'string' ? [{ name: BUNDLED_ROOT, path: templatesDir }] : templatesDir;
+
+    if (this.roots.length === 0) {
+      throw new Error('At least one template root is required');
+    }
+    const names = this.roots.map((root) => root.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new Error(`Duplicate template root name: ${duplicate}`);
+    }
+  }
+
+  /**
+   * Get the template roots in precedence order
    */
-  constructor(templatesDir: string) {
-    this.templatesDir = templatesDir;
+  public getRoots(): TemplateRoot[] {
+    return [...this.roots];
   }
 
   /**
@@ -98,30 +184,102 @@ export class TemplateService {
   /**
    * Build the file system path for a template
    * @param id - Template ID
+   * @param root - Template root (defaults to the highest-precedence root)
+   * @param version - Earlier version kept under versions/ (omit for the current version)
    * @returns Absolute path to the template directory
+   * @throws InvalidTemplateError if the version is not a valid semver version
    */
-  public buildTemplatePath(id: string): string {
+  public buildTemplatePath(id: string, root: TemplateRoot = this.roots[0], version?: string): string {
     const { language, framework, category, name } = this.parseTemplateId(id);
-    return path.join(this.templatesDir, language, framework, category, name);
+    const templatePath = path.join(root.path, language, framework, category, name);
+
+    if (version === undefined) {
+      return templatePath;
+    }
+    // Security: the version becomes a path component
+    if (semver.valid(version) !== version) {
+      throw new InvalidTemplateError(id, `Invalid version: ${version}`);
+    }
+    return path.join(templatePath, VERSIONS_DIR, version);
+  }
+
+  /**
+   * Find the highest-precedence root containing a template
+   * @param id - Template ID
+   * @returns Root holding the template's metadata.json, or null if none does
+   */
+  public async findTemplateRoot(id: string): Promise<TemplateRoot | null> {
+    const cached = this.templateRoots.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    for (const root of this.roots) {
+      const metadataPath = path.join(this.buildTemplatePath(id, root), 'metadata.json');
+      if (await fs.stat(metadataPath).catch(() => null)) {
+        this.templateRoots.set(id, root);
+        return root;
+      }
+    }
+
+    return null;
   }
 
   /**
    * Load a template's metadata by ID
+   * Templates that extend another template are returned fully resolved.
    * @param templateId - Template ID
+   * @param version - Exact version to load (defaults to the current version)
    * @returns Template metadata or null if not found
+   * @throws InvalidTemplateError if the inheritance chain is broken or cyclic
+   */
+  public async loadTemplate(templateId: string, version?: string): Promise<TemplateMetadata | null> {
+    const current = await this.loadResolvedTemplate(templateId, []);
+    if (!current || version === undefined || version === current.version) {
+      return current;
+    }
+
+    return this.loadResolvedTemplate(templateId, [], version);
+  }
+
+  /**
+   * Load a template's metadata, resolving its parents first
+   * (at their pinned version, or their current version when extends has no pin)
+   * @param templateId - Template ID
+   * @param chain - IDs of the templates extending this one, outermost first
+   * @param version - Earlier version kept under versions/
    */
-  public async loadTemplate(templateId: string): Promise<TemplateMetadata | null> {
+  private async loadResolvedTemplate(
+    templateId: string,
+    chain: string[],
+    version?: string
+  ): Promise<TemplateMetadata | null> {
+    const cacheKey = version === undefined ? templateId : `${templateId}@${version}`;
+
     // Check cache first
-    if (this.templateCache.has(templateId)) {
-      return this.templateCache.get(templateId)!;
+    const cached = this.templateCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (chain.includes(templateId)) {
+      throw new InvalidTemplateError(chain[0], `Inheritance cycle: ${[...chain, templateId].join(' -> ')}`);
     }
 
     try {
-      const templatePath = this.buildTemplatePath(templateId);
+      const root = await this.findTemplateRoot(templateId);
+      if (!root) {
+        return null;
+      }
+
+      const templatePath = this.buildTemplatePath(templateId, root, version);
       const metadataPath = path.join(templatePath, 'metadata.json');
 
       const metadataContent = await fs.readFile(metadataPath, 'utf-8');
-      const metadata = JSON.parse(metadataContent) as TemplateMetadata;
+      let metadata = JSON.parse(metadataContent) as TemplateMetadata;
+      if (version !== undefined && metadata.version !== version) {
+        throw new InvalidTemplateError(templateId, `${VERSIONS_DIR}/${version} holds version ${metadata.version}`);
+      }
 
       // Validate that the ID matches
       if (metadata.id !== templateId) {
@@ -129,26 +287,98 @@ export class TemplateService {
         metadata.id = templateId;
       }
 
+      if (metadata.extends) {
+        const parent = await this.loadParent(metadata.extends, [...chain, templateId]);
+        if (!parent) {
+          throw new InvalidTemplateError(templateId, `Parent template not found: ${metadata.extends}`);
+        }
+        metadata = mergeTemplateMetadata(parent, metadata);
+      }
+      metadata.root = root.name;
+
       // Cache the result
-      this.templateCache.set(templateId, metadata);
+      this.templateCache.set(cacheKey, metadata);
 
       return metadata;
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         return null;
       }
-      logger.error('Error loading template', { templateId, error });
+      if (!(error instanceof InvalidTemplateError)) {
+        logger.error('Error loading template', { templateId, error });
+      }
       throw error;
     }
   }
 
+  /**
+   * Load the resolved metadata of the parent named by an extends field
+   * @param reference - Parent ID, optionally pinned with "@version"
+   * @param chain - IDs of the templates extending the parent, outermost first
+   */
+  private async loadParent(reference: string, chain: string[]): Promise<TemplateMetadata | null> {
+    const { templateId, version: pinned } = parseParentReference(reference);
+
+    // Loading the current version first also reports inheritance cycles
+    const current = await this.loadResolvedTemplate(templateId, chain);
+    if (!current || pinned === undefined) {
+      return current;
+    }
+
+    const version = await this.resolveVersion(templateId, pinned).catch((error: unknown) => {
+      const reason = `Cannot resolve parent ${reference}: ${(error as Error).message}`;
+      throw new InvalidTemplateError(chain[chain.length - 1], reason);
+    });
+    return version === current.version ? current : this.loadResolvedTemplate(templateId, chain, version);
+  }
+
+  /**
+   * Resolve the parent named by an extends field to its ID and exact version
+   * @param reference - Parent ID, optionally pinned with "@version"
+   * @returns Parent ID, and its version when pinned
+   */
+  private async resolveParent(reference: string): Promise<{ templateId: string; version?: string }> {
+    const { templateId, version } = parseParentReference(reference);
+    if (version === undefined) {
+      return { templateId };
+    }
+    return { templateId, version: await this.resolveVersion(templateId, version) };
+  }
+
   /**
    * Get template code files
+   * Code inherited from a parent template is included unless the child drops
+   * or replaces it.
    * @param templateId - Template ID
+   * @param version - Exact version (defaults to the current version)
    * @returns Map of file paths to their content
    */
-  public async getTemplateCode(templateId: string): Promise<Record<string, string>> {
-    const templatePath = this.buildTemplatePath(templateId);
+  public async getTemplateCode(templateId: string, version?: string): Promise<Record<string, string>> {
+    const root = await this.findTemplateRoot(templateId);
+    if (!root) {
+      return {};
+    }
+
+    const storedVersion = version !== undefined && !(await this.isCurrentVersion(templateId, version))
+      ? version
+      : undefined;
+    const code = await this.readTemplateCode(this.buildTemplatePath(templateId, root, storedVersion), templateId);
+
+    const metadata = await this.loadTemplate(templateId, version);
+
+    if (!metadata?.extends) {
+      return code;
+    }
+
+    const parent = await this.resolveParent(metadata.extends);
+    const parentCode = await this.getTemplateCode(parent.templateId, parent.version);
+    return mergeTemplateCode(metadata.files, parentCode, code);
+  }
+
+  /**
+   * Read the code stored in a template's own directory
+   */
+  private async readTemplateCode(templatePath: string, templateId: string): Promise<Record<string, string>> {
     const filesDir = path.join(templatePath, 'files');
     const code: Record<string, string> = {};
 
@@ -183,24 +413,405 @@ export class TemplateService {
   }
 
   /**
-   * Get a template with its code
+   * Get a template with its code, with variables rendered
+   * Inherited metadata and code are merged in before rendering.
    * @param templateId - Template ID
+   * @param variables - Variable values (declared defaults fill the rest)
+   * @param version - Exact version (defaults to the current version)
    * @returns Template with code or null if not found
+   * @throws TemplateVariableError if variables are unknown, missing or invalid
    */
-  public async getTemplateWithCode(templateId: string): Promise<TemplateWithCode | null> {
-    const metadata = await this.loadTemplate(templateId);
+  public async getTemplateWithCode(
+    templateId: string,
+    variables: TemplateVariableValues = {},
+    version?: string
+  ): Promise<TemplateWithCode | null> {
+    const metadata = await this.loadTemplate(templateId, version);
     if (!metadata) {
       return null;
     }
 
-    const code = await this.getTemplateCode(templateId);
+    const code = await this.getTemplateCode(templateId, version);
+
+    return this.renderTemplate(
+      {
+        ...metadata,
+        code,
+      },
+      variables
+    );
+  }
+
+  /**
+   * Substitute variable placeholders in a template's file paths, code, usage, env examples and features
+   * @param template - Template with unrendered code
+   * @param variables - Variable values (declared defaults fill the rest)
+   * @returns Rendered copy of the template
+   * @throws TemplateVariableError if variables are unknown, missing or invalid
+   */
+  public renderTemplate(template: TemplateWithCode, variables: TemplateVariableValues = {}): TemplateWithCode {
+    const values = this.resolveVariables(template, variables);
+    if (Object.keys(values).length === 0) {
+      return template;
+    }
+
+    const code: Record<string, string> = {};
+    for (const [source, content] of Object.entries(template.code)) {
+      code[source] = renderPlaceholders(content, values);
+    }
 
     return {
-      ...metadata,
+      ...template,
+      envVariables: this.renderEnvVariables(template.envVariables, values),
+      files: this.renderFiles(template.files, values),
+      usage: {
+        installation: renderPlaceholders(template.usage.installation, values),
+        configuration: renderPlaceholders(template.usage.configuration, values),
+        example: renderPlaceholders(template.usage.example, values),
+      },
+      features: template.features?.map((feature) => this.renderFeature(feature, values)),
       code,
     };
   }
 
+  /**
+   * Resolve the variable values a template renders with
+   * @throws TemplateVariableError if variables are unknown, missing or invalid
+   */
+  private resolveVariables(template: TemplateMetadata, variables: TemplateVariableValues): Record<string, string> {
+    const resolved = resolveVariableValues(template.variables ?? [], variables);
+    if ('errors' in resolved) {
+      throw new TemplateVariableError(template.id, resolved.errors);
+    }
+
+    return resolved.values;
+  }
+
+  /**
+   * Substitute variable placeholders in file destination paths
+   */
+  private renderFiles(files: TemplateFile[], values: Record<string, string>): TemplateFile[] {
+    return files.map((file) => ({
+      ...file,
+      path: path.posix.normalize(renderPlaceholders(file.path, values)),
+    }));
+  }
+
+  /**
+   * Substitute variable placeholders in env variable examples
+   */
+  private renderEnvVariables(envVariables: EnvVariable[], values: Record<string, string>): EnvVariable[] {
+    return envVariables.map((env) =>
+      env.example === undefined ? env : { ...env, example: renderPlaceholders(env.example, values) }
+    );
+  }
+
+  /**
+   * Substitute variable placeholders in a feature module's metadata
+   */
+  private renderFeature(feature: TemplateFeature, values: Record<string, string>): TemplateFeature {
+    return {
+      ...feature,
+      files: feature.files && this.renderFiles(feature.files, values),
+      envVariables: feature.envVariables && this.renderEnvVariables(feature.envVariables, values),
+      schemaChanges: feature.schemaChanges?.map((change) => ({
+        ...change,
+        path: path.posix.normalize(renderPlaceholders(change.path, values)),
+        content: renderPlaceholders(change.content, values),
+      })),
+      steps: feature.steps.map((step) => renderPlaceholders(step, values)),
+    };
+  }
+
+  /**
+   * Get a feature module of a template with its code, with variables rendered
+   * (the template's variables apply to its features too)
+   * @param templateId - Template ID
+   * @param featureName - Feature name (e.g., "role-based-access")
+   * @param variables - Variable values (declared defaults fill the rest)
+   * @param version - Exact version (defaults to the current version)
+   * @returns The feature, or null if the template doesn't exist or doesn't declare it
+   * @throws TemplateVariableError if variables are unknown, missing or invalid
+   */
+  public async getFeatureWithCode(
+    templateId: string,
+    featureName: string,
+    variables: TemplateVariableValues = {},
+    version?: string
+  ): Promise<TemplateFeatureWithCode | null> {
+    const metadata = await this.loadTemplate(templateId, version);
+    const feature = metadata?.features?.find((f) => f.name === featureName);
+    if (!metadata || !feature) {
+      return null;
+    }
+
+    const values = this.resolveVariables(metadata, variables);
+    const code: Record<string, string> = {};
+    for (const [source, content] of Object.entries(await this.getFeatureCode(templateId, featureName, version))) {
+      code[source] = renderPlaceholders(content, values);
+    }
+
+    return {
+      ...this.renderFeature(feature, values),
+      code,
+    };
+  }
+
+  /**
+   * Read a feature module's code from features/<name>/
+   * A feature the template inherits comes with its parent's code.
+   */
+  private async getFeatureCode(
+    templateId: string,
+    featureName: string,
+    version?: string
+  ): Promise<Record<string, string>> {
+    const root = await this.findTemplateRoot(templateId);
+    if (!root) {
+      return {};
+    }
+
+    const storedVersion = version !== undefined && !(await this.isCurrentVersion(templateId, version))
+      ? version
+      : undefined;
+    const featureDir = path.join(this.buildTemplatePath(templateId, root, storedVersion), FEATURES_DIR, featureName);
+
+    const stat = await fs.stat(featureDir).catch(() => null);
+    if (!stat?.isDirectory()) {
+      const metadata = await this.loadTemplate(templateId, version);
+      if (!metadata?.extends) {
+        return {};
+      }
+      const parent = await this.resolveParent(metadata.extends);
+      return this.getFeatureCode(parent.templateId, featureName, parent.version);
+    }
+
+    const code: Record<string, string> = {};
+    for (const filePath of await this.readDirRecursive(featureDir)) {
+      code[path.relative(featureDir, filePath)] = await fs.readFile(filePath, 'utf-8');
+    }
+
+    return code;
+  }
+
+  /**
+   * Resolve each declared template file to its source content
+   * @param templateId - Template ID
+   * @param variables - Variable values (declared defaults fill the rest)
+   * @param version - Exact version (defaults to the current version)
+   * @returns Resolved files or null if not found
+   */
+  public async resolveTemplateFiles(
+    templateId: string,
+    variables: TemplateVariableValues = {},
+    version?: string
+  ): Promise<ResolvedTemplateFiles | null> {
+    const template = await this.getTemplateWithCode(templateId, variables, version);
+    return template && this.mapFilesToCode(template.files, template.code);
+  }
+
+  /**
+   * Resolve each file a feature module declares to its source content
+   * @param templateId - Template ID
+   * @param featureName - Feature name (e.g., "role-based-access")
+   * @param variables - Variable values (declared defaults fill the rest)
+   * @param version - Exact version (defaults to the current version)
+   * @returns Resolved files, or null if the template doesn't exist or doesn't declare the feature
+   * @throws TemplateVariableError if variables are unknown, missing or invalid
+   */
+  public async resolveFeatureFiles(
+    templateId: string,
+    featureName: string,
+    variables: TemplateVariableValues = {},
+    version?: string
+  ): Promise<ResolvedTemplateFiles | null> {
+    const feature = await this.getFeatureWithCode(templateId, featureName, variables, version);
+    return feature && this.mapFilesToCode(feature.files ?? [], feature.code);
+  }
+
+  /**
+   * Pair declared files with their source content
+   * @param files - Declared files (sources relative to the code keys)
+   * @param code - Map of source paths to content
+   */
+  private mapFilesToCode(files: TemplateFile[], code: Record<string, string>): ResolvedTemplateFiles {
+    const result: ResolvedTemplateFiles = {
+      files: [],
+      unmappedSources: [],
+      missingFiles: [],
+    };
+    const mappedSources = new Set<string>();
+
+    for (const file of files) {
+      const source = file.source ? path.normalize(file.source) : undefined;
+      if (!source || !(source in code)) {
+        result.missingFiles.push(file.path);
+        continue;
+      }
+
+      mappedSources.add(source);
+      result.files.push({
+        source,
+        path: file.path,
+        description: file.description,
+        isRequired: file.isRequired,
+        content: code[source],
+      });
+    }
+
+    result.unmappedSources = Object.keys(code).filter((source) => !mappedSources.has(source));
+
+    return result;
+  }
+
+  /**
+   * Get template code keyed by each file's destination path
+   * @param templateId - Template ID
+   * @param variables - Variable values (declared defaults fill the rest)
+   * @param version - Exact version (defaults to the current version)
+   * @returns Map of destination paths to their content
+   * @throws TemplateNotFoundError if the template does not exist
+   */
+  public async getTemplateCodeByDestination(
+    templateId: string,
+    variables: TemplateVariableValues = {},
+    version?: string
+  ): Promise<Record<string, string>> {
+    const resolved = await this.resolveTemplateFiles(templateId, variables, version);
+    if (!resolved) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    const code: Record<string, string> = {};
+    for (const file of resolved.files) {
+      code[file.path] = file.content;
+    }
+
+    return code;
+  }
+
+  /**
+   * List the versions of a template that can be retrieved
+   * @param templateId - Template ID
+   * @returns Versions newest first (empty if the template does not exist)
+   */
+  public async listVersions(templateId: string): Promise<string[]> {
+    const root = await this.findTemplateRoot(templateId);
+    const current = await this.loadTemplate(templateId);
+    if (!root || !current) {
+      return [];
+    }
+
+    const versions = new Set([current.version]);
+    const versionsDir = path.join(this.buildTemplatePath(templateId, root), VERSIONS_DIR);
+    for (const entry of await this.readDirSafe(versionsDir)) {
+      const metadataPath = path.join(versionsDir, entry, 'metadata.json');
+      if (semver.valid(entry) === entry && (await fs.stat(metadataPath).catch(() => null))) {
+        versions.add(entry);
+      }
+    }
+
+    return semver.rsort(Array.from(versions));
+  }
+
+  /**
+   * Resolve a requested version or semver range to the newest matching version
+   * @param templateId - Template ID
+   * @param requested - Exact version or range (e.g., "1.x", "^1.2.0"); defaults to the current version
+   * @returns Exact version
+   * @throws TemplateNotFoundError if the template does not exist
+   * @throws TemplateVersionRemovedError if only removed versions match
+   * @throws TemplateVersionNotFoundError if no version matches
+   */
+  public async resolveVersion(templateId: string, requested?: string): Promise<string> {
+    const current = await this.loadTemplate(templateId);
+    if (!current) {
+      throw new TemplateNotFoundError(templateId);
+    }
+    if (requested === undefined || requested === 'latest') {
+      return current.version;
+    }
+    if (semver.validRange(requested) === null) {
+      throw new InvalidTemplateError(templateId, `Invalid version or range: ${requested}`);
+    }
+
+    const versions = await this.listVersions(templateId);
+    const match = semver.maxSatisfying(versions, requested);
+    if (match) {
+      return match;
+    }
+
+    const removed = (current.removedVersions ?? [])
+      .filter((r) => semver.satisfies(r.version, requested))
+      .sort((a, b) => semver.rcompare(a.version, b.version))[0];
+    if (removed) {
+      throw new TemplateVersionRemovedError(templateId, removed, versions);
+    }
+    throw new TemplateVersionNotFoundError(templateId, requested, versions);
+  }
+
+  /**
+   * Get the changelog of a template version
+   * @param templateId - Template ID
+   * @param version - Exact version (defaults to the current version)
+   * @returns CHANGELOG.md contents, or null if the version has none
+   */
+  public async getChangelog(templateId: string, version?: string): Promise<string | null> {
+    const root = await this.findTemplateRoot(templateId);
+    if (!root) {
+      return null;
+    }
+
+    const storedVersion = version !== undefined && !(await this.isCurrentVersion(templateId, version))
+      ? version
+      : undefined;
+    const changelogPath = path.join(this.buildTemplatePath(templateId, root, storedVersion), CHANGELOG_FILE);
+    return fs.readFile(changelogPath, 'utf-8').catch(() => null);
+  }
+
+  /**
+   * Get the README of a template version
+   * An earlier version without its own README under versions/ uses the current one,
+   * and a template that extends another without its own README uses the parent's.
+   * @param templateId - Template ID
+   * @param version - Exact version (defaults to the current version)
+   * @returns README.md contents, or null if there is none
+   */
+  public async getReadme(templateId: string, version?: string): Promise<string | null> {
+    const root = await this.findTemplateRoot(templateId);
+    if (!root) {
+      return null;
+    }
+
+    const storedVersion = version !== undefined && !(await this.isCurrentVersion(templateId, version))
+      ? version
+      : undefined;
+    const templatePaths = storedVersion === undefined
+      ? [this.buildTemplatePath(templateId, root)]
+      : [this.buildTemplatePath(templateId, root, storedVersion), this.buildTemplatePath(templateId, root)];
+    for (const templatePath of templatePaths) {
+      const readme = await fs.readFile(path.join(templatePath, README_FILE), 'utf-8').catch(() => null);
+      if (readme !== null) {
+        return readme;
+      }
+    }
+
+    const metadata = await this.loadTemplate(templateId, version);
+    if (!metadata?.extends) {
+      return null;
+    }
+    const parent = await this.resolveParent(metadata.extends);
+    return this.getReadme(parent.templateId, parent.version);
+  }
+
+  /**
+   * Check whether a version is the one stored at the top of the template directory
+   */
+  private async isCurrentVersion(templateId: string, version: string): Promise<boolean> {
+    const current = await this.loadTemplate(templateId);
+    return current?.version === version;
+  }
+
   /**
    * List all templates with optional filtering
    * @param filters - Optional filters
@@ -211,15 +822,19 @@ export class TemplateService {
     const templates: TemplateMetadata[] = [];
 
     for (const id of allTemplateIds) {
-      const metadata = await this.loadTemplate(id);
-      if (!metadata) continue;
+      const metadata = await this.loadTemplate(id).catch((error: unknown) => {
+        // A broken inheritance chain hides that template, not the whole listing
+        if (error instanceof InvalidTemplateError) {
+          logger.warn('Skipping invalid template', { templateId: id, reason: error.message });
+          return null;
+        }
+        throw error;
+      });
+      // Abstract templates are only reachable through templates extending them
+      if (!metadata || metadata.abstract) continue;
 
       // Apply filters
-      if (filters) {
-        if (filters.category && metadata.category !== filters.category) continue;
-        if (filters.language && metadata.language !== filters.language) continue;
-        if (filters.framework && metadata.framework !== filters.framework) continue;
-      }
+      if (!matchesTemplateFilters(metadata, filters)) continue;
 
       templates.push(metadata);
     }
@@ -234,31 +849,68 @@ export class TemplateService {
    */
   public async listTemplateItems(filters?: TemplateFilters): Promise<TemplateListItem[]> {
     const templates = await this.listTemplates(filters);
+    const items: TemplateListItem[] = [];
 
-    return templates.map((t) => ({
-      id: t.id,
-      name: t.name,
-      description: t.description,
-      category: t.category,
-      language: t.language,
-      framework: t.framework,
-      tags: t.tags,
-    }));
+    for (const t of templates) {
+      items.push({
+        id: t.id,
+        name: t.name,
+        description: t.description,
+        category: t.category,
+        language: t.language,
+        framework: t.framework,
+        tags: t.tags,
+        root: t.root,
+        versions: await this.listVersions(t.id),
+      });
+    }
+
+    return items;
   }
 
   /**
-   * Get all template IDs by scanning the templates directory
-   * @returns Array of template IDs
+   * Get all template IDs by scanning every template root
+   * @returns Array of template IDs (each ID once, even if several roots contain it)
    */
   public async getAllTemplateIds(): Promise<string[]> {
+    const locations = await this.getTemplateLocations();
+    return locations.map((location) => location.id);
+  }
+
+  /**
+   * Resolve every template ID to the root it is served from
+   * @returns One location per template ID, in root precedence order
+   */
+  public async getTemplateLocations(): Promise<TemplateLocation[]> {
+    const locations = new Map<string, TemplateLocation>();
+
+    for (const root of this.roots) {
+      for (const id of await this.scanRoot(root)) {
+        const existing = locations.get(id);
+        if (existing) {
+          existing.shadows.push(root.name);
+        } else {
+          locations.set(id, { id, root: root.name, shadows: [] });
+          this.templateRoots.set(id, root);
+        }
+      }
+    }
+
+    return Array.from(locations.values());
+  }
+
+  /**
+   * Scan a template root for template IDs
+   */
+  private async scanRoot(root: TemplateRoot): Promise<string[]> {
     const ids: string[] = [];
 
     try {
       // Scan for languages
-      const languages = await this.readDirSafe(this.templatesDir);
+      const languages = await this.readDirSafe(root.path);
 
       for (const language of languages) {
-        const languagePath = path.join(this.templatesDir, language);
+        const languagePath = path.join(root.path, language);
         const languageStat = await fs.stat(languagePath);
         if (!languageStat.isDirectory()) continue;
 
@@ -298,17 +950,52 @@ export class TemplateService {
         }
       }
     } catch (error) {
-      logger.error('Error scanning templates directory', { error });
+      logger.error('Error scanning templates directory', { root: root.name, error });
     }
 
     return ids;
   }
 
+  /**
+   * Drop cached metadata and root lookups for changed templates
+   * Cached templates extending a changed template are dropped too, since their resolved metadata includes it.
+   * @param templateIds - IDs of templates that were added, edited or deleted
+   * @returns The changed IDs plus the IDs of cached templates extending them
+   */
+  public invalidate(templateIds: string[]): string[] {
+    const affected = new Set(templateIds);
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const metadata of this.templateCache.values()) {
+        const parentId = metadata.extends && parseParentReference(metadata.extends).templateId;
+        if (parentId && affected.has(parentId) && !affected.has(metadata.id)) {
+          affected.add(metadata.id);
+          grew = true;
+        }
+      }
+    }
+
+    // Cache keys are template IDs, or "id@version" for earlier versions
+    for (const key of this.templateCache.keys()) {
+      if (affected.has(key.split('@')[0])) {
+        this.templateCache.delete(key);
+      }
+    }
+    for (const id of affected) {
+      this.templateRoots.delete(id);
+    }
+
+    return Array.from(affected);
+  }
+
   /**
    * Clear the template cache
    */
   public clearCache(): void {
     this.templateCache.clear();
+    this.templateRoots.clear();
   }
 
   /**
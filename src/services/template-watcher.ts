@@ -0,0 +1,169 @@
+/**
+ * Watch template roots and reload changed templates
+ * @module services/template-watcher
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { logger } from '../utils/logger.js';
+import type { SearchService } from './search-service.js';
+import type { TemplateService } from './template-service.js';
+
+/**
+ * Quiet period after the last file event before reloading, so a burst of saves reloads once
+ */
+const DEFAULT_DEBOUNCE_MS = 300;
+
+/**
+ * Path segments in a template ID (language/framework/category/name)
+ */
+const TEMPLATE_ID_SEGMENTS = 4;
+
+/**
+ * Called with the IDs of templates that were added, edited or deleted
+ */
+export type TemplateChangeListener = (templateIds: string[]) => void;
+
+/**
+ * Watches every template root and, after changes settle, invalidates the template cache,
+ * re-indexes search and tells listeners which templates changed
+ */
+export class TemplateWatcher {
+  private templateService: TemplateService;
+  private searchService: SearchService;
+  private debounceMs: number;
+  private watchers: fs.FSWatcher[] = [];
+  private listeners = new Set<TemplateChangeListener>();
+  /** Changed paths relative to their root, '/'-separated */
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+  /** Reloads run one at a time */
+  private reloading: Promise<void> = Promise.resolve();
+  /** Template IDs found by the last scan, to notice added and deleted templates */
+  private knownIds = new Set<string>();
+
+  /**
+   * Create a new TemplateWatcher instance
+   * @param templateService - Template service whose roots are watched
+   * @param searchService - Search service to re-index
+   * @param debounceMs - Quiet period before reloading (default 300ms)
+   */
+  constructor(templateService: TemplateService, searchService: SearchService, debounceMs = DEFAULT_DEBOUNCE_MS) {
+    this.templateService = templateService;
+    this.searchService = searchService;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Start watching every template root (roots that can't be watched are logged and skipped)
+   */
+  public async start(): Promise<void> {
+    this.knownIds = new Set(await this.templateService.getAllTemplateIds());
+
+    for (const root of this.templateService.getRoots()) {
+      try {
+        const watcher = fs.watch(root.path, { recursive: true }, (_event, filename) => {
+          if (filename) {
+            this.queue(filename.toString().split(path.sep).join('/'));
+          }
+        });
+        watcher.on('error', (error) => logger.warn('Template watcher error', { root: root.name, error }));
+        // Don't keep the process alive just to watch (recursive watchers on Linux ignore this; call close())
+        watcher.unref();
+        this.watchers.push(watcher);
+      } catch (error) {
+        logger.warn('Cannot watch template root', { root: root.name, path: root.path, error });
+      }
+    }
+
+    logger.info('Watching template roots for changes', { roots: this.watchers.length });
+  }
+
+  /**
+   * Stop watching
+   */
+  public close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    clearTimeout(this.timer);
+    this.pending.clear();
+  }
+
+  /**
+   * Register a listener for template changes
+   * @param listener - Called after the cache and search index are up to date
+   * @returns Function removing the listener
+   */
+  public subscribe(listener: TemplateChangeListener): () => void {
+    this.listeners.add(listener);
+    return (): void => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a changed path and restart the quiet period
+   */
+  private queue(relativePath: string): void {
+    this.pending.add(relativePath);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const paths = Array.from(this.pending);
+      this.pending.clear();
+      this.reloading = this.reloading.then(() => this.reload(paths));
+    }, this.debounceMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Reload the templates touched by changed paths and notify listeners
+   * A path inside a template names that template; a shorter path (e.g., a renamed framework
+   * directory) covers every template under it. Paths outside any template are ignored.
+   */
+  private async reload(paths: string[]): Promise<void> {
+    try {
+      const currentIds = new Set(await this.templateService.getAllTemplateIds());
+      const candidates = new Set([...this.knownIds, ...currentIds]);
+      const changed = new Set<string>();
+
+      for (const relativePath of paths) {
+        const segments = relativePath.split('/');
+        if (segments.length >= TEMPLATE_ID_SEGMENTS) {
+          const id = segments.slice(0, TEMPLATE_ID_SEGMENTS).join('/');
+          if (candidates.has(id)) changed.add(id);
+          continue;
+        }
+        for (const id of candidates) {
+          if (id.startsWith(`${relativePath}/`)) changed.add(id);
+        }
+      }
+
+      // Added and deleted templates, whichever paths reported them
+      for (const id of currentIds) {
+        if (!this.knownIds.has(id)) changed.add(id);
+      }
+      for (const id of this.knownIds) {
+        if (!currentIds.has(id)) changed.add(id);
+      }
+      this.knownIds = currentIds;
+
+      if (changed.size === 0) {
+        return;
+      }
+
+      const templateIds = this.templateService.invalidate(Array.from(changed));
+      await this.searchService.refreshTemplates(templateIds);
+      logger.info('Reloaded changed templates', { templates: templateIds });
+
+      for (const listener of this.listeners) {
+        listener(templateIds);
+      }
+    } catch (error) {
+      logger.error('Failed to reload changed templates', { error });
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * MCP Tool: apply_template
+ * Write template files into a target project
+ * @module tools/apply-template
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import { TemplateNotFoundError } from '../services/template-service.js';
+import { logger } from '../utils/logger.js';
+import { variableValuesSchema } from '../utils/template-variables.js';
+
+/**
+ * Input schema for the apply_template tool
+ */
+export const applyTemplateSchema = z.object({
+  templateId: z.string().describe('Template ID (e.g., "typescript/nextjs/auth/nextauth-google")'),
+  projectRoot: z.string().describe('Absolute path to the root of the target project'),
+  dryRun: z.boolean().default(false).describe('Report the planned changes without writing any files'),
+  overwrite: z.boolean().default(false).describe('Overwrite existing files whose content differs from the template'),
+  includeOptional: z.boolean().default(true).describe('Also write files the template marks as optional'),
+  variables: variableValuesSchema.optional().describe('Values for the template\'s declared variables'),
+});
+
+export type ApplyTemplateInput = z.infer<typeof applyTemplateSchema>;
+
+/**
+ * A file that was not written, with the reason why
+ */
+export interface ApplyTemplateFileNote {
+  /** Destination path relative to the project root */
+  path: string;
+  /** Why the file was skipped or conflicts */
+  reason: string;
+}
+
+/**
+ * Structured report of an apply_template run
+ */
+export interface ApplyTemplateResponse {
+  templateId: string;
+  projectRoot: string;
+  dryRun: boolean;
+  /** Files that did not exist and were (or would be) created */
+  created: string[];
+  /** Existing files that were (or would be) replaced */
+  overwritten: string[];
+  /** Files left untouched because nothing needed to change */
+  skipped: ApplyTemplateFileNote[];
+  /** Existing files that differ from the template and were left untouched */
+  conflicts: ApplyTemplateFileNote[];
+  /** Template source files without a declared destination */
+  unmappedSources: string[];
+  /** Declared files without a source file in the template */
+  missingFiles: string[];
+}
+
+/**
+ * Check that a path lies below a directory
+ */
+function isInside(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  return Boolean(relative) && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve a destination path inside the project root
+ * Symlinks along the existing part of the path are followed, so a linked directory or file
+ * can't redirect the write outside the project.
+ * @param projectRoot - Project root as given
+ * @param realRoot - Project root with symlinks resolved
+ * @param filePath - Destination path relative to the project root
+ * @throws Error if the path escapes the project root
+ */
+async function resolveDestination(projectRoot: string, realRoot: string, filePath: string): Promise<string> {
+  const destination = path.resolve(projectRoot, filePath);
+  const refuse = new Error(`Refusing to write outside the project root: ${filePath}`);
+  if (!isInside(projectRoot, destination)) {
+    throw refuse;
+  }
+
+  // Resolve the nearest existing ancestor; the segments below it don't exist yet
+  let existing = destination;
+  const missing: string[] = [];
+  let real = await fs.realpath(existing).catch(() => null);
+  while (!real) {
+    // A dangling symlink would be followed by the write
+    if (await fs.lstat(existing).catch(() => null)) {
+      throw refuse;
+    }
+
+    missing.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+    real = await fs.realpath(existing).catch(() => null);
+  }
+
+  if (!isInside(realRoot, path.join(real, ...missing))) {
+    throw refuse;
+  }
+
+  return destination;
+}
+
+/**
+ * Handle the apply_template tool call
+ * @param input - Tool input
+ * @param templateService - Template service instance
+ * @returns Report of created, skipped and conflicting files
+ */
+export async function handleApplyTemplate(
+  input: ApplyTemplateInput,
+  templateService: TemplateService
+): Promise<ApplyTemplateResponse> {
+  if (!path.isAbsolute(input.projectRoot)) {
+    throw new Error(`projectRoot must be an absolute path: ${input.projectRoot}`);
+  }
+
+  const projectRoot = path.resolve(input.projectRoot);
+  const rootStat = await fs.stat(projectRoot).catch(() => null);
+  if (!rootStat || !rootStat.isDirectory()) {
+    throw new Error(`Project root is not a directory: ${projectRoot}`);
+  }
+  const realRoot = await fs.realpath(projectRoot);
+
+  const resolved = await templateService.resolveTemplateFiles(input.templateId, input.variables);
+  if (!resolved) {
+    throw new TemplateNotFoundError(input.templateId);
+  }
+
+  const response: ApplyTemplateResponse = {
+    templateId: input.templateId,
+    projectRoot,
+    dryRun: input.dryRun,
+    created: [],
+    overwritten: [],
+    skipped: [],
+    conflicts: [],
+    unmappedSources: resolved.unmappedSources,
+    missingFiles: resolved.missingFiles,
+  };
+
+  // Plan every file before touching disk so a bad path aborts the whole run
+  const writes: Array<{ destination: string; content: string }> = [];
+
+  for (const file of resolved.files) {
+    const destination = await resolveDestination(projectRoot, realRoot, file.path);
+
+    if (!file.isRequired && !input.includeOptional) {
+      response.skipped.push({ path: file.path, reason: 'optional file excluded' });
+      continue;
+    }
+
+    const existing = await fs.stat(destination).catch(() => null);
+
+    if (!existing) {
+      response.created.push(file.path);
+      writes.push({ destination, content: file.content });
+      continue;
+    }
+
+    if (!existing.isFile()) {
+      response.conflicts.push({ path: file.path, reason: 'destination exists and is not a file' });
+      continue;
+    }
+
+    const current = await fs.readFile(destination, 'utf-8');
+    if (current === file.content) {
+      response.skipped.push({ path: file.path, reason: 'already up to date' });
+    } else if (input.overwrite) {
+      response.overwritten.push(file.path);
+      writes.push({ destination, content: file.content });
+    } else {
+      response.conflicts.push({ path: file.path, reason: 'existing file differs from template' });
+    }
+  }
+
+  if (!input.dryRun) {
+    for (const { destination, content } of writes) {
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.writeFile(destination, content, 'utf-8');
+    }
+
+    logger.info('Applied template', {
+      templateId: input.templateId,
+      projectRoot,
+      written: writes.length,
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Tool description for AI agents
+ */
+export const APPLY_TEMPLATE_DESCRIPTION = `Write a template's files into a project at their declared destination paths.
+
+Use dryRun first to review the plan; nothing is written in dry-run mode.
+
+Existing files are never changed unless overwrite is true. The response reports:
+- created: new files
+- overwritten: replaced files (only with overwrite)
+- skipped: files already up to date or excluded optional files
+- conflicts: existing files that differ from the template
+- unmappedSources / missingFiles: template files that could not be placed`;
@@ -0,0 +1,191 @@
+/**
+ * MCP Tool: check_dependencies
+ * Check template dependencies against a project's package.json
+ * @module tools/check-dependencies
+ */
+
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import { TemplateNotFoundError } from '../services/template-service.js';
+import type { DependencySection } from '../utils/project-detection.js';
+import { DEPENDENCY_SECTIONS, parsePackageJson } from '../utils/project-detection.js';
+import { compareRanges, intersectRanges, isSemverRange, suggestRange } from '../utils/version-ranges.js';
+
+/**
+ * Input schema for the check_dependencies tool
+ */
+export const checkDependenciesSchema = z.object({
+  templateIds: z.array(z.string()).min(1).describe('Template IDs to check (e.g., ["typescript/nextjs/payment/stripe-checkout"])'),
+  packageJson: z.string().describe('Contents of the project\'s package.json'),
+});
+
+export type CheckDependenciesInput = z.infer<typeof checkDependenciesSchema>;
+
+/**
+ * Status of a single template dependency
+ */
+export type DependencyStatus = 'compatible' | 'upgrade' | 'conflict' | 'missing' | 'unknown';
+
+/**
+ * Check result for a single template dependency
+ */
+export interface DependencyCheck {
+  name: string;
+  /** Section the templates declare it in */
+  type: DependencySection;
+  /** Range every requesting template can accept (null if they disagree or none gives a semver range) */
+  required: string | null;
+  /** Range each template asks for */
+  requiredBy: Record<string, string>;
+  /** Range the project currently declares */
+  installed?: string;
+  status: DependencyStatus;
+  /** Range to put in package.json */
+  suggested?: string;
+  reason: string;
+}
+
+/**
+ * Response of the check_dependencies tool
+ */
+export interface CheckDependenciesResponse {
+  templateIds: string[];
+  results: DependencyCheck[];
+  summary: Record<DependencyStatus, number>;
+  /** Suggested package.json entries covering every template dependency */
+  resolved: {
+    dependencies: Record<string, string>;
+    devDependencies: Record<string, string>;
+  };
+}
+
+/**
+ * Handle the check_dependencies tool call
+ * @param input - Tool input
+ * @param templateService - Template service instance
+ * @returns Per-dependency status and a suggested version set
+ */
+export async function handleCheckDependencies(
+  input: CheckDependenciesInput,
+  templateService: TemplateService
+): Promise<CheckDependenciesResponse> {
+  const templateIds = Array.from(new Set(input.templateIds));
+  const project = parsePackageJson(input.packageJson);
+
+  // Gather what every template asks for, keyed by package name
+  const requested = new Map<string, { type: DependencySection; ranges: Record<string, string> }>();
+
+  for (const templateId of templateIds) {
+    const metadata = await templateService.loadTemplate(templateId);
+    if (!metadata) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    for (const type of DEPENDENCY_SECTIONS) {
+      for (const [name, range] of Object.entries(metadata[type] ?? {})) {
+        const entry = requested.get(name) ?? { type, ranges: {} };
+        // A runtime requirement outranks a dev-only one
+        if (entry.type === 'devDependencies') {
+          entry.type = type;
+        }
+        entry.ranges[templateId] = range;
+        requested.set(name, entry);
+      }
+    }
+  }
+
+  const response: CheckDependenciesResponse = {
+    templateIds,
+    results: [],
+    summary: { compatible: 0, upgrade: 0, conflict: 0, missing: 0, unknown: 0 },
+    resolved: { dependencies: {}, devDependencies: {} },
+  };
+
+  for (const [name, { type, ranges }] of requested) {
+    // Tags, workspace: and git specs can't be intersected; report them instead of calling them conflicts
+    const unrecognized = Object.entries(ranges).filter(([, range]) => !isSemverRange(range));
+    const recognized = Object.values(ranges).filter(isSemverRange);
+    const required = recognized.length > 0 ? intersectRanges(recognized) : null;
+    const installedType = DEPENDENCY_SECTIONS.find((t) => project[t]?.[name] !== undefined);
+    const installed = installedType ? project[installedType]?.[name] : undefined;
+
+    let check: DependencyCheck;
+
+    if (recognized.length > 0 && !required) {
+      const described = Object.entries(ranges)
+        .filter(([, range]) => isSemverRange(range))
+        .map(([id, range]) => `${id} needs ${range}`)
+        .join('; ');
+      check = {
+        name,
+        type,
+        required,
+        requiredBy: ranges,
+        installed,
+        status: 'conflict',
+        reason: `Templates require incompatible versions: ${described}`,
+      };
+    } else if (unrecognized.length > 0 || !required) {
+      const described = unrecognized.map(([id, range]) => `${id} needs "${range}"`).join('; ');
+      check = {
+        name,
+        type,
+        required,
+        requiredBy: ranges,
+        installed,
+        status: 'unknown',
+        reason: `Unrecognized range: ${described}`,
+      };
+    } else if (!installed) {
+      check = {
+        name,
+        type,
+        required,
+        requiredBy: ranges,
+        status: 'missing',
+        suggested: suggestRange(required),
+        reason: `Not in package.json; add ${suggestRange(required)}`,
+      };
+    } else {
+      const comparison = compareRanges(installed, required);
+      check = {
+        name,
+        type,
+        required,
+        requiredBy: ranges,
+        installed,
+        status: comparison.status,
+        suggested: comparison.suggested,
+        reason: comparison.reason,
+      };
+    }
+
+    response.results.push(check);
+    response.summary[check.status]++;
+
+    if (check.suggested) {
+      // Keep packages in the section the project already uses
+      const section = (installedType ?? type) === 'devDependencies' ? 'devDependencies' : 'dependencies';
+      response.resolved[section][name] = check.suggested;
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Tool description for AI agents
+ */
+export const CHECK_DEPENDENCIES_DESCRIPTION = `Check one or more templates' dependencies against the project's package.json before installing them.
+
+Pass the full contents of package.json. Works offline (no registry lookups).
+
+Each dependency is reported as:
+- compatible: the installed range already satisfies the template
+- upgrade: the installed range must be raised or narrowed (suggested range included)
+- conflict: the project is newer than the template supports, or the templates' semver ranges disagree
+- missing: not installed yet
+- unknown: the project or a template uses a spec that is not a semver range (workspace:, git URLs, tags); template specs are reported as "Unrecognized range" and never count as conflicts
+
+"resolved" lists the suggested dependencies/devDependencies entries.`;
@@ -0,0 +1,263 @@
+/**
+ * MCP Tool: check_drift
+ * Compare a project's files with the template they were installed from
+ * @module tools/check-drift
+ */
+
+import path from 'node:path';
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import { TemplateNotFoundError } from '../services/template-service.js';
+import type { ResolvedTemplateFile, TemplateSafeguard } from '../types/index.js';
+import { createUnifiedDiff, lineSimilarity } from '../utils/unified-diff.js';
+import { isInNamespaces } from '../utils/namespaces.js';
+import { variableValuesSchema } from '../utils/template-variables.js';
+
+/**
+ * Below this similarity a file counts as diverged rather than modified
+ */
+const DIVERGED_SIMILARITY = 0.5;
+
+/**
+ * Least similarity for matching a file by content when its path matches no template file
+ */
+const MIN_CONTENT_MATCH = 0.3;
+
+/**
+ * Input schema for the check_drift tool
+ */
+export const checkDriftSchema = z.object({
+  templateId: z.string().describe('Template the files were installed from (e.g., "typescript/nextjs/payment/stripe-checkout")'),
+  files: z
+    .array(
+      z.object({
+        path: z.string().describe('File path relative to the project root (e.g., "src/lib/stripe.ts")'),
+        content: z.string().describe('Current file contents'),
+      })
+    )
+    .min(1)
+    .describe('Project files to compare with the template'),
+  variables: variableValuesSchema.optional().describe('Values for the template\'s declared variables, as used when the template was applied'),
+  version: z.string().optional().describe('Template version the files came from (exact or semver range; defaults to the latest)'),
+});
+
+export type CheckDriftInput = z.infer<typeof checkDriftSchema>;
+
+/**
+ * How far a project file has moved from its template file
+ */
+export type DriftStatus = 'identical' | 'modified' | 'diverged' | 'unmatched';
+
+/**
+ * Drift report for one project file
+ */
+export interface FileDrift {
+  /** Project path */
+  path: string;
+  /** Template destination it was matched to */
+  templatePath?: string;
+  status: DriftStatus;
+  /** Share of lines the file has in common with the template (0-1, ignoring indentation) */
+  similarity: number;
+  /** Template safeguards no longer present in the file */
+  missingSafeguards: Array<Pick<TemplateSafeguard, 'name' | 'description'>>;
+  /** Unified diff turning the project file back into the template file */
+  patch?: string;
+}
+
+/**
+ * Response of the check_drift tool
+ */
+export interface CheckDriftResponse {
+  templateId: string;
+  version: string;
+  files: FileDrift[];
+  /** Template files no project file was matched to */
+  uncheckedTemplateFiles: string[];
+  summary: Record<DriftStatus, number> & { missingSafeguards: number };
+}
+
+/**
+ * Count how many trailing path segments two paths share
+ */
+function sharedSuffix(a: string, b: string): number {
+  const aParts = a.split('/').reverse();
+  const bParts = b.split('/').reverse();
+  let count = 0;
+  while (count < aParts.length && count < bParts.length && aParts[count] === bParts[count]) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Similarity ignoring indentation and trailing whitespace, so reformatted files still match
+ */
+function normalizedSimilarity(a: string, b: string): number {
+  const normalize = (text: string): string => text.split(/\r?\n/).map((line) => line.trim()).join('\n');
+  return lineSimilarity(normalize(a), normalize(b));
+}
+
+/**
+ * Find the template file a project file was installed from
+ * Exact destination first, then the longest shared path suffix, then the most similar content.
+ */
+function matchTemplateFile(
+  filePath: string,
+  content: string,
+  candidates: ResolvedTemplateFile[]
+): ResolvedTemplateFile | undefined {
+  const exact = candidates.find((file) => file.path === filePath);
+  if (exact) {
+    return exact;
+  }
+
+  let best: { file: ResolvedTemplateFile; suffix: number; similarity: number } | undefined;
+  for (const file of candidates) {
+    const suffix = sharedSuffix(filePath, file.path);
+    const similarity = normalizedSimilarity(content, file.content);
+    if (suffix === 0 && similarity < MIN_CONTENT_MATCH) continue;
+
+    if (!best || suffix > best.suffix || (suffix === best.suffix && similarity > best.similarity)) {
+      best = { file, suffix, similarity };
+    }
+  }
+
+  return best?.file;
+}
+
+/**
+ * Handle the check_drift tool call
+ * @param input - Tool input
+ * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Per-file similarity, missing safeguards and patches
+ */
+export async function handleCheckDrift(
+  input: CheckDriftInput,
+  templateService: TemplateService,
+  namespaces?: string[]
+): Promise<CheckDriftResponse> {
+  if (!isInNamespaces(input.templateId, namespaces)) {
+    throw new TemplateNotFoundError(input.templateId);
+  }
+
+  const version = await templateService.resolveVersion(input.templateId, input.version);
+  const metadata = await templateService.loadTemplate(input.templateId, version);
+  const resolved = await templateService.resolveTemplateFiles(input.templateId, input.variables, version);
+  if (!metadata || !resolved) {
+    throw new TemplateNotFoundError(input.templateId);
+  }
+
+  const unmatched = [...resolved.files];
+  const files: FileDrift[] = [];
+
+  for (const file of input.files) {
+    const filePath = path.posix.normalize(file.path.replace(/\\/g, '/')).replace(/^\.\//, '');
+    const match = matchTemplateFile(filePath, file.content, unmatched);
+
+    if (!match) {
+      files.push({ path: filePath, status: 'unmatched', similarity: 0, missingSafeguards: [] });
+      continue;
+    }
+    unmatched.splice(unmatched.indexOf(match), 1);
+
+    const similarity = normalizedSimilarity(file.content, match.content);
+    const missingSafeguards = (metadata.safeguards ?? [])
+      .filter((s) => path.normalize(s.source) === match.source && !new RegExp(s.pattern, 'm').test(file.content))
+      .map((s) => ({ name: s.name, description: s.description }));
+
+    const identical = file.content === match.content;
+    files.push({
+      path: filePath,
+      templatePath: match.path,
+      status: identical ? 'identical' : similarity < DIVERGED_SIMILARITY ? 'diverged' : 'modified',
+      similarity: Math.round(similarity * 100) / 100,
+      missingSafeguards,
+      patch: identical ? undefined : createUnifiedDiff(filePath, filePath, file.content, match.content),
+    });
+  }
+
+  const summary: CheckDriftResponse['summary'] = {
+    identical: 0,
+    modified: 0,
+    diverged: 0,
+    unmatched: 0,
+    missingSafeguards: 0,
+  };
+  for (const file of files) {
+    summary[file.status]++;
+    summary.missingSafeguards += file.missingSafeguards.length;
+  }
+
+  return {
+    templateId: input.templateId,
+    version,
+    files,
+    uncheckedTemplateFiles: unmatched.map((file) => file.path),
+    summary,
+  };
+}
+
+/**
+ * Format the drift report as a string for the MCP tool response
+ */
+export function formatDriftReport(report: CheckDriftResponse): string {
+  const sections: string[] = [];
+  const { summary } = report;
+
+  sections.push(`# Drift from ${report.templateId}@${report.version}\n`);
+  sections.push(
+    `${summary.identical} identical, ${summary.modified} modified, ${summary.diverged} diverged, ` +
+      `${summary.unmatched} unmatched; ${summary.missingSafeguards} missing safeguard(s)\n`
+  );
+
+  for (const file of report.files) {
+    const target = file.templatePath && file.templatePath !== file.path ? ` → ${file.templatePath}` : '';
+    sections.push(`## ${file.path}${target} (${file.status}, ${Math.round(file.similarity * 100)}% similar)\n`);
+
+    if (file.status === 'unmatched') {
+      sections.push('No template file matches this path or content.\n');
+      continue;
+    }
+
+    if (file.missingSafeguards.length > 0) {
+      sections.push('**Missing safeguards:**');
+      for (const safeguard of file.missingSafeguards) {
+        sections.push(`- \`${safeguard.name}\`: ${safeguard.description}`);
+      }
+      sections.push('');
+    }
+
+    if (file.patch) {
+      sections.push('```diff');
+      sections.push(file.patch.trimEnd());
+      sections.push('```\n');
+    }
+  }
+
+  if (report.uncheckedTemplateFiles.length > 0) {
+    sections.push('## Template files not checked\n');
+    for (const templatePath of report.uncheckedTemplateFiles) {
+      sections.push(`- ${templatePath}`);
+    }
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Tool description for AI agents
+ */
+export const CHECK_DRIFT_DESCRIPTION = `Check how far a project's files have drifted from the template they were installed from.
+
+Pass the template ID and the current contents of the project files that came from it (e.g., src/lib/stripe.ts, src/app/api/checkout/route.ts). Pass the "variables" used when the template was applied, and "version" if the project was built from an older version.
+
+For each file the tool reports:
+- The template file it matched (by path, then by content)
+- Similarity to the template (identical, modified, or diverged below 50%)
+- Safeguards from the template that are missing (e.g., webhook signature verification, idempotency checks)
+- A unified diff patch that brings the file back in line with the template
+
+Use it to audit projects that have diverged from the blessed patterns; restore missing safeguards even when other local changes are intentional.`;
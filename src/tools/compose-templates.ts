@@ -0,0 +1,288 @@
+/**
+ * MCP Tool: compose_templates
+ * Combine several templates into one installable bundle
+ * @module tools/compose-templates
+ */
+
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import type { EnvVariable, TemplateVariableValues } from '../types/index.js';
+import { TemplateNotFoundError } from '../services/template-service.js';
+import { variableValuesSchema } from '../utils/template-variables.js';
+import { intersectRanges, isSemverRange } from '../utils/version-ranges.js';
+
+/**
+ * Input schema for the compose_templates tool
+ */
+export const composeTemplatesSchema = z.object({
+  templateIds: z.array(z.string()).min(1).describe('Template IDs to combine, in priority order (earlier templates win file collisions)'),
+  variables: variableValuesSchema.optional().describe('Variable values, passed to every template that declares them'),
+  includeCode: z.boolean().default(true).describe('Include file contents in the bundle'),
+});
+
+export type ComposeTemplatesInput = z.infer<typeof composeTemplatesSchema>;
+
+/**
+ * Environment variable required by one or more composed templates
+ */
+export interface ComposedEnvVariable extends EnvVariable {
+  /** Templates that use this variable */
+  templates: string[];
+}
+
+/**
+ * File in the composed bundle
+ */
+export interface ComposedFile {
+  /** Destination path relative to the project root */
+  path: string;
+  /** Template that provides this file */
+  templateId: string;
+  description: string;
+  isRequired: boolean;
+  content?: string;
+}
+
+/**
+ * Destination path claimed by more than one template
+ */
+export interface FileCollision {
+  path: string;
+  /** Templates claiming the path, in priority order */
+  templates: string[];
+  /** Whether every template ships the same content */
+  identical: boolean;
+}
+
+/**
+ * Package requested with version ranges that cannot all be satisfied
+ */
+export interface DependencyConflict {
+  name: string;
+  /** Version range requested by each template */
+  ranges: Record<string, string>;
+  /** Range kept in the merged map (the first template's) */
+  resolved: string;
+}
+
+/**
+ * Package requested with a spec that is not a semver range (workspace:, git URLs, tags)
+ */
+export interface UnrecognizedRange {
+  name: string;
+  /** Spec requested by each template */
+  ranges: Record<string, string>;
+  /** Spec kept in the merged map (the first template's) */
+  resolved: string;
+}
+
+/**
+ * Composed bundle returned by compose_templates
+ */
+export interface ComposeTemplatesResponse {
+  templateIds: string[];
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  dependencyConflicts: DependencyConflict[];
+  unrecognizedRanges: UnrecognizedRange[];
+  envVariables: ComposedEnvVariable[];
+  installCommand: string;
+  files: ComposedFile[];
+  collisions: FileCollision[];
+}
+
+/**
+ * Record one template's dependency ranges
+ */
+function collectDependencies(
+  requested: Map<string, Record<string, string>>,
+  dependencies: Record<string, string> | undefined,
+  templateId: string
+): void {
+  for (const [name, range] of Object.entries(dependencies ?? {})) {
+    const ranges = requested.get(name) ?? {};
+    ranges[templateId] = range;
+    requested.set(name, ranges);
+  }
+}
+
+/**
+ * Merge requested ranges into one map, narrowing to their intersection
+ * @returns Merged ranges, packages whose semver ranges cannot all be met and packages with non-semver specs
+ */
+function mergeDependencies(
+  requested: Map<string, Record<string, string>>
+): { merged: Record<string, string>; conflicts: DependencyConflict[]; unrecognized: UnrecognizedRange[] } {
+  const merged: Record<string, string> = {};
+  const conflicts: DependencyConflict[] = [];
+  const unrecognized: UnrecognizedRange[] = [];
+
+  for (const [name, ranges] of requested) {
+    const values = Object.values(ranges);
+    if (new Set(values).size === 1) {
+      merged[name] = values[0];
+      continue;
+    }
+
+    // Only semver ranges can conflict; other specs are kept as-is and reported separately
+    const recognized = values.filter(isSemverRange);
+    const intersection = recognized.length > 0 ? intersectRanges(recognized) : null;
+
+    if (recognized.length > 0 && !intersection) {
+      conflicts.push({
+        name,
+        ranges: Object.fromEntries(Object.entries(ranges).filter(([, range]) => isSemverRange(range))),
+        resolved: values[0],
+      });
+    }
+
+    if (recognized.length < values.length) {
+      merged[name] = values[0];
+      unrecognized.push({ name, ranges, resolved: values[0] });
+    } else {
+      merged[name] = intersection ?? values[0];
+    }
+  }
+
+  return { merged, conflicts, unrecognized };
+}
+
+/**
+ * Build a single pnpm install command for the merged dependencies
+ */
+function buildInstallCommand(
+  dependencies: Record<string, string>,
+  devDependencies: Record<string, string>
+): string {
+  const specs = (deps: Record<string, string>): string =>
+    Object.entries(deps)
+      .map(([name, range]) => `${name}@${range}`)
+      .join(' ');
+
+  const commands: string[] = [];
+  if (Object.keys(dependencies).length > 0) {
+    commands.push(`pnpm add ${specs(dependencies)}`);
+  }
+  if (Object.keys(devDependencies).length > 0) {
+    commands.push(`pnpm add -D ${specs(devDependencies)}`);
+  }
+
+  return commands.join(' && ');
+}
+
+/**
+ * Handle the compose_templates tool call
+ * @param input - Tool input
+ * @param templateService - Template service instance
+ * @returns Composed bundle with merged dependencies, env vars and files
+ */
+export async function handleComposeTemplates(
+  input: ComposeTemplatesInput,
+  templateService: TemplateService
+): Promise<ComposeTemplatesResponse> {
+  const templateIds = Array.from(new Set(input.templateIds));
+  const variables = input.variables ?? {};
+  const usedVariables = new Set<string>();
+
+  const requestedDeps = new Map<string, Record<string, string>>();
+  const requestedDevDeps = new Map<string, Record<string, string>>();
+  const envVariables = new Map<string, ComposedEnvVariable>();
+  const files = new Map<string, ComposedFile>();
+  const claims = new Map<string, Array<{ templateId: string; content: string }>>();
+
+  for (const templateId of templateIds) {
+    const metadata = await templateService.loadTemplate(templateId);
+    if (!metadata) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    // Pass each template only the variables it declares
+    const templateVariables: TemplateVariableValues = {};
+    for (const variable of metadata.variables ?? []) {
+      if (variable.name in variables) {
+        templateVariables[variable.name] = variables[variable.name];
+        usedVariables.add(variable.name);
+      }
+    }
+
+    const resolved = await templateService.resolveTemplateFiles(templateId, templateVariables);
+    if (!resolved) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    collectDependencies(requestedDeps, metadata.dependencies, templateId);
+    collectDependencies(requestedDevDeps, metadata.devDependencies, templateId);
+
+    for (const env of metadata.envVariables) {
+      const existing = envVariables.get(env.name);
+      if (existing) {
+        existing.required = existing.required || env.required;
+        existing.templates.push(templateId);
+      } else {
+        envVariables.set(env.name, { ...env, templates: [templateId] });
+      }
+    }
+
+    for (const file of resolved.files) {
+      const fileClaims = claims.get(file.path) ?? [];
+      fileClaims.push({ templateId, content: file.content });
+      claims.set(file.path, fileClaims);
+
+      if (!files.has(file.path)) {
+        files.set(file.path, {
+          path: file.path,
+          templateId,
+          description: file.description,
+          isRequired: file.isRequired,
+          content: input.includeCode ? file.content : undefined,
+        });
+      }
+    }
+  }
+
+  const unknownVariables = Object.keys(variables).filter((name) => !usedVariables.has(name));
+  if (unknownVariables.length > 0) {
+    throw new Error(`No composed template declares variable(s): ${unknownVariables.join(', ')}`);
+  }
+
+  const collisions: FileCollision[] = [];
+  for (const [filePath, fileClaims] of claims) {
+    if (fileClaims.length < 2) continue;
+    collisions.push({
+      path: filePath,
+      templates: fileClaims.map((c) => c.templateId),
+      identical: fileClaims.every((c) => c.content === fileClaims[0].content),
+    });
+  }
+
+  const dependencies = mergeDependencies(requestedDeps);
+  const devDependencies = mergeDependencies(requestedDevDeps);
+
+  return {
+    templateIds,
+    dependencies: dependencies.merged,
+    devDependencies: devDependencies.merged,
+    dependencyConflicts: [...dependencies.conflicts, ...devDependencies.conflicts],
+    unrecognizedRanges: [...dependencies.unrecognized, ...devDependencies.unrecognized],
+    envVariables: Array.from(envVariables.values()),
+    installCommand: buildInstallCommand(dependencies.merged, devDependencies.merged),
+    files: Array.from(files.values()),
+    collisions,
+  };
+}
+
+/**
+ * Tool description for AI agents
+ */
+export const COMPOSE_TEMPLATES_DESCRIPTION = `Combine several templates into one bundle instead of calling get_template for each.
+
+Example: ["typescript/nextjs/payment/stripe-subscription", "typescript/nextjs/auth/nextauth-google", "typescript/nextjs/database/prisma-setup"]
+
+The bundle includes:
+- Merged dependencies and devDependencies, plus one install command
+- De-duplicated environment variables
+- A single file set (earlier templates win when paths collide)
+- collisions: files claimed by several templates
+- dependencyConflicts: packages whose requested semver ranges do not overlap
+- unrecognizedRanges: packages requested with specs that are not semver ranges (workspace:, git URLs, tags) and differ between templates; the first template's spec is kept`;
@@ -0,0 +1,276 @@
+/**
+ * MCP Tool: diff_template
+ * Show what changed between two versions of a template
+ * @module tools/diff-template
+ */
+
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import { TemplateNotFoundError } from '../services/template-service.js';
+import type { EnvVariable, ResolvedTemplateFile, TemplateVariableValues } from '../types/index.js';
+import type { DependencySection } from '../utils/project-detection.js';
+import { DEPENDENCY_SECTIONS } from '../utils/project-detection.js';
+import { createUnifiedDiff } from '../utils/unified-diff.js';
+import { isInNamespaces } from '../utils/namespaces.js';
+import { variableValuesSchema } from '../utils/template-variables.js';
+
+/**
+ * Input schema for the diff_template tool
+ */
+export const diffTemplateSchema = z.object({
+  templateId: z.string().describe('Template ID (e.g., "typescript/nextjs/payment/stripe-checkout")'),
+  fromVersion: z.string().describe('Version the project was built from (exact version or semver range, e.g., "1.x")'),
+  toVersion: z.string().optional().describe('Version to upgrade to (defaults to the latest version)'),
+  variables: variableValuesSchema.optional().describe('Values for the template\'s declared variables, as used when the template was applied'),
+});
+
+export type DiffTemplateInput = z.infer<typeof diffTemplateSchema>;
+
+/**
+ * How a file changed between the two versions
+ */
+export type FileChangeStatus = 'added' | 'removed' | 'modified';
+
+/**
+ * A file that differs between the two versions
+ */
+export interface FileChange {
+  /** Destination path in the project */
+  path: string;
+  status: FileChangeStatus;
+  /** Unified diff from the old to the new content */
+  diff: string;
+}
+
+/**
+ * A dependency whose range changed
+ */
+export interface DependencyChange {
+  name: string;
+  type: DependencySection;
+  /** Range in the old version (absent when added) */
+  from?: string;
+  /** Range in the new version (absent when removed) */
+  to?: string;
+}
+
+/**
+ * Response of the diff_template tool
+ */
+export interface DiffTemplateResponse {
+  templateId: string;
+  fromVersion: string;
+  toVersion: string;
+  files: FileChange[];
+  dependencies: DependencyChange[];
+  envVariables: {
+    added: EnvVariable[];
+    removed: EnvVariable[];
+    /** Variables whose description, example or required flag changed (new definition) */
+    changed: EnvVariable[];
+  };
+  /** Configuration steps from usage.configuration */
+  configuration: {
+    added: string[];
+    removed: string[];
+  };
+  /** CHANGELOG.md of the new version */
+  changelog?: string;
+}
+
+/**
+ * Split usage.configuration into steps, dropping list numbering
+ */
+function configurationSteps(configuration: string): string[] {
+  return configuration
+    .split(/\r?\n|\\n/)
+    .map((step) => step.replace(/^\s*(\d+[.)]|[-*])\s*/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolve a version's files, passing only the variables that version declares
+ */
+async function resolveFiles(
+  templateService: TemplateService,
+  templateId: string,
+  version: string,
+  variables: TemplateVariableValues
+): Promise<Map<string, ResolvedTemplateFile>> {
+  const metadata = await templateService.loadTemplate(templateId, version);
+  const declared = new Set((metadata?.variables ?? []).map((v) => v.name));
+  const values = Object.fromEntries(Object.entries(variables).filter(([name]) => declared.has(name)));
+
+  const resolved = await templateService.resolveTemplateFiles(templateId, values, version);
+  if (!resolved) {
+    throw new TemplateNotFoundError(templateId);
+  }
+  return new Map(resolved.files.map((file) => [file.path, file]));
+}
+
+/**
+ * Handle the diff_template tool call
+ * @param input - Tool input
+ * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Per-file diffs and metadata changes between the two versions
+ */
+export async function handleDiffTemplate(
+  input: DiffTemplateInput,
+  templateService: TemplateService,
+  namespaces?: string[]
+): Promise<DiffTemplateResponse> {
+  if (!isInNamespaces(input.templateId, namespaces)) {
+    throw new TemplateNotFoundError(input.templateId);
+  }
+
+  const fromVersion = await templateService.resolveVersion(input.templateId, input.fromVersion);
+  const toVersion = await templateService.resolveVersion(input.templateId, input.toVersion);
+  const before = await templateService.loadTemplate(input.templateId, fromVersion);
+  const after = await templateService.loadTemplate(input.templateId, toVersion);
+  if (!before || !after) {
+    throw new TemplateNotFoundError(input.templateId);
+  }
+
+  // Files, keyed by destination so renamed sources still line up
+  const variables = input.variables ?? {};
+  const oldFiles = await resolveFiles(templateService, input.templateId, fromVersion, variables);
+  const newFiles = await resolveFiles(templateService, input.templateId, toVersion, variables);
+  const files: FileChange[] = [];
+
+  for (const [filePath, file] of newFiles) {
+    const old = oldFiles.get(filePath);
+    if (!old) {
+      files.push({ path: filePath, status: 'added', diff: createUnifiedDiff(null, filePath, '', file.content) });
+    } else if (old.content !== file.content) {
+      files.push({ path: filePath, status: 'modified', diff: createUnifiedDiff(filePath, filePath, old.content, file.content) });
+    }
+  }
+  for (const [filePath, old] of oldFiles) {
+    if (!newFiles.has(filePath)) {
+      files.push({ path: filePath, status: 'removed', diff: createUnifiedDiff(filePath, null, old.content, '') });
+    }
+  }
+
+  // Dependencies
+  const dependencies: DependencyChange[] = [];
+  for (const type of DEPENDENCY_SECTIONS) {
+    const from = before[type] ?? {};
+    const to = after[type] ?? {};
+    for (const name of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      if (from[name] !== to[name]) {
+        dependencies.push({ name, type, from: from[name], to: to[name] });
+      }
+    }
+  }
+
+  // Environment variables
+  const oldEnv = new Map(before.envVariables.map((env) => [env.name, env]));
+  const newEnv = new Map(after.envVariables.map((env) => [env.name, env]));
+  const envVariables: DiffTemplateResponse['envVariables'] = {
+    added: after.envVariables.filter((env) => !oldEnv.has(env.name)),
+    removed: before.envVariables.filter((env) => !newEnv.has(env.name)),
+    changed: after.envVariables.filter((env) => {
+      const old = oldEnv.get(env.name);
+      return old !== undefined && JSON.stringify(old) !== JSON.stringify(env);
+    }),
+  };
+
+  // Configuration steps
+  const oldSteps = configurationSteps(before.usage.configuration);
+  const newSteps = configurationSteps(after.usage.configuration);
+
+  return {
+    templateId: input.templateId,
+    fromVersion,
+    toVersion,
+    files,
+    dependencies,
+    envVariables,
+    configuration: {
+      added: newSteps.filter((step) => !oldSteps.includes(step)),
+      removed: oldSteps.filter((step) => !newSteps.includes(step)),
+    },
+    changelog: (await templateService.getChangelog(input.templateId, toVersion)) ?? undefined,
+  };
+}
+
+/**
+ * Format the diff as a string for the MCP tool response
+ */
+export function formatDiffTemplateResponse(response: DiffTemplateResponse): string {
+  const sections: string[] = [];
+  sections.push(`# ${response.templateId}: ${response.fromVersion} → ${response.toVersion}\n`);
+
+  if (response.fromVersion === response.toVersion) {
+    sections.push('Both versions are the same; nothing to change.');
+    return sections.join('\n');
+  }
+
+  if (response.dependencies.length > 0) {
+    sections.push('## Dependencies\n');
+    for (const dep of response.dependencies) {
+      const change = !dep.from ? `added ${dep.to}` : !dep.to ? `removed (was ${dep.from})` : `${dep.from} → ${dep.to}`;
+      sections.push(`- \`${dep.name}\` (${dep.type}): ${change}`);
+    }
+    sections.push('');
+  }
+
+  const { added, removed, changed } = response.envVariables;
+  if (added.length + removed.length + changed.length > 0) {
+    sections.push('## Environment Variables\n');
+    for (const env of added) {
+      sections.push(`- Added \`${env.name}\` ${env.required ? '(required)' : '(optional)'}: ${env.description}`);
+    }
+    for (const env of removed) {
+      sections.push(`- Removed \`${env.name}\``);
+    }
+    for (const env of changed) {
+      sections.push(`- Changed \`${env.name}\` ${env.required ? '(required)' : '(optional)'}: ${env.description}`);
+    }
+    sections.push('');
+  }
+
+  if (response.configuration.added.length + response.configuration.removed.length > 0) {
+    sections.push('## Configuration Steps\n');
+    for (const step of response.configuration.added) {
+      sections.push(`- New: ${step}`);
+    }
+    for (const step of response.configuration.removed) {
+      sections.push(`- No longer needed: ${step}`);
+    }
+    sections.push('');
+  }
+
+  sections.push(`## Files (${response.files.length} changed)\n`);
+  for (const file of response.files) {
+    sections.push(`### ${file.path} (${file.status})\n`);
+    sections.push('```diff');
+    sections.push(file.diff.trimEnd());
+    sections.push('```\n');
+  }
+
+  if (response.changelog) {
+    sections.push('## Changelog\n');
+    sections.push(response.changelog.trim());
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Tool description for AI agents
+ */
+export const DIFF_TEMPLATE_DESCRIPTION = `Show what changed between two versions of a template, to upgrade a project that copied the older one.
+
+Pass the template ID, the version the project was built from (fromVersion, exact or a range like "1.x") and optionally the target version (defaults to the latest). Pass the same "variables" used when the template was applied so paths and code match the project.
+
+The response includes:
+- A unified diff per changed file (added, removed or modified), keyed by project path
+- Dependency range changes
+- Added, removed and changed environment variables
+- New and obsolete configuration steps
+- The new version's changelog
+
+Apply just these deltas to the existing project instead of re-copying the template.`;
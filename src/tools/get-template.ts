@@ -9,6 +9,8 @@ import { z } from 'zod';
 import type { TemplateService } from '../services/template-service.js';
 import type { TemplateMetadata } from '../types/index.js';
 import { TemplateNotFoundError } from '../services/template-service.js';
+import { isInNamespaces } from '../utils/namespaces.js';
+import { variableValuesSchema } from '../utils/template-variables.js';
 
 /**
  * Response format options
@@ -22,6 +24,8 @@ export const getTemplateSchema = z.object({
   templateId: z.string().describe('Template ID (e.g., "typescript/nextjs/auth/nextauth-google")'),
   includeExample: z.boolean().default(true).describe('Include usage example code'),
   format: z.enum(['full', 'code-only', 'metadata-only']).default('full').describe('Response format'),
+  variables: variableValuesSchema.optional().describe('Values for the template\'s declared variables (e.g., { "srcDir": "app", "importAlias": "~" })'),
+  version: z.string().optional().describe('Exact version or semver range (e.g., "1.x", "^1.2.0"); defaults to the latest version'),
 });
 
 export type GetTemplateInput = z.infer<typeof getTemplateSchema>;
@@ -31,6 +35,7 @@ export type GetTemplateInput = z.infer<typeof getTemplateSchema>;
  */
 export interface GetTemplateResponse {
   metadata: TemplateMetadata;
+  /** Code keyed by the path where each file belongs in the project */
   code?: Record<string, string>;
   installation: string;
   envVariables: Array<{
@@ -45,24 +50,38 @@ export interface GetTemplateResponse {
     example: string;
   };
   relatedTemplates?: string[];
+  /** Versions that can be retrieved, newest first */
+  availableVersions: string[];
+  /** CHANGELOG.md of the returned version */
+  changelog?: string;
 }
 
 /**
  * Handle the get_template tool call
  * @param input - Tool input
  * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
  * @returns Template with code and metadata
  */
 export async function handleGetTemplate(
   input: GetTemplateInput,
-  templateService: TemplateService
+  templateService: TemplateService,
+  namespaces?: string[]
 ): Promise<GetTemplateResponse> {
-  const template = await templateService.getTemplateWithCode(input.templateId);
+  // Out-of-scope templates are reported as missing so their existence stays private
+  if (!isInNamespaces(input.templateId, namespaces)) {
+    throw new TemplateNotFoundError(input.templateId);
+  }
+
+  const version = await templateService.resolveVersion(input.templateId, input.version);
+  const template = await templateService.getTemplateWithCode(input.templateId, input.variables, version);
 
   if (!template) {
     throw new TemplateNotFoundError(input.templateId);
   }
 
+  const relatedTemplates = template.relatedTemplates?.filter((id) => isInNamespaces(id, namespaces));
+
   // Build response based on format
   const response: GetTemplateResponse = {
     metadata: {
@@ -80,7 +99,9 @@ export async function handleGetTemplate(
       files: template.files,
       tags: template.tags,
       usage: template.usage,
-      relatedTemplates: template.relatedTemplates,
+      relatedTemplates,
+      variables: template.variables,
+      root: template.root,
       author: template.author,
       createdAt: template.createdAt,
       updatedAt: template.updatedAt,
@@ -88,12 +109,14 @@ export async function handleGetTemplate(
     installation: template.usage.installation,
     envVariables: template.envVariables,
     usage: template.usage,
-    relatedTemplates: template.relatedTemplates,
+    relatedTemplates,
+    availableVersions: await templateService.listVersions(input.templateId),
+    changelog: (await templateService.getChangelog(input.templateId, version)) ?? undefined,
   };
 
   // Include code unless metadata-only is requested
   if (input.format !== 'metadata-only') {
-    response.code = template.code;
+    response.code = await templateService.getTemplateCodeByDestination(input.templateId, input.variables, version);
   }
 
   return response;
@@ -112,6 +135,9 @@ export function formatGetTemplateResponse(
   sections.push(`# ${response.metadata.name}`);
   sections.push(`\n${response.metadata.description}\n`);
 
+  const versions = response.availableVersions.length > 1 ? ` (available: ${response.availableVersions.join(', ')})` : '';
+  sections.push(`**Version**: ${response.metadata.version}${versions}\n`);
+
   // Metadata section
   if (format !== 'code-only') {
     sections.push('## Installation\n');
@@ -139,6 +165,16 @@ export function formatGetTemplateResponse(
       }
       sections.push('');
     }
+
+    // Template variables
+    if (response.metadata.variables && response.metadata.variables.length > 0) {
+      sections.push('## Variables\n');
+      for (const variable of response.metadata.variables) {
+        const fallback = variable.default !== undefined ? `default \`${variable.default}\`` : 'required';
+        sections.push(`- \`${variable.name}\` (${variable.type}, ${fallback}): ${variable.description}`);
+      }
+      sections.push('');
+    }
   }
 
   // Code section
@@ -170,6 +206,12 @@ export function formatGetTemplateResponse(
       for (const related of response.relatedTemplates) {
         sections.push(`- ${related}`);
       }
+      sections.push('');
+    }
+
+    if (response.changelog) {
+      sections.push('## Changelog\n');
+      sections.push(response.changelog.trim());
     }
   }
 
@@ -188,4 +230,8 @@ The response includes:
 - Dependencies to install
 - Environment variables to configure
 - Step-by-step setup instructions
-- Usage examples`;
+- Usage examples
+
+Templates that declare variables (import alias, source directory, route base, table prefix, ...) are rendered with the values you pass in "variables"; omitted variables use their defaults.
+
+Pass "version" (an exact version or a semver range such as "1.x") to get an earlier version of a template; the latest version is returned by default. Removed versions return a deprecation notice naming the versions still available.`;
@@ -7,12 +7,20 @@
 import { z } from 'zod';
 
 import type { TemplateService } from '../services/template-service.js';
-import type { TemplateListItem, TemplateCategory, TemplateLanguage } from '../types/index.js';
+import type {
+  TemplateListItem,
+  TemplateListResponse,
+  TemplateFacets,
+  TemplateCategory,
+  TemplateLanguage,
+} from '../types/index.js';
+import { countFacets, dependenciesFilterSchema, tagMatchSchema, tagsFilterSchema } from '../utils/template-filters.js';
+import { cursorSchema, paginate } from '../utils/pagination.js';
 
 /**
  * Valid template categories
  */
-const TEMPLATE_CATEGORIES: TemplateCategory[] = [
+export const TEMPLATE_CATEGORIES: TemplateCategory[] = [
   'auth',
   'payment',
   'email',
@@ -32,6 +40,11 @@ export const listTemplatesSchema = z.object({
   category: z.enum(TEMPLATE_CATEGORIES as [TemplateCategory, ...TemplateCategory[]]).optional().describe('Filter by category (auth, payment, email, etc.)'),
   language: z.enum(['typescript', 'python']).optional().describe('Filter by programming language'),
   framework: z.string().optional().describe('Filter by framework (e.g., "nextjs", "fastapi")'),
+  tags: tagsFilterSchema.optional(),
+  tagMatch: tagMatchSchema.optional(),
+  dependencies: dependenciesFilterSchema.optional(),
+  limit: z.number().min(1).max(100).default(50).describe('Maximum number of templates per page'),
+  cursor: cursorSchema.optional(),
 });
 
 export type ListTemplatesInput = z.infer<typeof listTemplatesSchema>;
@@ -40,31 +53,64 @@ export type ListTemplatesInput = z.infer<typeof listTemplatesSchema>;
  * Handle the list_templates tool call
  * @param input - Tool input
  * @param templateService - Template service instance
- * @returns List of templates
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns A page of templates, facet counts over every match and the cursor of the next page
  */
 export async function handleListTemplates(
   input: ListTemplatesInput,
-  templateService: TemplateService
-): Promise<TemplateListItem[]> {
+  templateService: TemplateService,
+  namespaces?: string[]
+): Promise<TemplateListResponse> {
+  const { cursor, limit, ...filters } = input;
   const templates = await templateService.listTemplateItems({
     category: input.category,
     language: input.language as TemplateLanguage | undefined,
     framework: input.framework,
+    tags: input.tags,
+    tagMatch: input.tagMatch,
+    dependencies: input.dependencies,
+    namespaces,
   });
+  const page = paginate(templates, limit, cursor, { ...filters, namespaces });
+
+  return {
+    templates: page.items,
+    facets: countFacets(templates),
+    total: templates.length,
+    nextCursor: page.nextCursor,
+  };
+}
 
-  return templates;
+/**
+ * Format facet counts as one line per facet (e.g., "- **Category**: payment (6), auth (3)")
+ */
+export function formatFacets(facets: TemplateFacets): string {
+  const line = (label: string, counts: Record<string, number>): string =>
+    `- **${label}**: ${Object.entries(counts).map(([value, count]) => `${value} (${count})`).join(', ')}`;
+
+  return [
+    line('Category', facets.category),
+    line('Framework', facets.framework),
+    line('Language', facets.language),
+    line('Tags', facets.tag),
+  ].join('\n');
 }
 
 /**
  * Format the template list as a string for display
  */
-export function formatTemplateList(templates: TemplateListItem[]): string {
+export function formatTemplateList(response: TemplateListResponse): string {
+  const { templates } = response;
   if (templates.length === 0) {
     return 'No templates found matching the specified filters.';
   }
 
   const sections: string[] = [];
-  sections.push(`# Available Templates (${templates.length})\n`);
+  const count = templates.length < response.total ? `${templates.length} of ${response.total}` : `${templates.length}`;
+  sections.push(`# Available Templates (${count})\n`);
+  sections.push('**Refine by:**');
+  sections.push(formatFacets(response.facets));
+  sections.push('');
 
   // Group by category
   const byCategory = new Map<string, TemplateListItem[]>();
@@ -84,10 +130,20 @@ export function formatTemplateList(templates: TemplateListItem[]): string {
       sections.push(`- **Framework**: ${template.framework}`);
       sections.push(`- **Description**: ${template.description}`);
       sections.push(`- **Tags**: ${template.tags.join(', ')}`);
+      if (template.versions && template.versions.length > 0) {
+        sections.push(`- **Versions**: ${template.versions.join(', ')}`);
+      }
+      if (template.root) {
+        sections.push(`- **Root**: ${template.root}`);
+      }
       sections.push('');
     }
   }
 
+  if (response.nextCursor) {
+    sections.push(`More templates match. Pass \`cursor: "${response.nextCursor}"\` with the same filters to see the next page.`);
+  }
+
   return sections.join('\n');
 }
 
@@ -100,4 +156,10 @@ Use this tool to browse available templates when you're not sure what you're loo
 
 Categories: auth, payment, email, notification, database, storage, api, ui, testing, deployment
 Languages: typescript, python
-Frameworks: nextjs, fastapi, etc.`;
+Frameworks: nextjs, fastapi, etc.
+
+Filter by "tags" (e.g., ["stripe", "!subscription"]; "tagMatch": "any" or "all") and by "dependencies" (npm packages, e.g., ["drizzle-orm"]). The listing starts with counts per category, framework, language and tag to refine further.
+
+Templates come in pages of "limit" (default 50); when more match, the listing ends with a cursor to pass as "cursor" (with the same filters) for the next page.
+
+Each template lists the versions that can be retrieved (newest first); pass one to get_template's "version" to get an earlier version.`;
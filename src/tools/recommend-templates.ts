@@ -0,0 +1,253 @@
+/**
+ * MCP Tool: recommend_templates
+ * Recommend templates that fit an existing project
+ * @module tools/recommend-templates
+ */
+
+import { z } from 'zod';
+
+import type { TemplateService } from '../services/template-service.js';
+import { TemplateVariableError } from '../services/template-service.js';
+import type { TemplateCategory, TemplateMetadata, TemplateWithCode } from '../types/index.js';
+import type { ProjectStack } from '../utils/project-detection.js';
+import {
+  AUTH_SIGNALS,
+  ORM_SIGNALS,
+  classifyPackages,
+  detectProjectStack,
+  parsePackageJson,
+} from '../utils/project-detection.js';
+import { compareRanges } from '../utils/version-ranges.js';
+import { TEMPLATE_CATEGORIES } from './list-templates.js';
+
+/**
+ * Input schema for the recommend_templates tool
+ */
+export const recommendTemplatesSchema = z.object({
+  packageJson: z.string().describe('Contents of the project\'s package.json'),
+  files: z.array(z.string()).default([]).describe('File paths relative to the project root (e.g., output of `git ls-files`)'),
+  category: z.enum(TEMPLATE_CATEGORIES as [TemplateCategory, ...TemplateCategory[]]).optional().describe('Only recommend templates in this category'),
+  limit: z.number().min(1).max(20).default(5).describe('Maximum number of recommended templates'),
+});
+
+export type RecommendTemplatesInput = z.infer<typeof recommendTemplatesSchema>;
+
+/**
+ * How a template relates to the project
+ */
+export type RecommendationStatus = 'recommended' | 'installed' | 'conflict';
+
+/**
+ * A template assessed against the project
+ */
+export interface TemplateRecommendation {
+  id: string;
+  name: string;
+  category: TemplateCategory;
+  description: string;
+  status: RecommendationStatus;
+  /** Fit score (only meaningful for recommended templates) */
+  score: number;
+  /** Why the template got its status and score */
+  reasons: string[];
+}
+
+/**
+ * Response of the recommend_templates tool
+ */
+export interface RecommendTemplatesResponse {
+  stack: Omit<ProjectStack, 'packages' | 'files'>;
+  /** Recommended templates by score, then installed and conflicting ones */
+  templates: TemplateRecommendation[];
+}
+
+/**
+ * Check whether a template's files (or, without a file listing, its packages) are already in the project
+ * A template whose destinations can't be rendered without user input (a required variable) counts as not installed.
+ */
+function isInstalled(
+  template: TemplateMetadata,
+  stack: ProjectStack,
+  templateService: TemplateService
+): boolean {
+  if (stack.files.size === 0) {
+    const packages = Object.keys(template.dependencies);
+    return packages.length > 0 && packages.every((name) => name in stack.packages);
+  }
+
+  // Render destinations with the project's source directory when the template allows it
+  const declaresSrcDir = template.variables?.some((v) => v.name === 'srcDir');
+  let rendered: TemplateWithCode;
+  try {
+    rendered = templateService.renderTemplate(
+      { ...template, code: {} },
+      declaresSrcDir && stack.srcDir ? { srcDir: stack.srcDir } : {}
+    );
+  } catch (error) {
+    if (error instanceof TemplateVariableError) {
+      return false;
+    }
+    throw error;
+  }
+
+  const required = rendered.files.filter((file) => file.isRequired);
+  return required.length > 0 && required.every((file) => stack.files.has(file.path));
+}
+
+/**
+ * Find reasons a template would clash with the project's existing stack
+ */
+function findConflicts(template: TemplateMetadata, stack: ProjectStack): string[] {
+  const conflicts: string[] = [];
+  const packages = [...Object.keys(template.dependencies), ...Object.keys(template.devDependencies ?? {})];
+
+  const orm = classifyPackages(ORM_SIGNALS, packages);
+  if (orm && stack.orm && orm !== stack.orm) {
+    conflicts.push(`Project uses ${stack.orm}; this template is built on ${orm}`);
+  }
+
+  if (template.category === 'auth') {
+    const auth = classifyPackages(AUTH_SIGNALS, packages);
+    if (auth && stack.auth && auth !== stack.auth) {
+      conflicts.push(`Project uses ${stack.auth} for auth; this template uses ${auth}`);
+    }
+  }
+
+  for (const [name, required] of Object.entries(template.dependencies)) {
+    const installed = stack.packages[name];
+    if (installed && compareRanges(installed, required).status === 'conflict') {
+      conflicts.push(`Project has ${name}@${installed}; template supports ${required}`);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Score how well a template complements the project
+ */
+function scoreTemplate(
+  template: TemplateMetadata,
+  stack: ProjectStack,
+  installed: TemplateMetadata[]
+): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+  const packages = [...Object.keys(template.dependencies), ...Object.keys(template.devDependencies ?? {})];
+
+  for (const other of installed) {
+    if (other.relatedTemplates?.includes(template.id) || template.relatedTemplates?.includes(other.id)) {
+      score += 3;
+      reasons.push(`Related to installed template ${other.name}`);
+    }
+  }
+
+  const orm = classifyPackages(ORM_SIGNALS, packages);
+  if (orm && orm === stack.orm) {
+    score += 2;
+    reasons.push(`Built on ${orm}, which the project already uses`);
+  }
+
+  const auth = template.category === 'auth' ? classifyPackages(AUTH_SIGNALS, packages) : undefined;
+  if (auth && auth === stack.auth) {
+    score += 2;
+    reasons.push(`Extends the project's existing ${auth} setup`);
+  }
+
+  const present = Object.keys(template.dependencies).filter((name) => name in stack.packages);
+  if (present.length > 0) {
+    score += 1;
+    reasons.push(`Project already depends on ${present.join(', ')}`);
+  }
+
+  const covered =
+    installed.some((t) => t.category === template.category) ||
+    (template.category === 'auth' && stack.auth !== undefined) ||
+    (template.category === 'database' && stack.orm !== undefined);
+  if (!covered) {
+    score += 1;
+    reasons.push(`Adds ${template.category}, which the project does not have yet`);
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Handle the recommend_templates tool call
+ * @param input - Tool input
+ * @param templateService - Template service instance
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns Detected stack and assessed templates
+ */
+export async function handleRecommendTemplates(
+  input: RecommendTemplatesInput,
+  templateService: TemplateService,
+  namespaces?: string[]
+): Promise<RecommendTemplatesResponse> {
+  const stack = detectProjectStack(parsePackageJson(input.packageJson), input.files);
+
+  // Installed templates from every category count towards relatedTemplates
+  const fitting = await templateService.listTemplates({
+    language: stack.language,
+    framework: stack.framework,
+    namespaces,
+  });
+  const installed = fitting.filter((t) => isInstalled(t, stack, templateService));
+  const installedIds = new Set(installed.map((t) => t.id));
+  const templates = input.category ? fitting.filter((t) => t.category === input.category) : fitting;
+
+  const recommended: TemplateRecommendation[] = [];
+  const others: TemplateRecommendation[] = [];
+
+  for (const template of templates) {
+    const base = {
+      id: template.id,
+      name: template.name,
+      category: template.category,
+      description: template.description,
+    };
+
+    if (installedIds.has(template.id)) {
+      others.push({ ...base, status: 'installed', score: 0, reasons: [
+        stack.files.size > 0 ? 'Template files are already in the project' : 'Template packages are already installed',
+      ] });
+      continue;
+    }
+
+    const conflicts = findConflicts(template, stack);
+    if (conflicts.length > 0) {
+      others.push({ ...base, status: 'conflict', score: 0, reasons: conflicts });
+      continue;
+    }
+
+    const { score, reasons } = scoreTemplate(template, stack, installed);
+    recommended.push({ ...base, status: 'recommended', score, reasons });
+  }
+
+  recommended.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  others.sort((a, b) => a.status.localeCompare(b.status) || a.name.localeCompare(b.name));
+
+  return {
+    stack: {
+      framework: stack.framework,
+      language: stack.language,
+      orm: stack.orm,
+      auth: stack.auth,
+      srcDir: stack.srcDir,
+      evidence: stack.evidence,
+    },
+    templates: [...recommended.slice(0, input.limit), ...others],
+  };
+}
+
+/**
+ * Tool description for AI agents
+ */
+export const RECOMMEND_TEMPLATES_DESCRIPTION = `Recommend templates that fit an existing project.
+
+Pass the project's package.json contents and its file listing (e.g., \`git ls-files\`). The tool detects the framework, ORM (prisma/drizzle) and auth provider, then assesses each template:
+- recommended: fits the project, ranked by score with reasons (related to installed templates, same ORM/auth, fills a missing category)
+- installed: the template's files are already present
+- conflict: clashes with the existing stack (e.g., drizzle-setup in a prisma project) or with installed versions
+
+limit caps the recommended entries; installed and conflicting templates are always listed.`;
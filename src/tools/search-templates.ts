@@ -7,23 +7,10 @@
 import { z } from 'zod';
 
 import type { SearchService } from '../services/search-service.js';
-import type { SearchResult, TemplateCategory, TemplateLanguage } from '../types/index.js';
-
-/**
- * Valid template categories
- */
-const TEMPLATE_CATEGORIES: TemplateCategory[] = [
-  'auth',
-  'payment',
-  'email',
-  'notification',
-  'database',
-  'storage',
-  'api',
-  'ui',
-  'testing',
-  'deployment',
-];
+import type { SearchResponse, TemplateCategory, TemplateLanguage } from '../types/index.js';
+import { dependenciesFilterSchema, tagMatchSchema, tagsFilterSchema } from '../utils/template-filters.js';
+import { cursorSchema, decodeCursor, encodeCursor } from '../utils/pagination.js';
+import { TEMPLATE_CATEGORIES } from './list-templates.js';
 
 /**
  * Input schema for the search_templates tool
@@ -33,7 +20,30 @@ export const searchTemplatesSchema = z.object({
   language: z.enum(['typescript', 'python']).optional().describe('Programming language filter'),
   framework: z.string().optional().describe('Framework filter (e.g., "nextjs", "fastapi")'),
   category: z.enum(TEMPLATE_CATEGORIES as [TemplateCategory, ...TemplateCategory[]]).optional().describe('Category filter'),
+  tags: tagsFilterSchema.optional(),
+  tagMatch: tagMatchSchema.optional(),
+  dependencies: dependenciesFilterSchema.optional(),
   limit: z.number().min(1).max(20).default(5).describe('Maximum number of results'),
+  cursor: cursorSchema.optional(),
+  mode: z
+    .enum(['hybrid', 'semantic', 'keyword'])
+    .optional()
+    .describe('Ranking: "hybrid" fuses embedding and keyword rankings (default), "semantic" or "keyword" uses one'),
+  fusion: z
+    .enum(['rrf', 'weighted'])
+    .optional()
+    .describe('How hybrid mode combines rankings: "rrf" (reciprocal rank fusion, default) or "weighted" (weighted sum of scores)'),
+  weights: z
+    .object({
+      semantic: z.number().min(0).optional().describe('Weight of the embedding ranking (default 1)'),
+      keyword: z.number().min(0).optional().describe('Weight of the keyword ranking (default 1)'),
+    })
+    .optional()
+    .describe('Relative weight of each signal in hybrid mode; 0 leaves a signal out'),
+  explain: z
+    .boolean()
+    .optional()
+    .describe('Explain each score: matched terms per field, semantic similarity, and the weights applied'),
 });
 
 export type SearchTemplatesInput = z.infer<typeof searchTemplatesSchema>;
@@ -42,20 +52,37 @@ export type SearchTemplatesInput = z.infer<typeof searchTemplatesSchema>;
  * Handle the search_templates tool call
  * @param input - Tool input
  * @param searchService - Search service instance
- * @returns Search results
+ * @param namespaces - Template ID prefixes the client may see (undefined for all)
+ * @returns A page of search results, facet counts and the cursor of the next page
  */
 export async function handleSearchTemplates(
   input: SearchTemplatesInput,
-  searchService: SearchService
-): Promise<SearchResult[]> {
-  const results = await searchService.search(input.query, {
+  searchService: SearchService,
+  namespaces?: string[]
+): Promise<SearchResponse> {
+  // A cursor continues the same query and filters; the page size and explain may change between pages
+  const { cursor, limit, explain, ...query } = input;
+  const params = { ...query, namespaces };
+  const offset = decodeCursor(cursor, params);
+
+  const response = await searchService.searchWithFacets(input.query, {
     language: input.language as TemplateLanguage | undefined,
     framework: input.framework,
     category: input.category,
-    limit: input.limit,
+    tags: input.tags,
+    tagMatch: input.tagMatch,
+    dependencies: input.dependencies,
+    limit,
+    offset,
+    explain,
+    mode: input.mode,
+    fusion: input.fusion,
+    weights: input.weights,
+    namespaces,
   });
 
-  return results;
+  const end = offset + limit;
+  return { ...response, nextCursor: end < response.total ? encodeCursor(end, params) : undefined };
 }
 
 /**
@@ -69,4 +96,14 @@ Examples:
 - "Email sending with Resend"
 - "Database setup with Prisma"
 
-Results include template ID, name, description, and relevance score.`;
+Results include template ID, name, description, relevance score, and "signals": the score, rank and share of the final score from each ranking (semantic embeddings, keyword index with the matched terms).
+
+Search covers each template's README and code as well as its metadata, so queries can name APIs (e.g., "constructEvent signature verification", "presigned URL"). "hits" lists the matching file (README.md or a path under the template's files/) and line range, so you can read just that part.
+
+Filter by "tags" (e.g., ["stripe", "!subscription"]; "tagMatch": "any" or "all") and by "dependencies" (e.g., ["drizzle-orm"]). The response's "facets" count the matching templates per category, framework, language and tag, so you can narrow a broad query in the next call.
+
+Results come in pages of "limit"; when more templates matched, pass the response's "nextCursor" as "cursor" (with the same query and filters) to get the next page. "total" is the number of matching templates.
+
+Set "explain" to see why a template ranked where it did: the matched terms and the fields they hit (name, tags, README lines, ...), the raw keyword and semantic scores, and the field and signal weights applied.
+
+By default the embedding and keyword rankings are fused, so exact tag hits (e.g., "idempotent") still surface. Set "mode" to use one ranking, or "weights" (e.g., { "semantic": 1, "keyword": 2 }) and "fusion" to tune the mix. Without embeddings, keyword search is used.`;
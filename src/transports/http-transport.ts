@@ -0,0 +1,326 @@
+/**
+ * Streamable HTTP transport with per-client sessions
+ * @module transports/http-transport
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ApiKey, ApiKeyService } from '../services/api-key-service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Path serving the MCP endpoint
+ */
+export const MCP_PATH = '/mcp';
+
+/**
+ * Path serving the health check
+ */
+export const HEALTH_PATH = '/health';
+
+/**
+ * Largest request body accepted (bytes)
+ */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Health endpoint payload
+ */
+export interface HealthStatus {
+  status: 'ok';
+  templateCount: number;
+  hasSemanticSearch: boolean;
+  /** Open MCP sessions */
+  sessions: number;
+}
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Create a fresh MCP server for a new session (client is set when API keys are required) */
+  createServer: (client?: ApiKey) => Promise<McpServer>;
+  /** Require a bearer token matching one of these keys on MCP requests */
+  apiKeys?: ApiKeyService;
+  /** Serve MCP without API keys (only allowed on loopback hosts) */
+  allowUnauthenticated?: boolean;
+  /** Extra Host header values to accept besides the bound host (e.g., the public hostname behind a proxy) */
+  allowedHosts?: string[];
+  /** Report service health (session count is added by the transport) */
+  getHealth: () => Promise<Omit<HealthStatus, 'status' | 'sessions'>>;
+}
+
+/**
+ * Running HTTP transport
+ */
+export interface HttpTransportHandle {
+  /** Bound address (useful when listening on port 0) */
+  address: AddressInfo;
+  /** Close every session and stop listening */
+  close: () => Promise<void>;
+}
+
+/**
+ * Error answered with a specific HTTP status
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: http.ServerResponse, statusCode: number, message: string): void {
+  sendJson(res, statusCode, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Answer a request that does not belong to an open session
+ */
+function rejectSession(res: http.ServerResponse, sessionId: string | undefined): void {
+  if (sessionId) {
+    sendJsonRpcError(res, 404, 'Session not found');
+  } else {
+    sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+  }
+}
+
+/**
+ * Authenticate a request from its bearer token
+ * @throws HttpError if the token is missing or unknown
+ */
+function authenticate(req: http.IncomingMessage, apiKeys: ApiKeyService): ApiKey {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    throw new HttpError(401, 'Unauthorized: missing bearer token');
+  }
+
+  const client = apiKeys.authenticate(match[1].trim());
+  if (!client) {
+    throw new HttpError(401, 'Unauthorized: invalid API key');
+  }
+
+  return client;
+}
+
+/**
+ * Read and parse a JSON request body
+ * @throws HttpError if the body is too large or not valid JSON
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+/**
+ * Check whether a host only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  return normalized === 'localhost' || normalized === '::1' || /^127(\.\d{1,3}){3}$/.test(normalized);
+}
+
+/**
+ * Host header values accepted for DNS rebinding protection
+ * Wildcard and loopback binds accept the loopback names; other binds accept the bound host.
+ * Every host is accepted with and without the port.
+ */
+function buildAllowedHosts(host: string, port: number, extra: string[] = []): string[] {
+  const bound = host === '0.0.0.0' || host === '::' || isLoopbackHost(host)
+    ? ['localhost', '127.0.0.1', '[::1]']
+    : [host.includes(':') && !host.startsWith('[') ? `[${host}]` : host];
+
+  return [...bound, ...extra].flatMap((name) => (/:\d+$/.test(name) ? [name] : [name, `${name}:${port}`]));
+}
+
+/**
+ * Start the streamable HTTP transport
+ * @param options - Transport options
+ * @returns Handle exposing the bound address and a close function
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; clientName?: string }>();
+  const apiKeys = options.apiKeys?.hasKeys() ? options.apiKeys : undefined;
+
+  if (!apiKeys) {
+    if (!options.allowUnauthenticated) {
+      throw new Error('HTTP transport needs API keys (API_KEYS or API_KEYS_FILE) to authenticate MCP requests');
+    }
+    if (!isLoopbackHost(options.host)) {
+      throw new Error(`HTTP transport without API keys may only bind to a loopback host, not "${options.host}"`);
+    }
+    logger.warn('HTTP transport has no API keys configured; MCP requests are not authenticated');
+  }
+
+  // Filled in once the port is bound
+  let allowedHosts: string[] = [];
+
+  /**
+   * Open a new session for an initialize request
+   */
+  const createSession = async (client?: ApiKey): Promise<StreamableHTTPServerTransport> => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: (): string => randomUUID(),
+      // Reject Host headers naming other sites, so browsers can't reach the server through DNS rebinding
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: (sessionId): void => {
+        sessions.set(sessionId, { transport, clientName: client?.name });
+        logger.info('MCP session opened', { sessionId, client: client?.name, sessions: sessions.size });
+      },
+    });
+
+    transport.onclose = (): void => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info('MCP session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+      }
+    };
+
+    const server = await options.createServer(client);
+    await server.connect(transport);
+    return transport;
+  };
+
+  const handleMcpRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const client = apiKeys ? authenticate(req, apiKeys) : undefined;
+
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    // A session only serves the client that opened it
+    if (session && session.clientName !== client?.name) {
+      throw new HttpError(403, 'Forbidden: session belongs to another client');
+    }
+    const existing = session?.transport;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+      } else if (!sessionId && isInitializeRequest(body)) {
+        const transport = await createSession(client);
+        await transport.handleRequest(req, res, body);
+        // A rejected initialize (e.g., a foreign Host header) never opens the session
+        if (!transport.sessionId) {
+          await transport.close();
+        }
+      } else {
+        rejectSession(res, sessionId);
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (existing) {
+        await existing.handleRequest(req, res);
+      } else {
+        rejectSession(res, sessionId);
+      }
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonRpcError(res, 405, 'Method not allowed');
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    const handle = async (): Promise<void> => {
+      if (pathname === HEALTH_PATH && req.method === 'GET') {
+        const health = await options.getHealth();
+        sendJson(res, 200, { status: 'ok', ...health, sessions: sessions.size } satisfies HealthStatus);
+      } else if (pathname === MCP_PATH) {
+        await handleMcpRequest(req, res);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    };
+
+    handle().catch((error: unknown) => {
+      if (error instanceof HttpError) {
+        logger.warn('HTTP request rejected', { status: error.statusCode, reason: error.message, path: pathname });
+      } else {
+        logger.error('HTTP request error', { error, method: req.method, path: pathname });
+      }
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof HttpError) {
+        if (error.statusCode === 401) {
+          res.setHeader('WWW-Authenticate', 'Bearer realm="sfvibe-templates"');
+        }
+        sendJsonRpcError(res, error.statusCode, error.message);
+      } else {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  allowedHosts = buildAllowedHosts(options.host, address.port, options.allowedHosts);
+  logger.info('HTTP transport listening', {
+    url: `http://${options.host}:${address.port}${MCP_PATH}`,
+    health: `http://${options.host}:${address.port}${HEALTH_PATH}`,
+  });
+
+  return {
+    address,
+    close: async (): Promise<void> => {
+      await Promise.all(Array.from(sessions.values()).map(({ transport }) => transport.close()));
+      sessions.clear();
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
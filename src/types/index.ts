@@ -37,16 +37,72 @@ export interface EnvVariable {
   example?: string;
 }
 
+/**
+ * Value types a template variable can take
+ */
+export type TemplateVariableType = 'string' | 'number' | 'boolean';
+
+/**
+ * Values supplied for template variables, keyed by variable name
+ */
+export type TemplateVariableValues = Record<string, string | number | boolean>;
+
+/**
+ * Variable that can be substituted into a template's paths and code
+ */
+export interface TemplateVariable {
+  /** Variable name used in {{name}} placeholders */
+  name: string;
+  /** Description of what this variable controls */
+  description: string;
+  /** Value type */
+  type: TemplateVariableType;
+  /** Default value (variables without a default are required) */
+  default?: string | number | boolean;
+  /** Regular expression that string values must match */
+  pattern?: string;
+}
+
 /**
  * File included in a template
  */
 export interface TemplateFile {
   /** Relative path where the file should be placed */
   path: string;
+  /** Path of the source file relative to the template's files/ directory */
+  source: string;
+  /** Description of what this file does */
+  description: string;
+  /** Whether this file is required for the template to work */
+  isRequired: boolean;
+}
+
+/**
+ * Template file resolved to its destination in a target project
+ */
+export interface ResolvedTemplateFile {
+  /** Path of the source file relative to the template's files/ directory */
+  source: string;
+  /** Destination path relative to the project root */
+  path: string;
   /** Description of what this file does */
   description: string;
   /** Whether this file is required for the template to work */
   isRequired: boolean;
+  /** File content */
+  content: string;
+}
+
+/**
+ * Result of mapping a template's source files to their destinations
+ */
+export interface ResolvedTemplateFiles {
+  /** Files with a resolved destination */
+  files: ResolvedTemplateFile[];
+  /** Source files that no declared file refers to */
+  unmappedSources: string[];
+  /** Declared file paths that have no matching source file */
+  missingFiles: string[];
 }
 
 /**
@@ -61,6 +117,72 @@ export interface TemplateUsage {
   example: string;
 }
 
+/**
+ * A protective check a template's code relies on (e.g., webhook signature verification)
+ */
+export interface TemplateSafeguard {
+  /** Short identifier (e.g., "webhook-idempotency") */
+  name: string;
+  /** What the safeguard protects against */
+  description: string;
+  /** Source file (relative to files/) containing the safeguard */
+  source: string;
+  /** Regular expression matching the safeguard in the file's code */
+  pattern: string;
+}
+
+/**
+ * Database schema change a feature module needs (e.g., a column on the User model)
+ */
+export interface TemplateSchemaChange {
+  /** Schema file in the user's project (e.g., "prisma/schema.prisma") */
+  path: string;
+  /** What the change is for */
+  description: string;
+  /** Snippet to add to the schema */
+  content: string;
+}
+
+/**
+ * Optional add-on a template declares, such as role-based access for a credentials auth template
+ */
+export interface TemplateFeature {
+  /** Feature name passed to implement_* prompts (e.g., "role-based-access") */
+  name: string;
+  /** What the feature adds */
+  description: string;
+  /** Extra files; sources are relative to the template's features/<name>/ directory */
+  files?: TemplateFile[];
+  /** Extra production dependencies with versions */
+  dependencies?: Record<string, string>;
+  /** Extra environment variables */
+  envVariables?: EnvVariable[];
+  /** Schema changes the feature needs */
+  schemaChanges?: TemplateSchemaChange[];
+  /** Changes to make to the base template's code, in order */
+  steps: string[];
+}
+
+/**
+ * Feature module with its code loaded
+ */
+export interface TemplateFeatureWithCode extends TemplateFeature {
+  /** Map of file paths (relative to features/<name>/) to their content */
+  code: Record<string, string>;
+}
+
+/**
+ * A template version that is no longer served
+ */
+export interface RemovedTemplateVersion {
+  /** Removed version (e.g., "1.0.0") */
+  version: string;
+  /** Why the version was removed and what to use instead */
+  reason: string;
+  /** Removal date (ISO 8601) */
+  removedAt?: string;
+}
+
 /**
  * Complete template metadata
  */
@@ -91,10 +213,32 @@ export interface TemplateMetadata {
   files: TemplateFile[];
   /** Tags for search optimization */
   tags: string[];
+  /** Short name implement_* prompts offer the template under (e.g., "google"); defaults to the ID's last segment */
+  variant?: string;
+  /** Name implement_* prompts give the argument choosing a template of this category (e.g., "provider"); defaults to "variant" */
+  variantArgument?: string;
+  /** Category name in implement_* prompt descriptions and guide titles (e.g., "Authentication"); defaults to the capitalized category */
+  categoryLabel?: string;
   /** Usage instructions */
   usage: TemplateUsage;
   /** IDs of related templates */
   relatedTemplates?: string[];
+  /** Variables substituted into file paths, code and usage instructions */
+  variables?: TemplateVariable[];
+  /** Protective checks that projects copying the template should keep */
+  safeguards?: TemplateSafeguard[];
+  /** Optional add-ons the template's implement_* prompt can merge into its guide */
+  features?: TemplateFeature[];
+  /** ID of a template whose metadata and files this template inherits, optionally pinned with "@version" */
+  extends?: string;
+  /** Declared paths of inherited files this template drops */
+  removeFiles?: string[];
+  /** Only exists to be extended: left out of listings, search and implement_* prompts */
+  abstract?: boolean;
+  /** Earlier versions that were removed (answered with a deprecation notice) */
+  removedVersions?: RemovedTemplateVersion[];
+  /** Name of the template root the template was loaded from (set by TemplateService) */
+  root?: string;
   /** Template author */
   author: string;
   /** Creation date (ISO 8601) */
@@ -129,6 +273,108 @@ export interface SearchResult {
   language: TemplateLanguage;
   /** Framework */
   framework: string;
+  /** Template root the template comes from */
+  root?: string;
+  /** Ranking signals behind the score */
+  signals: SearchSignals;
+  /** Parts of the template's README and code that matched, best first */
+  hits: SearchHit[];
+  /** How the score was reached (only when the search asked to explain) */
+  explanation?: SearchExplanation;
+}
+
+/**
+ * A matching line range in a template's README or code
+ */
+export interface SearchHit {
+  /** README.md, or a code file path relative to the template's files/ directory */
+  file: string;
+  /** First matching line (1-based) */
+  startLine: number;
+  /** Last matching line (inclusive) */
+  endLine: number;
+  /** Signals that matched this range */
+  signals: SearchSignal[];
+}
+
+/**
+ * Ranking signal used by search
+ */
+export type SearchSignal = 'semantic' | 'keyword';
+
+/**
+ * How search ranks templates: embeddings, keyword index, or both fused
+ */
+export type SearchMode = SearchSignal | 'hybrid';
+
+/**
+ * How hybrid search combines the two rankings
+ * - rrf: reciprocal rank fusion (uses ranks only)
+ * - weighted: weighted sum of the scores
+ */
+export type FusionMethod = 'rrf' | 'weighted';
+
+/**
+ * A template's standing in one signal's ranking
+ */
+export interface SignalScore {
+  /** Score from this signal alone (cosine similarity, or BM25 scaled so the best match is 1) */
+  score: number;
+  /** 1-based rank in this signal's ranking */
+  rank: number;
+  /** Part of the final score that came from this signal */
+  contribution: number;
+  /** Stemmed query terms found in the template (keyword signal only) */
+  matchedTerms?: string[];
+}
+
+/**
+ * Per-signal breakdown of a search score (a signal is absent when it did not rank the template)
+ */
+export type SearchSignals = Partial<Record<SearchSignal, SignalScore>>;
+
+/**
+ * Why a template scored what it did, for debugging rankings
+ */
+export interface SearchExplanation {
+  /** How the signals were combined ("none" when only one signal ranked) */
+  fusion: FusionMethod | 'none';
+  /** Share of the final score given to each signal, after normalizing the requested weights */
+  weights: Partial<Record<SearchSignal, number>>;
+  /** Rank constant k in weight × (k + 1) / (k + rank) (rrf fusion only) */
+  rrfK?: number;
+  keyword?: KeywordExplanation;
+  semantic?: SemanticExplanation;
+}
+
+/**
+ * Breakdown of a template's keyword score
+ * The signal score is metadataScore + contentWeight × contentScore, divided by the best template's total.
+ */
+export interface KeywordExplanation {
+  /** BM25 score of the name, tags, category and description */
+  metadataScore: number;
+  /** BM25 score of the best matching README or code chunk */
+  contentScore: number;
+  /** Weight of contentScore relative to metadataScore */
+  contentWeight: number;
+  /**
+   * Stemmed query terms with where they were found: metadata fields (name, tags, category, description),
+   * hit line ranges (e.g., "README.md:1-40") or other README and code files
+   */
+  terms: Array<{ term: string; fields: string[] }>;
+  /** Boost of each matched field in BM25 (e.g., a name hit counts 3× a description hit) */
+  fieldWeights: Record<string, number>;
+}
+
+/**
+ * Breakdown of a template's semantic score
+ */
+export interface SemanticExplanation {
+  /** Cosine similarity of the query and the template's metadata */
+  metadataSimilarity?: number;
+  /** Most similar README or code chunk, when it beats the metadata (and so sets the score) */
+  bestChunk?: { file: string; startLine: number; endLine: number; similarity: number };
 }
 
 /**
@@ -141,6 +387,58 @@ export interface TemplateFilters {
   language?: TemplateLanguage;
   /** Filter by framework */
   framework?: string;
+  /** Only include templates under these ID prefixes (e.g., "typescript/nextjs/payment") */
+  namespaces?: string[];
+  /** Filter by tags; "!"-prefixed tags exclude (e.g., ["stripe", "!subscription"]) */
+  tags?: string[];
+  /** Whether templates need all listed tags (default) or any of them */
+  tagMatch?: TagMatch;
+  /** npm packages templates must use; "!"-prefixed packages exclude */
+  dependencies?: string[];
+}
+
+/**
+ * How tag filters combine
+ */
+export type TagMatch = 'any' | 'all';
+
+/**
+ * Number of templates per value of a field, most common first
+ */
+export type FacetCounts = Record<string, number>;
+
+/**
+ * Facet counts over a set of templates, for refining a query
+ */
+export interface TemplateFacets {
+  category: FacetCounts;
+  framework: FacetCounts;
+  language: FacetCounts;
+  tag: FacetCounts;
+}
+
+/**
+ * Search results with facet counts over every matching template (not just the returned page)
+ */
+export interface SearchResponse {
+  results: SearchResult[];
+  facets: TemplateFacets;
+  /** Number of templates the query matched, across all pages */
+  total: number;
+  /** Cursor for the next page of results (absent on the last page) */
+  nextCursor?: string;
+}
+
+/**
+ * Template listing with facet counts
+ */
+export interface TemplateListResponse {
+  templates: TemplateListItem[];
+  facets: TemplateFacets;
+  /** Number of templates matching the filters, across all pages */
+  total: number;
+  /** Cursor for the next page of templates (absent on the last page) */
+  nextCursor?: string;
 }
 
 /**
@@ -149,6 +447,16 @@ export interface TemplateFilters {
 export interface SearchFilters extends TemplateFilters {
   /** Maximum number of results */
   limit?: number;
+  /** Number of ranked templates to skip (for paging) */
+  offset?: number;
+  /** Attach an explanation of the score to each result */
+  explain?: boolean;
+  /** Ranking mode (default: hybrid when embeddings are available, otherwise keyword) */
+  mode?: SearchMode;
+  /** How hybrid mode fuses the rankings (default: rrf) */
+  fusion?: FusionMethod;
+  /** Relative weight of each signal in hybrid mode (default: 1 each) */
+  weights?: Partial<Record<SearchSignal, number>>;
 }
 
 /**
@@ -181,12 +489,32 @@ export interface ParsedTemplateId {
  * Cached embedding data
  */
 export interface EmbeddingCache {
-  /** Template ID to embedding vector mapping */
-  embeddings: Record<string, number[]>;
-  /** When the cache was generated */
+  /** Template or content chunk ID to cached embedding mapping */
+  embeddings: Record<string, EmbeddingCacheEntry>;
+  /** When the cache was last written */
   generatedAt: string;
   /** Model used for embeddings */
   model: string;
+  /** Length of every embedding vector */
+  dimensions: number;
+}
+
+/**
+ * Text to embed, with the ID its vector is stored under
+ */
+export interface EmbeddingInput {
+  id: string;
+  text: string;
+}
+
+/**
+ * Cached embedding for one template or content chunk
+ */
+export interface EmbeddingCacheEntry {
+  /** Hash of the text the embedding was generated from (stale when the current text's hash differs) */
+  hash: string;
+  /** Embedding vector */
+  embedding: number[];
 }
 
 /**
@@ -207,4 +535,30 @@ export interface TemplateListItem {
   framework: string;
   /** Tags */
   tags: string[];
+  /** Template root the template comes from */
+  root?: string;
+  /** Versions that can be retrieved, newest first */
+  versions?: string[];
+}
+
+/**
+ * A directory of templates
+ */
+export interface TemplateRoot {
+  /** Short name shown to clients (e.g., "bundled", "team") */
+  name: string;
+  /** Absolute path to the directory */
+  path: string;
+}
+
+/**
+ * Where a template ID resolves to across template roots
+ */
+export interface TemplateLocation {
+  /** Template ID */
+  id: string;
+  /** Root the template is served from */
+  root: string;
+  /** Lower-precedence roots that also contain this ID */
+  shadows: string[];
 }
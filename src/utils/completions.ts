@@ -0,0 +1,90 @@
+/**
+ * Argument completion values drawn from the available templates
+ * @module utils/completions
+ */
+
+import type { TemplateService } from '../services/template-service.js';
+import type { TemplateFilters } from '../types/index.js';
+
+/**
+ * Keep the values starting with what the client has typed (case-insensitive), deduplicated and sorted
+ * @param values - Candidate values
+ * @param value - Partial value typed so far
+ * @returns Matching values
+ */
+export function matchCompletions(values: Iterable<string>, value: string): string[] {
+  const typed = value.trim().toLowerCase();
+  const matches = new Set<string>();
+  for (const candidate of values) {
+    if (candidate.toLowerCase().startsWith(typed)) {
+      matches.add(candidate);
+    }
+  }
+  return Array.from(matches).sort();
+}
+
+/**
+ * Complete a template ID, matching either the start of the ID or its name
+ * (so "stripe" suggests "typescript/nextjs/payment/stripe-checkout")
+ * @param templateService - Template service instance
+ * @param value - Partial ID typed so far
+ * @param filters - Limits which templates are suggested (e.g., namespaces of a scoped client)
+ * @returns Matching template IDs
+ */
+export async function completeTemplateIds(
+  templateService: TemplateService,
+  value: string,
+  filters?: TemplateFilters
+): Promise<string[]> {
+  const typed = value.trim().toLowerCase();
+  const ids = (await templateService.listTemplates(filters)).map((t) => t.id);
+  return ids.filter((id) => id.startsWith(typed) || (id.split('/').pop() ?? '').startsWith(typed)).sort();
+}
+
+/**
+ * Complete a framework among the available templates
+ * @param templateService - Template service instance
+ * @param value - Partial framework typed so far
+ * @param filters - Limits which templates count (e.g., category "auth" for frameworks with auth templates)
+ * @returns Matching frameworks
+ */
+export async function completeFrameworks(
+  templateService: TemplateService,
+  value: string,
+  filters?: TemplateFilters
+): Promise<string[]> {
+  const templates = await templateService.listTemplates(filters);
+  return matchCompletions(templates.map((t) => t.framework), value);
+}
+
+/**
+ * Complete a category among the available templates
+ * @param templateService - Template service instance
+ * @param value - Partial category typed so far
+ * @param filters - Limits which templates count
+ * @returns Matching categories
+ */
+export async function completeCategories(
+  templateService: TemplateService,
+  value: string,
+  filters?: TemplateFilters
+): Promise<string[]> {
+  const templates = await templateService.listTemplates(filters);
+  return matchCompletions(templates.map((t) => t.category), value);
+}
+
+/**
+ * Complete a tag among the available templates
+ * @param templateService - Template service instance
+ * @param value - Partial tag typed so far
+ * @param filters - Limits which templates count
+ * @returns Matching tags
+ */
+export async function completeTags(
+  templateService: TemplateService,
+  value: string,
+  filters?: TemplateFilters
+): Promise<string[]> {
+  const templates = await templateService.listTemplates(filters);
+  return matchCompletions(templates.flatMap((t) => t.tags), value);
+}
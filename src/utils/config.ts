@@ -5,9 +5,13 @@
 
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
+import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
+import type { TemplateRoot } from '../types/index.js';
+import { BUNDLED_ROOT } from './template-roots.js';
+
 // Load .env file
 dotenvConfig();
 
@@ -21,8 +25,24 @@ const configSchema = z.object({
   GOOGLE_API_KEY: z.string().optional(),
   /** Anthropic Claude API key for embeddings (optional) */
   ANTHROPIC_API_KEY: z.string().optional(),
+  /** Embedding provider to use instead of picking one from the configured API keys (optional) */
+  EMBEDDING_PROVIDER: z.enum(['openai', 'gemini', 'anthropic', 'ollama']).optional(),
+  /** Base URL of the Ollama server used by the ollama provider */
+  OLLAMA_URL: z.string().default('http://127.0.0.1:11434'),
+  /** Ollama embedding model (must be pulled first, e.g. `ollama pull nomic-embed-text`) */
+  OLLAMA_EMBEDDING_MODEL: z.string().default('nomic-embed-text'),
+  /** Milliseconds to wait for the Ollama server to answer an embedding request */
+  OLLAMA_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  /** Embedding cache file (optional; defaults to embeddings.json in the user cache directory) */
+  EMBEDDINGS_CACHE: z.string().optional(),
+  /** Embedding similarity a template needs to count as a semantic match (ranked, counted in totals and facets) */
+  SEMANTIC_MIN_SIMILARITY: z.coerce.number().min(-1).max(1).default(0.3),
   /** Directory containing templates */
   TEMPLATES_DIR: z.string().default('./templates'),
+  /** Extra template roots layered over TEMPLATES_DIR: comma-separated `name=path` or `path`, highest precedence first */
+  TEMPLATE_ROOTS: z.string().optional(),
+  /** Watch template roots and reload changed templates without a restart */
+  WATCH_TEMPLATES: z.stringbool().default(true),
   /** Logging level */
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   /** Cache TTL in seconds */
@@ -31,6 +51,20 @@ const configSchema = z.object({
   SUPABASE_URL: z.string().optional(),
   /** Supabase anonymous key (optional) */
   SUPABASE_ANON_KEY: z.string().optional(),
+  /** Transport the server listens on */
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  /** Host the HTTP transport binds to */
+  HTTP_HOST: z.string().default('127.0.0.1'),
+  /** Port the HTTP transport listens on */
+  HTTP_PORT: z.coerce.number().int().min(0).max(65535).default(3000),
+  /** JSON file listing API keys for the HTTP transport (optional) */
+  API_KEYS_FILE: z.string().optional(),
+  /** API keys for the HTTP transport: comma-separated `key` or `key:scope|scope` (optional) */
+  API_KEYS: z.string().optional(),
+  /** Serve the HTTP transport without API keys (loopback hosts only) */
+  HTTP_ALLOW_UNAUTHENTICATED: z.stringbool().default(false),
+  /** Extra Host header values the HTTP transport accepts, comma-separated (e.g., its public hostname) */
+  HTTP_ALLOWED_HOSTS: z.string().optional(),
 });
 
 /**
@@ -69,6 +103,8 @@ function loadConfig(): Config {
   return {
     ...result.data,
     TEMPLATES_DIR: templatesDir,
+    // Keys files are deployment-specific, so resolve them from the working directory
+    API_KEYS_FILE: result.data.API_KEYS_FILE && path.resolve(result.data.API_KEYS_FILE),
   };
 }
 
@@ -80,29 +116,176 @@ export const config = loadConfig();
 /**
  * Embedding provider types
  */
-export type EmbeddingProvider = 'openai' | 'gemini' | 'anthropic';
+export type EmbeddingProvider = NonNullable<Config['EMBEDDING_PROVIDER']>;
+
+/**
+ * Check whether a provider has what it needs (hosted providers need an API key, Ollama runs locally)
+ */
+function isProviderConfigured(provider: EmbeddingProvider): boolean {
+  switch (provider) {
+    case 'openai':
+      return Boolean(config.OPENAI_API_KEY);
+    case 'gemini':
+      return Boolean(config.GOOGLE_API_KEY);
+    case 'anthropic':
+      return Boolean(config.ANTHROPIC_API_KEY);
+    case 'ollama':
+      return true;
+  }
+}
 
 /**
- * Check if embeddings are available (any API key configured)
+ * Check if embeddings are available (a provider is selected or an API key configured)
  */
 export function hasEmbeddingsSupport(): boolean {
-  return Boolean(config.OPENAI_API_KEY || config.GOOGLE_API_KEY || config.ANTHROPIC_API_KEY);
+  return getEmbeddingProvider() !== null;
 }
 
 /**
- * Get the active embedding provider based on configured API keys
- * Priority: OpenAI → Gemini → Anthropic
+ * Get the active embedding provider
+ * EMBEDDING_PROVIDER wins when set (null if it lacks its API key); otherwise the first
+ * configured API key in the order OpenAI → Gemini → Anthropic
  */
 export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (config.EMBEDDING_PROVIDER) {
+    return isProviderConfigured(config.EMBEDDING_PROVIDER) ? config.EMBEDDING_PROVIDER : null;
+  }
   if (config.OPENAI_API_KEY) return 'openai';
   if (config.GOOGLE_API_KEY) return 'gemini';
   if (config.ANTHROPIC_API_KEY) return 'anthropic';
   return null;
 }
 
+/**
+ * Parse a TEMPLATE_ROOTS value into template roots
+ * @param value - Comma-separated `name=path` or `path` entries (relative paths resolve from the working directory)
+ * @returns Roots in the order given
+ */
+export function parseTemplateRoots(value: string): TemplateRoot[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      const rootPath = path.resolve(separator === -1 ? entry : entry.slice(separator + 1).trim());
+      const name = separator === -1 ? path.basename(rootPath) : entry.slice(0, separator).trim();
+      return { name, path: rootPath };
+    });
+}
+
+/**
+ * Get every template root in precedence order: TEMPLATE_ROOTS entries, then the bundled TEMPLATES_DIR
+ */
+export function getTemplateRoots(): TemplateRoot[] {
+  const overlays = config.TEMPLATE_ROOTS ? parseTemplateRoots(config.TEMPLATE_ROOTS) : [];
+  return [...overlays, { name: BUNDLED_ROOT, path: config.TEMPLATES_DIR }];
+}
+
+/**
+ * Get the user's cache directory ($XDG_CACHE_HOME, %LOCALAPPDATA% on Windows,
+ * ~/Library/Caches on macOS, ~/.cache elsewhere)
+ */
+function getUserCacheDir(): string {
+  if (process.env.XDG_CACHE_HOME) {
+    return process.env.XDG_CACHE_HOME;
+  }
+  if (process.platform === 'win32' && process.env.LOCALAPPDATA) {
+    return process.env.LOCALAPPDATA;
+  }
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Caches');
+  }
+  return path.join(os.homedir(), '.cache');
+}
+
+/**
+ * Get the embedding cache file: EMBEDDINGS_CACHE (relative paths resolve from the working directory),
+ * or sfvibe-templates-mcp/embeddings.json in the user cache directory so the install itself can stay read-only
+ */
+export function getEmbeddingsCachePath(): string {
+  if (config.EMBEDDINGS_CACHE) {
+    return path.resolve(config.EMBEDDINGS_CACHE);
+  }
+  return path.join(getUserCacheDir(), 'sfvibe-templates-mcp', 'embeddings.json');
+}
+
 /**
  * Get the project root directory path
  */
 export function getProjectRootPath(): string {
   return getProjectRoot();
 }
+
+/**
+ * Transport modes
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Options controlling how the server is exposed
+ */
+export interface ServerOptions {
+  transport: TransportMode;
+  host: string;
+  port: number;
+}
+
+/**
+ * Resolve server options from config, overridden by CLI flags
+ * Supported flags: --transport <stdio|http>, --http, --host <host>, --port <port>
+ * @param argv - CLI arguments (without node and script path)
+ * @returns Resolved server options
+ * @throws Error on unknown flags or invalid values
+ */
+export function resolveServerOptions(argv: string[]): ServerOptions {
+  const options: ServerOptions = {
+    transport: config.MCP_TRANSPORT,
+    host: config.HTTP_HOST,
+    port: config.HTTP_PORT,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inlineValue ?? argv[++i];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--http':
+        options.transport = 'http';
+        break;
+      case '--stdio':
+        options.transport = 'stdio';
+        break;
+      case '--transport': {
+        const transport = value();
+        if (transport !== 'stdio' && transport !== 'http') {
+          throw new Error(`Invalid transport "${transport}" (expected stdio or http)`);
+        }
+        options.transport = transport;
+        break;
+      }
+      case '--host':
+        options.host = value();
+        break;
+      case '--port': {
+        const raw = value();
+        const port = Number(raw);
+        if (!/^\d+$/.test(raw) || port > 65535) {
+          throw new Error(`Invalid port "${raw}"`);
+        }
+        options.port = port;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,33 @@
+/**
+ * Template namespace matching for scoped access
+ * @module utils/namespaces
+ */
+
+/**
+ * Namespace granting access to every template
+ */
+export const ALL_NAMESPACES = '*';
+
+/**
+ * Normalize a namespace (e.g., "/typescript/nextjs/" → "typescript/nextjs")
+ */
+export function normalizeNamespace(namespace: string): string {
+  return namespace.trim().replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Check whether a template ID falls under any of the given namespaces
+ * @param templateId - Template ID (e.g., "typescript/nextjs/payment/stripe-checkout")
+ * @param namespaces - ID prefixes such as "typescript" or "typescript/nextjs/payment"; undefined allows everything
+ * @returns True if the template is visible
+ */
+export function isInNamespaces(templateId: string, namespaces: string[] | undefined): boolean {
+  if (!namespaces) {
+    return true;
+  }
+
+  return namespaces.some((namespace) => {
+    const prefix = normalizeNamespace(namespace);
+    return prefix === ALL_NAMESPACES || templateId === prefix || templateId.startsWith(`${prefix}/`);
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Cursor pagination for tool responses
+ * @module utils/pagination
+ */
+
+import crypto from 'node:crypto';
+import { z } from 'zod';
+
+/**
+ * Schema for a pagination cursor supplied through tool arguments
+ */
+export const cursorSchema = z
+  .string()
+  .min(1)
+  .describe('"nextCursor" from the previous response, to get the next page (omit for the first page)');
+
+/**
+ * Decoded cursor: where the next page starts and which request it continues
+ */
+interface CursorState {
+  /** Offset of the first item on the page */
+  o: number;
+  /** Fingerprint of the query and filters */
+  k: string;
+}
+
+/**
+ * One page of items
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the following page (absent on the last page) */
+  nextCursor?: string;
+}
+
+/**
+ * Fingerprint the parameters a cursor is only valid for (query, filters, ranking options)
+ */
+function fingerprint(params: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(params ?? null)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Create an opaque cursor for the page starting at an offset
+ * @param offset - Index of the first item on the next page
+ * @param params - Query and filters the cursor continues
+ * @returns Cursor string
+ */
+export function encodeCursor(offset: number, params: unknown): string {
+  const state: CursorState = { o: offset, k: fingerprint(params) };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Read the offset from a cursor
+ * @param cursor - Cursor from a previous response (undefined for the first page)
+ * @param params - Query and filters of this request, which must match the cursor's
+ * @returns Offset of the first item on the page
+ * @throws Error if the cursor is malformed or was issued for other parameters
+ */
+export function decodeCursor(cursor: string | undefined, params: unknown): number {
+  if (cursor === undefined) {
+    return 0;
+  }
+
+  let state: Partial<CursorState>;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as Partial<CursorState>;
+  } catch {
+    throw new Error('Invalid cursor; omit it to start from the first page');
+  }
+
+  if (typeof state.o !== 'number' || !Number.isInteger(state.o) || state.o < 0 || typeof state.k !== 'string') {
+    throw new Error('Invalid cursor; omit it to start from the first page');
+  }
+  if (state.k !== fingerprint(params)) {
+    throw new Error('Cursor belongs to a different query or filters; omit it to start from the first page');
+  }
+
+  return state.o;
+}
+
+/**
+ * Cut one page out of a full list
+ * @param items - Every item, in a stable order
+ * @param limit - Page size
+ * @param cursor - Cursor from the previous page (undefined for the first page)
+ * @param params - Query and filters the list was built from
+ * @returns The page and the cursor of the next one
+ */
+export function paginate<T>(items: T[], limit: number, cursor: string | undefined, params: unknown): Page<T> {
+  const offset = decodeCursor(cursor, params);
+  const end = offset + limit;
+
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(end, params) : undefined,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Detect a project's stack from its package.json and file listing
+ * @module utils/project-detection
+ */
+
+import path from 'node:path';
+
+/**
+ * Dependency sections of a package.json
+ */
+export type DependencySection = 'dependencies' | 'devDependencies' | 'peerDependencies';
+
+export const DEPENDENCY_SECTIONS: DependencySection[] = ['dependencies', 'devDependencies', 'peerDependencies'];
+
+/**
+ * The parts of a package.json the tools read
+ */
+export type PackageJson = Partial<Record<DependencySection, Record<string, string>>>;
+
+/**
+ * Stack detected in a project
+ */
+export interface ProjectStack {
+  /** Framework (e.g., "nextjs"), matching template metadata */
+  framework?: string;
+  /** Language, matching template metadata */
+  language?: 'typescript' | 'python';
+  /** ORM in use ("prisma" or "drizzle") */
+  orm?: string;
+  /** Auth provider in use (e.g., "nextauth", "supabase") */
+  auth?: string;
+  /** Directory holding app/, lib/ and components/ ("." for the project root) */
+  srcDir?: string;
+  /** Every package declared in package.json, with its range */
+  packages: Record<string, string>;
+  /** Normalized file paths relative to the project root */
+  files: Set<string>;
+  /** How each stack entry was detected */
+  evidence: string[];
+}
+
+/**
+ * A stack entry and the signals that reveal it
+ */
+interface StackSignal {
+  value: string;
+  packages: string[];
+  files: RegExp[];
+}
+
+const FRAMEWORK_SIGNALS: StackSignal[] = [
+  { value: 'nextjs', packages: ['next'], files: [/^next\.config\.(js|mjs|cjs|ts)$/] },
+  { value: 'fastapi', packages: [], files: [/^(app\/)?main\.py$/] },
+];
+
+/**
+ * Package and file signals per ORM
+ */
+export const ORM_SIGNALS: StackSignal[] = [
+  { value: 'prisma', packages: ['@prisma/client', 'prisma'], files: [/(^|\/)schema\.prisma$/] },
+  { value: 'drizzle', packages: ['drizzle-orm', 'drizzle-kit'], files: [/^drizzle\.config\.(ts|js|mjs)$/] },
+];
+
+/**
+ * Package and file signals per auth provider
+ */
+export const AUTH_SIGNALS: StackSignal[] = [
+  { value: 'nextauth', packages: ['next-auth', '@auth/core'], files: [/(^|\/)app\/api\/auth\/\[\.\.\.nextauth\]\/route\.(ts|js)$/] },
+  { value: 'supabase', packages: ['@supabase/ssr', '@supabase/auth-helpers-nextjs'], files: [] },
+  { value: 'clerk', packages: ['@clerk/nextjs'], files: [] },
+  { value: 'lucia', packages: ['lucia'], files: [] },
+];
+
+/**
+ * Parse package.json contents supplied by an agent
+ * @param contents - Raw package.json text
+ * @returns Parsed package.json
+ * @throws Error if the contents are not a JSON object
+ */
+export function parsePackageJson(contents: string): PackageJson {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`packageJson is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('packageJson must be a JSON object');
+  }
+
+  return parsed as PackageJson;
+}
+
+/**
+ * Normalize a listed file path to a POSIX path relative to the project root
+ */
+export function normalizeProjectPath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/)+/, '').replace(/\/$/, '');
+}
+
+/**
+ * Find the first signal present in the project
+ */
+function matchSignal(
+  signals: StackSignal[],
+  packages: Record<string, string>,
+  files: Set<string>
+): { value: string; evidence: string } | undefined {
+  for (const signal of signals) {
+    const pkg = signal.packages.find((name) => name in packages);
+    if (pkg) {
+      return { value: signal.value, evidence: `package ${pkg}` };
+    }
+
+    for (const file of files) {
+      if (signal.files.some((pattern) => pattern.test(file))) {
+        return { value: signal.value, evidence: `file ${file}` };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Detect the framework, language, ORM and auth provider a project uses
+ * @param packageJson - Parsed package.json
+ * @param files - File paths relative to the project root
+ * @returns Detected stack
+ */
+export function detectProjectStack(packageJson: PackageJson, files: string[] = []): ProjectStack {
+  const packages: Record<string, string> = {};
+  for (const section of DEPENDENCY_SECTIONS) {
+    Object.assign(packages, packageJson[section] ?? {});
+  }
+
+  const stack: ProjectStack = {
+    packages,
+    files: new Set(files.map(normalizeProjectPath).filter(Boolean)),
+    evidence: [],
+  };
+
+  const framework = matchSignal(FRAMEWORK_SIGNALS, packages, stack.files);
+  if (framework) {
+    stack.framework = framework.value;
+    stack.evidence.push(`framework ${framework.value} (${framework.evidence})`);
+  }
+
+  if ('typescript' in packages || stack.files.has('tsconfig.json')) {
+    stack.language = 'typescript';
+  } else if (stack.files.has('pyproject.toml') || stack.files.has('requirements.txt')) {
+    stack.language = 'python';
+  }
+
+  const orm = matchSignal(ORM_SIGNALS, packages, stack.files);
+  if (orm) {
+    stack.orm = orm.value;
+    stack.evidence.push(`orm ${orm.value} (${orm.evidence})`);
+  }
+
+  const auth = matchSignal(AUTH_SIGNALS, packages, stack.files);
+  if (auth) {
+    stack.auth = auth.value;
+    stack.evidence.push(`auth ${auth.value} (${auth.evidence})`);
+  }
+
+  if (stack.files.size > 0) {
+    stack.srcDir = Array.from(stack.files).some((file) => file.startsWith('src/')) ? 'src' : '.';
+  }
+
+  return stack;
+}
+
+/**
+ * Find which entry of a signal list a set of packages belongs to
+ * @param signals - ORM_SIGNALS or AUTH_SIGNALS
+ * @param packages - Package names (e.g., a template's dependencies)
+ * @returns The matching signal value, if any
+ */
+export function classifyPackages(signals: StackSignal[], packages: string[]): string | undefined {
+  return signals.find((signal) => signal.packages.some((name) => packages.includes(name)))?.value;
+}
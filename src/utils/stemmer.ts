@@ -0,0 +1,166 @@
+/**
+ * Porter stemmer for English search terms
+ * (M.F. Porter, "An algorithm for suffix stripping", 1980)
+ * @module utils/stemmer
+ */
+
+/**
+ * Check whether the letter at an index acts as a consonant
+ */
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ('aeiou'.includes(char)) {
+    return false;
+  }
+  if (char === 'y') {
+    return index === 0 || !isConsonant(word, index - 1);
+  }
+  return true;
+}
+
+/**
+ * Measure m of a stem: the number of vowel-consonant sequences ([C](VC){m}[V])
+ */
+function measure(stem: string): number {
+  let count = 0;
+  let index = 0;
+
+  while (index < stem.length && isConsonant(stem, index)) index++;
+  while (index < stem.length) {
+    while (index < stem.length && !isConsonant(stem, index)) index++;
+    if (index >= stem.length) break;
+    count++;
+    while (index < stem.length && isConsonant(stem, index)) index++;
+  }
+
+  return count;
+}
+
+/**
+ * Check whether a stem contains a vowel
+ */
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a stem ends with a double consonant (e.g., "-tt")
+ */
+function endsWithDoubleConsonant(stem: string): boolean {
+  const last = stem.length - 1;
+  return last > 0 && stem[last] === stem[last - 1] && isConsonant(stem, last);
+}
+
+/**
+ * Check whether a stem ends consonant-vowel-consonant, the last not w, x or y (e.g., "-hop")
+ */
+function endsCvc(stem: string): boolean {
+  const last = stem.length - 1;
+  return (
+    last >= 2 &&
+    isConsonant(stem, last - 2) &&
+    !isConsonant(stem, last - 1) &&
+    isConsonant(stem, last) &&
+    !'wxy'.includes(stem[last])
+  );
+}
+
+/**
+ * Replace the first matching suffix when the remaining stem has a measure above minMeasure
+ */
+function replaceSuffix(word: string, rules: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP_2_RULES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+];
+
+const STEP_3_RULES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP_4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+/**
+ * Reduce an English word to its stem (e.g., "subscriptions" → "subscript", "payments" → "payment")
+ * @param word - Lowercase word
+ * @returns Stem (words of two letters or fewer are returned unchanged)
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !'lsz'.includes(w[w.length - 1])) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: -y after a vowel-containing stem
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2 and 3: derivational suffixes
+  w = replaceSuffix(w, STEP_2_RULES, 0);
+  w = replaceSuffix(w, STEP_3_RULES, 0);
+
+  // Step 4: remove suffixes from long stems
+  for (const suffix of STEP_4_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const stemmed = w.slice(0, -suffix.length);
+      const allowed = suffix !== 'ion' || stemmed.endsWith('s') || stemmed.endsWith('t');
+      if (allowed && measure(stemmed) > 1) w = stemmed;
+      break;
+    }
+  }
+
+  // Step 5a: final -e
+  if (w.endsWith('e')) {
+    const stemmed = w.slice(0, -1);
+    const m = measure(stemmed);
+    if (m > 1 || (m === 1 && !endsCvc(stemmed))) w = stemmed;
+  }
+
+  // Step 5b: -ll on long stems
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith('l')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
@@ -0,0 +1,117 @@
+/**
+ * Tag and dependency filters and facet counts for template listings and search
+ * @module utils/template-filters
+ */
+
+import { z } from 'zod';
+
+import type { FacetCounts, TemplateFacets, TemplateFilters, TemplateMetadata } from '../types/index.js';
+import { DEPENDENCY_SECTIONS } from './project-detection.js';
+import { isInNamespaces } from './namespaces.js';
+
+/**
+ * Schema for tag filters supplied through tool arguments
+ */
+export const tagsFilterSchema = z
+  .array(z.string().min(1))
+  .describe('Tags to filter by; prefix a tag with "!" to exclude it (e.g., ["stripe", "!subscription"])');
+
+/**
+ * Schema for how tag filters combine
+ */
+export const tagMatchSchema = z
+  .enum(['any', 'all'])
+  .describe('Whether templates need "all" listed tags (default) or "any" of them; excluded tags always apply');
+
+/**
+ * Schema for dependency filters supplied through tool arguments
+ */
+export const dependenciesFilterSchema = z
+  .array(z.string().min(1))
+  .describe('npm packages the template must use (e.g., ["drizzle-orm"]); prefix with "!" to exclude');
+
+/**
+ * Split filter values into required and excluded ("!"-prefixed) values, lowercased
+ */
+function splitNegations(values: string[]): { include: string[]; exclude: string[] } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const value of values) {
+    const normalized = value.trim().toLowerCase();
+    if (normalized.startsWith('!')) {
+      exclude.push(normalized.slice(1));
+    } else {
+      include.push(normalized);
+    }
+  }
+  return { include, exclude };
+}
+
+/**
+ * Check whether a template passes category, language, framework, namespace, tag and dependency filters
+ * @param template - Template metadata
+ * @param filters - Filters (undefined passes everything)
+ * @returns True if the template matches every filter
+ */
+export function matchesTemplateFilters(template: TemplateMetadata, filters: TemplateFilters | undefined): boolean {
+  if (!filters) return true;
+
+  if (filters.category && template.category !== filters.category) return false;
+  if (filters.language && template.language !== filters.language) return false;
+  if (filters.framework && template.framework !== filters.framework) return false;
+  if (!isInNamespaces(template.id, filters.namespaces)) return false;
+
+  if (filters.tags && filters.tags.length > 0) {
+    const tags = new Set(template.tags.map((tag) => tag.toLowerCase()));
+    const { include, exclude } = splitNegations(filters.tags);
+
+    if (exclude.some((tag) => tags.has(tag))) return false;
+    if (include.length > 0) {
+      const matches = filters.tagMatch === 'any'
+        ? include.some((tag) => tags.has(tag))
+        : include.every((tag) => tags.has(tag));
+      if (!matches) return false;
+    }
+  }
+
+  if (filters.dependencies && filters.dependencies.length > 0) {
+    const packages = new Set(
+      DEPENDENCY_SECTIONS.flatMap((section) => Object.keys(template[section] ?? {})).map((name) => name.toLowerCase())
+    );
+    const { include, exclude } = splitNegations(filters.dependencies);
+
+    if (exclude.some((name) => packages.has(name))) return false;
+    if (!include.every((name) => packages.has(name))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Count values, most common first (ties alphabetical)
+ */
+function countValues(values: string[]): FacetCounts {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Object.fromEntries(
+    Array.from(counts).sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+  );
+}
+
+/**
+ * Count templates per category, framework, language and tag
+ * @param templates - Templates to count
+ * @returns Facet counts, most common values first
+ */
+export function countFacets(
+  templates: Array<Pick<TemplateMetadata, 'category' | 'framework' | 'language' | 'tags'>>
+): TemplateFacets {
+  return {
+    category: countValues(templates.map((t) => t.category)),
+    framework: countValues(templates.map((t) => t.framework)),
+    language: countValues(templates.map((t) => t.language)),
+    tag: countValues(templates.flatMap((t) => Array.from(new Set(t.tags)))),
+  };
+}
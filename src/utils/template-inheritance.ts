@@ -0,0 +1,136 @@
+/**
+ * Merging of templates that extend another template
+ * @module utils/template-inheritance
+ */
+
+import path from 'node:path';
+
+import type { TemplateFile, TemplateMetadata } from '../types/index.js';
+
+/**
+ * Parent a template extends, as named by its extends field
+ */
+export interface ParentReference {
+  /** Parent template ID */
+  templateId: string;
+  /** Pinned version or semver range (undefined to follow the parent's current version) */
+  version?: string;
+}
+
+/**
+ * Parse an extends field: a template ID, optionally pinned with "@version"
+ * (e.g., "typescript/nextjs/payment/stripe-base@1.0.0")
+ * @param reference - Value of the extends field
+ * @returns Parent ID and pinned version
+ */
+export function parseParentReference(reference: string): ParentReference {
+  const [templateId, version] = reference.split('@', 2);
+  return version === undefined ? { templateId } : { templateId, version };
+}
+
+/**
+ * Merge two lists of named entries, letting the child replace entries with the same name
+ */
+function mergeByName<T extends { name: string }>(parent: T[] | undefined, child: T[] | undefined): T[] {
+  const merged = new Map<string, T>();
+  for (const entry of [...(parent ?? []), ...(child ?? [])]) {
+    merged.set(entry.name, entry);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Merge two optional dependency maps (child ranges win)
+ */
+function mergeDependencies(
+  parent: Record<string, string> | undefined,
+  child: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  if (!parent && !child) {
+    return undefined;
+  }
+  return { ...parent, ...child };
+}
+
+/**
+ * Merge a child template's own metadata over its resolved parent
+ * - dependencies, env vars, variables, safeguards and features merge by name, with the child winning
+ * - tags and related templates are combined
+ * - files merge by declared path; the child replaces entries with the same path
+ *   and drops inherited entries listed in removeFiles
+ * - the variant and the abstract flag are not inherited, so a child is offered under its own name
+ * - removed versions are not inherited; they describe the parent's own history
+ * - every other field comes from the child when set
+ * @param parent - Fully resolved parent metadata
+ * @param child - Child metadata as written in its metadata.json
+ * @returns Resolved child metadata
+ */
+export function mergeTemplateMetadata(
+  parent: TemplateMetadata,
+  child: Partial<TemplateMetadata> & Pick<TemplateMetadata, 'id'>
+): TemplateMetadata {
+  const removed = new Set(child.removeFiles ?? []);
+  const files = new Map<string, TemplateFile>();
+
+  for (const file of parent.files) {
+    if (!removed.has(file.path)) {
+      files.set(file.path, file);
+    }
+  }
+  for (const file of child.files ?? []) {
+    files.set(file.path, file);
+  }
+
+  // Safeguards follow their file: dropping the file drops its safeguards
+  const sources = new Set(Array.from(files.values()).map((file) => file.source));
+
+  const related = new Set([...(parent.relatedTemplates ?? []), ...(child.relatedTemplates ?? [])]);
+  related.delete(child.id);
+
+  return {
+    ...parent,
+    ...child,
+    dependencies: { ...parent.dependencies, ...child.dependencies },
+    devDependencies: mergeDependencies(parent.devDependencies, child.devDependencies),
+    peerDependencies: mergeDependencies(parent.peerDependencies, child.peerDependencies),
+    envVariables: mergeByName(parent.envVariables, child.envVariables),
+    files: Array.from(files.values()),
+    tags: Array.from(new Set([...parent.tags, ...(child.tags ?? [])])),
+    usage: child.usage ?? parent.usage,
+    variant: child.variant,
+    abstract: child.abstract,
+    removedVersions: child.removedVersions,
+    relatedTemplates: related.size > 0 ? Array.from(related) : undefined,
+    variables: parent.variables || child.variables ? mergeByName(parent.variables, child.variables) : undefined,
+    safeguards: parent.safeguards || child.safeguards
+      ? mergeByName(parent.safeguards, child.safeguards).filter((s) => sources.has(s.source))
+      : undefined,
+    features: parent.features || child.features ? mergeByName(parent.features, child.features) : undefined,
+  };
+}
+
+/**
+ * Merge a child template's own code over its parent's code
+ * Inherited sources are kept only while a resolved file still uses them,
+ * and a child source with the same name replaces the inherited one.
+ * @param files - Resolved file declarations of the child
+ * @param parentCode - Parent code keyed by source path
+ * @param childCode - Child's own code keyed by source path
+ * @returns Merged code keyed by source path
+ */
+export function mergeTemplateCode(
+  files: TemplateFile[],
+  parentCode: Record<string, string>,
+  childCode: Record<string, string>
+): Record<string, string> {
+  const used = new Set(files.map((file) => path.normalize(file.source)));
+  const code: Record<string, string> = {};
+
+  for (const [source, content] of Object.entries(parentCode)) {
+    if (used.has(source)) {
+      code[source] = content;
+    }
+  }
+
+  return { ...code, ...childCode };
+}
@@ -0,0 +1,9 @@
+/**
+ * Template root naming shared by configuration and the template service
+ * @module utils/template-roots
+ */
+
+/**
+ * Name given to a template root passed as a plain directory (and to TEMPLATES_DIR)
+ */
+export const BUNDLED_ROOT = 'bundled';
@@ -0,0 +1,126 @@
+/**
+ * Template variable validation and placeholder rendering
+ * @module utils/template-variables
+ */
+
+import { z } from 'zod';
+
+import type { TemplateVariable, TemplateVariableValues } from '../types/index.js';
+
+/**
+ * Matches {{name}} placeholders (JSX object literals such as {{ width: 1 }} do not match)
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Schema for variable values supplied through tool arguments
+ */
+export const variableValuesSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+
+/**
+ * Build the zod schema for a single variable
+ */
+function buildVariableSchema(variable: TemplateVariable): z.ZodType {
+  let schema: z.ZodType;
+
+  switch (variable.type) {
+    case 'number':
+      schema = z.coerce.number();
+      break;
+    case 'boolean':
+      // Resource URIs carry values as strings
+      schema = z.union([z.boolean(), z.enum(['true', 'false']).transform((value) => value === 'true')]);
+      break;
+    default: {
+      let stringSchema = z.coerce.string();
+      if (variable.pattern) {
+        stringSchema = stringSchema.regex(new RegExp(variable.pattern), `must match ${variable.pattern}`);
+      }
+      schema = stringSchema;
+    }
+  }
+
+  return variable.default !== undefined ? schema.default(variable.default) : schema;
+}
+
+/**
+ * Build a zod schema validating values for a set of variable declarations
+ * @param variables - Variable declarations
+ * @returns Object schema with one key per variable
+ */
+export function buildVariablesSchema(variables: TemplateVariable[]): z.ZodObject {
+  const shape: Record<string, z.ZodType> = {};
+  for (const variable of variables) {
+    shape[variable.name] = buildVariableSchema(variable);
+  }
+  return z.object(shape);
+}
+
+/**
+ * Check supplied values against declarations and apply defaults
+ * @param variables - Variable declarations
+ * @param values - Supplied values
+ * @returns Rendered string value per variable, or the list of problems found
+ */
+export function resolveVariableValues(
+  variables: TemplateVariable[],
+  values: TemplateVariableValues
+): { values: Record<string, string> } | { errors: string[] } {
+  const errors: string[] = [];
+  const declared = new Set(variables.map((v) => v.name));
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      const known = variables.length > 0 ? variables.map((v) => v.name).join(', ') : 'none';
+      errors.push(`Unknown variable "${name}" (declared: ${known})`);
+    }
+  }
+
+  for (const variable of variables) {
+    if (variable.default === undefined && values[variable.name] === undefined) {
+      errors.push(`Missing required variable "${variable.name}": ${variable.description}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const result = buildVariablesSchema(variables).safeParse(values);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map((issue) => `Variable "${issue.path.join('.')}" ${issue.message}`),
+    };
+  }
+
+  const rendered: Record<string, string> = {};
+  for (const [name, value] of Object.entries(result.data)) {
+    rendered[name] = String(value);
+  }
+  return { values: rendered };
+}
+
+/**
+ * Find the variable names referenced by placeholders in a text
+ * @param text - Text to scan
+ * @returns Unique variable names in order of appearance
+ */
+export function findPlaceholders(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Substitute {{name}} placeholders with variable values
+ * @param text - Text containing placeholders
+ * @param values - Rendered variable values
+ * @returns Text with known placeholders replaced (unknown ones are left as-is)
+ */
+export function renderPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name] : placeholder
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Split file contents into overlapping line ranges for search
+ * @module utils/text-chunks
+ */
+
+/**
+ * A range of lines from a file
+ */
+export interface TextChunk {
+  /** First line (1-based) */
+  startLine: number;
+  /** Last line (inclusive) */
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Lines per chunk: small enough to point at one function, large enough to keep its context
+ */
+const DEFAULT_CHUNK_LINES = 40;
+
+/**
+ * Lines shared by consecutive chunks, so a match across a boundary lands whole in one of them
+ */
+const DEFAULT_OVERLAP = 10;
+
+/**
+ * Split text into overlapping chunks of lines
+ * @param content - File contents
+ * @param size - Lines per chunk
+ * @param overlap - Lines repeated at the start of the next chunk
+ * @returns Chunks in file order, skipping ones with only whitespace
+ */
+export function chunkLines(content: string, size = DEFAULT_CHUNK_LINES, overlap = DEFAULT_OVERLAP): TextChunk[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const chunks: TextChunk[] = [];
+  const step = Math.max(1, size - overlap);
+
+  for (let start = 0; start < lines.length; start += step) {
+    const end = Math.min(lines.length, start + size);
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      chunks.push({ startLine: start + 1, endLine: end, text });
+    }
+    if (end === lines.length) break;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,173 @@
+/**
+ * Line diffs and unified diff output
+ * @module utils/unified-diff
+ */
+
+/**
+ * One line of a line diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * Lines of context kept around each change in a unified diff
+ */
+const DEFAULT_CONTEXT = 3;
+
+/**
+ * Split text into lines, ignoring the final newline
+ */
+export function splitLines(text: string): string[] {
+  if (text.length === 0) {
+    return [];
+  }
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Diff two lists of lines using their longest common subsequence
+ * @param before - Original lines
+ * @param after - Changed lines
+ * @returns Lines in order, each marked equal, added or removed
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Skip the common prefix and suffix so the table only covers the changed middle
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const width = b.length + 1;
+
+  // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = before.slice(0, start).map((text) => ({ type: 'equal', text }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push({ type: 'remove', text: a[i++] });
+    } else {
+      lines.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'add', text: b[j++] });
+  lines.push(...before.slice(endBefore).map((text): DiffLine => ({ type: 'equal', text })));
+
+  return lines;
+}
+
+/**
+ * Share of lines two texts have in common (1 when identical, 0 when nothing matches)
+ * @param before - First text
+ * @param after - Second text
+ * @returns Similarity between 0 and 1
+ */
+export function lineSimilarity(before: string, after: string): number {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  if (a.length + b.length === 0) {
+    return 1;
+  }
+
+  const common = diffLines(a, b).filter((line) => line.type === 'equal').length;
+  return (2 * common) / (a.length + b.length);
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param oldPath - Path shown for the original (null when the file is added)
+ * @param newPath - Path shown for the changed file (null when the file is removed)
+ * @param before - Original content
+ * @param after - Changed content
+ * @param context - Unchanged lines kept around each change
+ * @returns Unified diff, or an empty string when the contents are equal
+ */
+export function createUnifiedDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  before: string,
+  after: string,
+  context = DEFAULT_CONTEXT
+): string {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  if (lines.every((line) => line.type === 'equal')) {
+    return '';
+  }
+
+  const output = [
+    `--- ${oldPath === null ? '/dev/null' : `a/${oldPath}`}`,
+    `+++ ${newPath === null ? '/dev/null' : `b/${newPath}`}`,
+  ];
+
+  // Line numbers (1-based) in the original and changed file before each diff line
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and extend the hunk while changes are close together
+    while (index < lines.length && lines[index].type === 'equal') index++;
+    if (index >= lines.length) break;
+
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    let lastChange = index;
+    while (hunkEnd < lines.length && hunkEnd - lastChange <= 2 * context) {
+      if (lines[hunkEnd].type !== 'equal') lastChange = hunkEnd;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(lines.length, lastChange + context + 1);
+
+    const hunk = lines.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((line) => line.type !== 'add').length;
+    const newCount = hunk.filter((line) => line.type !== 'remove').length;
+    const oldStart = oldCount === 0 ? oldNumbers[hunkStart] - 1 : oldNumbers[hunkStart];
+    const newStart = newCount === 0 ? newNumbers[hunkStart] - 1 : newNumbers[hunkStart];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+
+    index = hunkEnd;
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,140 @@
+/**
+ * Offline semver range helpers for dependency checks
+ * @module utils/version-ranges
+ */
+
+import semver from 'semver';
+
+/**
+ * Outcome of comparing an installed range with a required range
+ */
+export type RangeComparisonStatus = 'compatible' | 'upgrade' | 'conflict' | 'unknown';
+
+/**
+ * Result of comparing an installed range with a required range
+ */
+export interface RangeComparison {
+  status: RangeComparisonStatus;
+  /** Range to use instead (absent when nothing can satisfy both) */
+  suggested?: string;
+  /** Human-readable explanation */
+  reason: string;
+}
+
+/**
+ * Parse a range, returning null for non-semver specs (workspace:, git URLs, tags)
+ */
+function parseRange(range: string): semver.Range | null {
+  try {
+    return new semver.Range(range);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a spec is a semver range
+ * @param range - Spec from package.json or template metadata
+ * @returns False for specs that cannot be compared offline (workspace:, git URLs, tags)
+ */
+export function isSemverRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Intersect version ranges
+ * @param ranges - Ranges that must all be satisfied (filter with isSemverRange first)
+ * @returns A range satisfying every input, or null if they cannot all be met or one is not a semver range
+ */
+export function intersectRanges(ranges: string[]): string | null {
+  const parsed = ranges.map(parseRange);
+  if (parsed.length === 0 || parsed.some((r) => r === null)) {
+    return null;
+  }
+
+  // Each range is a union of comparator sets; intersect them pairwise
+  let sets: string[] = (parsed[0] as semver.Range).set.map((set) => set.map((c) => c.value).join(' '));
+
+  for (const range of parsed.slice(1) as semver.Range[]) {
+    const next: string[] = [];
+    for (const left of sets) {
+      for (const set of range.set) {
+        const right = set.map((c) => c.value).join(' ');
+        const combined = `${left} ${right}`.trim();
+        if (semver.validRange(combined) && semver.minVersion(combined)) {
+          next.push(combined);
+        }
+      }
+    }
+    sets = next;
+  }
+
+  if (sets.length === 0) {
+    return null;
+  }
+
+  return sets.map((set) => suggestRange(set || '*')).join(' || ');
+}
+
+/**
+ * Express a range in its shortest common form (e.g. "^17.2.0" instead of ">=17.2.0 <18.0.0-0")
+ * @param range - Valid semver range
+ * @returns Equivalent caret/tilde range when one exists, otherwise the input
+ */
+export function suggestRange(range: string): string {
+  const min = semver.minVersion(range);
+  if (!min) {
+    return range;
+  }
+
+  for (const candidate of [`^${min.version}`, `~${min.version}`]) {
+    if (semver.subset(range, candidate) && semver.subset(candidate, range)) {
+      return candidate;
+    }
+  }
+
+  return range;
+}
+
+/**
+ * Compare the range a project declares with the range a template requires
+ * @param installed - Range from the project's package.json
+ * @param required - Range the template needs
+ * @returns Comparison status and suggested range
+ */
+export function compareRanges(installed: string, required: string): RangeComparison {
+  if (!parseRange(installed) || !parseRange(required)) {
+    return {
+      status: 'unknown',
+      reason: `Cannot compare "${installed}" with "${required}" (not a semver range)`,
+    };
+  }
+
+  if (semver.subset(installed, required)) {
+    return { status: 'compatible', suggested: installed, reason: `${installed} satisfies ${required}` };
+  }
+
+  const intersection = intersectRanges([installed, required]);
+  if (intersection) {
+    return {
+      status: 'upgrade',
+      suggested: intersection,
+      reason: `${installed} allows versions outside ${required}; narrow it to ${intersection}`,
+    };
+  }
+
+  const installedMin = semver.minVersion(installed);
+  const requiredMin = semver.minVersion(required);
+  if (installedMin && requiredMin && semver.lt(installedMin, requiredMin)) {
+    return {
+      status: 'upgrade',
+      suggested: suggestRange(required),
+      reason: `${installed} is older than ${required}; upgrade to ${suggestRange(required)}`,
+    };
+  }
+
+  return {
+    status: 'conflict',
+    reason: `${installed} is newer than the template supports (${required})`,
+  };
+}
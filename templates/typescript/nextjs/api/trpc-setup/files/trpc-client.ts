@@ -1,6 +1,6 @@
 'use client';
 
 import { createTRPCReact } from '@trpc/react-query';
-import type { AppRouter } from '@/server/routers/_app';
+import type { AppRouter } from '{{importAlias}}/server/routers/_app';
 
 export const trpc = createTRPCReact<AppRouter>();
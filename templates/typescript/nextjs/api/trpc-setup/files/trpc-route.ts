@@ -1,6 +1,6 @@
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
-import { appRouter } from '@/server/routers/_app';
-import { createTRPCContext } from '@/server/trpc';
+import { appRouter } from '{{importAlias}}/server/routers/_app';
+import { createTRPCContext } from '{{importAlias}}/server/trpc';
 
 const handler = (req: Request) =>
   fetchRequestHandler({
@@ -1,6 +1,6 @@
 import { initTRPC, TRPCError } from '@trpc/server';
 import superjson from 'superjson';
-import { auth } from '@/auth';
+import { auth } from '{{importAlias}}/auth';
 
 export const createTRPCContext = async () => {
   const session = await auth();
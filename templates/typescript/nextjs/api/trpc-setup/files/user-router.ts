@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { router, publicProcedure, protectedProcedure } from '../trpc';
-import { prisma } from '@/lib/prisma';
+import { prisma } from '{{importAlias}}/lib/prisma';
 
 export const userRouter = router({
   getById: publicProcedure
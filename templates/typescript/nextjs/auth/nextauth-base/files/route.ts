@@ -0,0 +1,3 @@
+import { handlers } from '{{importAlias}}/auth';
+
+export const { GET, POST } = handlers;
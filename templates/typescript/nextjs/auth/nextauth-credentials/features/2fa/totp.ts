@@ -0,0 +1,32 @@
+import * as OTPAuth from 'otpauth';
+
+const ISSUER = process.env.TOTP_ISSUER ?? 'My App';
+
+function buildTotp(secret: OTPAuth.Secret, label: string): OTPAuth.TOTP {
+  return new OTPAuth.TOTP({
+    issuer: ISSUER,
+    label,
+    algorithm: 'SHA1',
+    digits: 6,
+    period: 30,
+    secret,
+  });
+}
+
+/**
+ * Create a secret and the otpauth:// URI to show as a QR code
+ */
+export function createTotpSecret(email: string): { secret: string; uri: string } {
+  const secret = new OTPAuth.Secret({ size: 20 });
+  return { secret: secret.base32, uri: buildTotp(secret, email).toString() };
+}
+
+/**
+ * Check a 6-digit code, allowing one 30-second step of clock drift
+ */
+export function verifyTotp(secret: string, code: string): boolean {
+  if (!/^\d{6}$/.test(code)) return false;
+
+  const totp = buildTotp(OTPAuth.Secret.fromBase32(secret), '');
+  return totp.validate({ token: code, window: 1 }) !== null;
+}
@@ -0,0 +1,70 @@
+'use server';
+
+import { auth } from '{{importAlias}}/auth';
+import { prisma } from '{{importAlias}}/lib/prisma';
+import { createTotpSecret, verifyTotp } from '{{importAlias}}/lib/totp';
+
+async function requireUser() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Not signed in');
+  }
+
+  return prisma.user.findUniqueOrThrow({ where: { id: session.user.id } });
+}
+
+/**
+ * Start enrollment: store a new secret (not enabled yet) and return the URI for the authenticator app
+ */
+export async function startTwoFactorEnrollment() {
+  const user = await requireUser();
+  if (user.totpEnabled) {
+    return { error: 'Two-factor authentication is already enabled' };
+  }
+
+  const { secret, uri } = createTotpSecret(user.email);
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret },
+  });
+
+  return { uri };
+}
+
+/**
+ * Finish enrollment with the first code from the authenticator app
+ */
+export async function confirmTwoFactor(formData: FormData) {
+  const user = await requireUser();
+  const code = String(formData.get('code') ?? '');
+
+  if (!user.totpSecret || !verifyTotp(user.totpSecret, code)) {
+    return { error: 'Invalid code' };
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpEnabled: true },
+  });
+
+  return { success: true };
+}
+
+/**
+ * Turn two-factor authentication off (requires a current code)
+ */
+export async function disableTwoFactor(formData: FormData) {
+  const user = await requireUser();
+  const code = String(formData.get('code') ?? '');
+
+  if (!user.totpEnabled || !user.totpSecret || !verifyTotp(user.totpSecret, code)) {
+    return { error: 'Invalid code' };
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpEnabled: false, totpSecret: null },
+  });
+
+  return { success: true };
+}
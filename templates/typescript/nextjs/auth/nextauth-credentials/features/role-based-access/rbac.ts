@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation';
+import { auth } from '{{importAlias}}/auth';
+
+export const ROLES = ['USER', 'ADMIN'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Roles ordered by privilege: a role includes every role ranked below it
+const ROLE_RANK: Record<Role, number> = {
+  USER: 0,
+  ADMIN: 1,
+};
+
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Require a signed-in user with at least the given role.
+ * Use in server components, route handlers and server actions.
+ */
+export async function requireRole(required: Role) {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  if (!hasRole(session.user.role, required)) {
+    throw new Error('Forbidden');
+  }
+
+  return session;
+}
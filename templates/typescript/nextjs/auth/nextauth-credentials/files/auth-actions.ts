@@ -1,8 +1,8 @@
 'use server';
 
-import { signIn, signOut } from '@/auth';
+import { signIn, signOut } from '{{importAlias}}/auth';
 import bcrypt from 'bcryptjs';
-import { prisma } from '@/lib/prisma';
+import { prisma } from '{{importAlias}}/lib/prisma';
 import { z } from 'zod';
 
 const signUpSchema = z.object({
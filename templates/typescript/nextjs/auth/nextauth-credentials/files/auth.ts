@@ -3,7 +3,7 @@ import Credentials from 'next-auth/providers/credentials';
 import { PrismaAdapter } from '@auth/prisma-adapter';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
-import { prisma } from '@/lib/prisma';
+import { prisma } from '{{importAlias}}/lib/prisma';
 
 const credentialsSchema = z.object({
   email: z.string().email(),
@@ -12,6 +12,7 @@ const credentialsSchema = z.object({
 
 export const { handlers, auth, signIn, signOut } = NextAuth({
   adapter: PrismaAdapter(prisma),
+  basePath: '/{{authRouteBase}}',
   session: { strategy: 'jwt' },
   pages: {
     signIn: '/login',
@@ -1,3 +0,0 @@
-import { handlers } from '@/auth';
-
-export const { GET, POST } = handlers;
@@ -1,10 +1,11 @@
 import NextAuth from 'next-auth';
 import Google from 'next-auth/providers/google';
 import { PrismaAdapter } from '@auth/prisma-adapter';
-import { prisma } from '@/lib/prisma';
+import { prisma } from '{{importAlias}}/lib/prisma';
 
 export const { handlers, auth, signIn, signOut } = NextAuth({
   adapter: PrismaAdapter(prisma),
+  basePath: '/{{authRouteBase}}',
   providers: [
     Google({
       clientId: process.env.AUTH_GOOGLE_ID!,
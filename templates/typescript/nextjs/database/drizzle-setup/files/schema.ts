@@ -1,7 +1,7 @@
 import { pgTable, text, timestamp, varchar, boolean } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
-export const users = pgTable('users', {
+export const users = pgTable('{{tablePrefix}}users', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   email: varchar('email', { length: 255 }).notNull().unique(),
   name: varchar('name', { length: 255 }),
@@ -12,7 +12,7 @@ export const users = pgTable('users', {
   updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
 });
 
-export const accounts = pgTable('accounts', {
+export const accounts = pgTable('{{tablePrefix}}accounts', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   type: varchar('type', { length: 255 }).notNull(),
@@ -27,7 +27,7 @@ export const accounts = pgTable('accounts', {
   sessionState: varchar('session_state', { length: 255 }),
 });
 
-export const sessions = pgTable('sessions', {
+export const sessions = pgTable('{{tablePrefix}}sessions', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   sessionToken: text('session_token').notNull().unique(),
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
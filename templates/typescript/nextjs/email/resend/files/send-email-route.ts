@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sendEmail } from '@/lib/email';
-import { WelcomeEmail } from '@/emails/welcome';
+import { sendEmail } from '{{importAlias}}/lib/email';
+import { WelcomeEmail } from '{{importAlias}}/emails/welcome';
 
 export async function POST(request: NextRequest) {
   try {
@@ -1,4 +1,4 @@
-import { prisma } from '@/lib/prisma';
+import { prisma } from '{{importAlias}}/lib/prisma';
 import type Stripe from 'stripe';
 
 export async function isEventProcessed(eventId: string): Promise<boolean> {
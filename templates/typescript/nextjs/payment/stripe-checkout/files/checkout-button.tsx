@@ -28,7 +28,7 @@ export function CheckoutButton({
     setError(null);
 
     try {
-      const response = await fetch('/api/checkout', {
+      const response = await fetch('/{{routeBase}}/checkout', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ priceId, quantity, customerEmail }),
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe, idempotencyKey } from '@/lib/stripe';
+import { stripe, idempotencyKey } from '{{importAlias}}/lib/stripe';
 
 interface CheckoutRequest {
   priceId: string;
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe } from '@/lib/stripe';
+import { stripe } from '{{importAlias}}/lib/stripe';
 import type Stripe from 'stripe';
 
 export async function POST(request: NextRequest) {
@@ -5,10 +5,6 @@ if (!process.env.STRIPE_SECRET_KEY) {
 }
 
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: '2024-12-18.acacia',
+  apiVersion: '2023-10-16',
   typescript: true,
 });
-
-export function idempotencyKey(prefix: string): string {
-  return `${prefix}_${crypto.randomUUID()}`;
-}
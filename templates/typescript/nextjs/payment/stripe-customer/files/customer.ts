@@ -1,5 +1,5 @@
-import { stripe } from '@/lib/stripe';
-import { prisma } from '@/lib/prisma';
+import { stripe } from '{{importAlias}}/lib/stripe';
+import { prisma } from '{{importAlias}}/lib/prisma';
 
 export async function getOrCreateCustomer(userId: string): Promise<string> {
   const user = await prisma.user.findUnique({
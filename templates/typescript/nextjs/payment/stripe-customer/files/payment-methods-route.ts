@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
-import { auth } from '@/auth';
-import { stripe } from '@/lib/stripe';
-import { getOrCreateCustomer } from '@/lib/customer';
+import { auth } from '{{importAlias}}/auth';
+import { stripe } from '{{importAlias}}/lib/stripe';
+import { getOrCreateCustomer } from '{{importAlias}}/lib/customer';
 
 export async function GET() {
   try {
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import type { PricingPlan } from '@/config/pricing-config';
+import type { PricingPlan } from '{{importAlias}}/config/pricing-config';
 
 interface PlanCardProps {
   plan: PricingPlan;
@@ -1,8 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { plans } from '@/config/pricing-config';
-import { PlanCard } from '@/components/plan-card';
+import { plans } from '{{importAlias}}/config/pricing-config';
+import { PlanCard } from '{{importAlias}}/components/plan-card';
 
 export function PricingPage() {
   const [billingInterval, setBillingInterval] = useState<'monthly' | 'yearly'>('monthly');
@@ -1,4 +1,4 @@
-import { plans, type PricingPlan } from '@/config/pricing-config';
+import { plans, type PricingPlan } from '{{importAlias}}/config/pricing-config';
 
 export function formatPrice(amount: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
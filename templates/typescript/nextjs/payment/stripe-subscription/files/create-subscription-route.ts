@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe, idempotencyKey } from '@/lib/stripe';
-import { auth } from '@/auth';
-import { prisma } from '@/lib/prisma';
+import { stripe, idempotencyKey } from '{{importAlias}}/lib/stripe';
+import { auth } from '{{importAlias}}/auth';
+import { prisma } from '{{importAlias}}/lib/prisma';
 
 interface SubscriptionRequest {
   priceId: string;
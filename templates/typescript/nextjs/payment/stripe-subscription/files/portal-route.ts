@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
-import { stripe } from '@/lib/stripe';
-import { auth } from '@/auth';
-import { prisma } from '@/lib/prisma';
+import { stripe } from '{{importAlias}}/lib/stripe';
+import { auth } from '{{importAlias}}/auth';
+import { prisma } from '{{importAlias}}/lib/prisma';
 
 export async function POST() {
   try {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe } from '@/lib/stripe';
-import { prisma } from '@/lib/prisma';
+import { stripe } from '{{importAlias}}/lib/stripe';
+import { prisma } from '{{importAlias}}/lib/prisma';
 import type Stripe from 'stripe';
 
 export async function POST(request: NextRequest) {
@@ -1,5 +1,5 @@
 import type Stripe from 'stripe';
-import { upsertSubscription, deleteSubscription } from '@/lib/stripe-db';
+import { upsertSubscription, deleteSubscription } from '{{importAlias}}/lib/stripe-db';
 import type { WebhookEventHandlers } from './webhook-types';
 
 export const defaultHandlers: WebhookEventHandlers = {
@@ -1,5 +1,5 @@
-import { stripe } from '@/lib/stripe';
-import { isEventProcessed, markEventProcessed } from '@/lib/stripe-db';
+import { stripe } from '{{importAlias}}/lib/stripe';
+import { isEventProcessed, markEventProcessed } from '{{importAlias}}/lib/stripe-db';
 import type { WebhookEventHandlers, WebhookResult } from './webhook-types';
 
 export function createWebhookHandler(handlers: WebhookEventHandlers) {
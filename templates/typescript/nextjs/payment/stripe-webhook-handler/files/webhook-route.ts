@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createWebhookHandler, WebhookError } from '@/lib/webhook-handler';
-import { defaultHandlers } from '@/lib/webhook-events';
+import { createWebhookHandler, WebhookError } from '{{importAlias}}/lib/webhook-handler';
+import { defaultHandlers } from '{{importAlias}}/lib/webhook-events';
 
 const handleWebhook = createWebhookHandler(defaultHandlers);
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUploadPresignedUrl, getPublicUrl } from '@/lib/s3';
-import { auth } from '@/auth';
+import { getUploadPresignedUrl, getPublicUrl } from '{{importAlias}}/lib/s3';
+import { auth } from '{{importAlias}}/auth';
 import { v4 as uuidv4 } from 'uuid';
 
 export async function POST(request: NextRequest) {
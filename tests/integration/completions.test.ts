@@ -0,0 +1,105 @@
+/**
+ * Integration tests for argument completion of prompts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { TemplateService } from '../../src/services/template-service.js';
+import { EmbeddingService } from '../../src/services/embedding-service.js';
+import { SearchService } from '../../src/services/search-service.js';
+import { createServer } from '../../src/server.js';
+import { completeTags, completeTemplateIds } from '../../src/utils/completions.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
+
+const AUTH_PROMPT = { type: 'ref/prompt' as const, name: 'implement_auth' };
+
+describe('completions', () => {
+  let templateService: TemplateService;
+  let client: Client;
+
+  /**
+   * Connect a client to a server over an in-memory transport
+   */
+  async function connect(scopes?: string[]): Promise<Client> {
+    const embeddingService = new EmbeddingService();
+    vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+    const searchService = new SearchService(templateService, embeddingService);
+
+    const connected = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (await createServer({ templateService, embeddingService, searchService }, scopes)).connect(serverTransport);
+    await connected.connect(clientTransport);
+    return connected;
+  }
+
+  beforeAll(async () => {
+    templateService = new TemplateService(TEMPLATES_DIR);
+    client = await connect();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should complete implement_auth frameworks and providers', async () => {
+    const frameworks = await client.complete({ ref: AUTH_PROMPT, argument: { name: 'framework', value: 'n' } });
+    expect(frameworks.completion.values).toEqual(['nextjs']);
+
+    const providers = await client.complete({
+      ref: AUTH_PROMPT,
+      argument: { name: 'provider', value: '' },
+      context: { arguments: { framework: 'nextjs' } },
+    });
+    expect(providers.completion.values).toEqual(['credentials', 'google', 'supabase']);
+
+    const none = await client.complete({
+      ref: AUTH_PROMPT,
+      argument: { name: 'provider', value: '' },
+      context: { arguments: { framework: 'remix' } },
+    });
+    expect(none.completion.values).toEqual([]);
+  });
+
+  it('should only complete providers within the client scopes', async () => {
+    const scoped = await connect(['typescript/nextjs/auth/nextauth-google']);
+
+    const providers = await scoped.complete({ ref: AUTH_PROMPT, argument: { name: 'provider', value: '' } });
+    expect(providers.completion.values).toEqual(['google']);
+
+    await scoped.close();
+  });
+
+  it('should list the available providers when none match', async () => {
+    const { messages } = await client.getPrompt({
+      name: 'implement_auth',
+      arguments: { provider: 'auth0', framework: 'nextjs' },
+    });
+    const text = messages[0].content.type === 'text' ? messages[0].content.text : '';
+
+    expect(text).toContain('No template found for provider "auth0"');
+    expect(text).toContain('- google (');
+    expect(text).toContain('- supabase (');
+  });
+
+  it('should complete template IDs by ID prefix or name', async () => {
+    expect(await completeTemplateIds(templateService, 'stripe-c')).toEqual([
+      'typescript/nextjs/payment/stripe-checkout',
+      'typescript/nextjs/payment/stripe-customer',
+    ]);
+    expect(await completeTemplateIds(templateService, 'typescript/nextjs/auth/')).toHaveLength(3);
+    expect(await completeTemplateIds(templateService, 'stripe', { namespaces: ['typescript/nextjs/auth'] })).toEqual([]);
+  });
+
+  it('should complete tags within a category', async () => {
+    const tags = await completeTags(templateService, 'OA', { category: 'auth' });
+
+    expect(tags).toEqual(['oauth']);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Integration tests for reloading templates edited while the server runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { TemplateService } from '../../src/services/template-service.js';
+import { EmbeddingService } from '../../src/services/embedding-service.js';
+import { SearchService } from '../../src/services/search-service.js';
+import { TemplateWatcher } from '../../src/services/template-watcher.js';
+import { createServer } from '../../src/server.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
+
+const STRIPE_BASE = 'typescript/nextjs/payment/stripe-base';
+const CHECKOUT = 'typescript/nextjs/payment/stripe-checkout';
+const CUSTOMER = 'typescript/nextjs/payment/stripe-customer';
+const RESEND = 'typescript/nextjs/email/resend';
+
+describe('hot reload', () => {
+  let tempDir: string;
+  let root: string;
+  let templateService: TemplateService;
+  let embeddingService: EmbeddingService;
+  let searchService: SearchService;
+  let watcher: TemplateWatcher;
+
+  /**
+   * Resolve with the template IDs of the next reload
+   */
+  function nextChange(): Promise<string[]> {
+    return new Promise((resolve) => {
+      const unsubscribe = watcher.subscribe((templateIds) => {
+        unsubscribe();
+        resolve(templateIds);
+      });
+    });
+  }
+
+  /**
+   * Rewrite a template's metadata.json
+   */
+  async function editMetadata(templateId: string, edit: (metadata: Record<string, unknown>) => void): Promise<void> {
+    const metadataPath = path.join(root, templateId, 'metadata.json');
+    const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8')) as Record<string, unknown>;
+    edit(metadata);
+    await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hot-reload-'));
+    root = path.join(tempDir, 'templates');
+    for (const id of [STRIPE_BASE, CHECKOUT]) {
+      await fs.cp(path.join(TEMPLATES_DIR, id), path.join(root, id), { recursive: true });
+    }
+
+    templateService = new TemplateService(root);
+    embeddingService = new EmbeddingService();
+    vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+    searchService = new SearchService(templateService, embeddingService, path.join(tempDir, 'embeddings.json'));
+    await searchService.initialize();
+
+    watcher = new TemplateWatcher(templateService, searchService, 50);
+    await watcher.start();
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reload an edited template and re-index search', async () => {
+    expect(await searchService.search('zanzibar')).toEqual([]);
+    await templateService.loadTemplate(CHECKOUT);
+
+    const change = nextChange();
+    await editMetadata(CHECKOUT, (metadata) => {
+      metadata.description = 'Stripe Checkout for the Zanzibar storefront';
+    });
+
+    expect(await change).toEqual([CHECKOUT]);
+    expect((await templateService.loadTemplate(CHECKOUT))?.description).toContain('Zanzibar');
+    expect((await searchService.search('zanzibar')).map((r) => r.templateId)).toEqual([CHECKOUT]);
+  });
+
+  it('should re-index templates extending an edited base, but not the base itself', async () => {
+    await templateService.loadTemplate(CHECKOUT);
+
+    const change = nextChange();
+    await editMetadata(STRIPE_BASE, (metadata) => {
+      metadata.tags = ['payment', 'stripe', 'zanzibar'];
+    });
+
+    expect((await change).sort()).toEqual([STRIPE_BASE, CHECKOUT]);
+    expect((await searchService.search('zanzibar')).map((r) => r.templateId)).toEqual([CHECKOUT]);
+  });
+
+  it('should pick up added and deleted templates', async () => {
+    let change = nextChange();
+    await fs.cp(path.join(TEMPLATES_DIR, CUSTOMER), path.join(root, CUSTOMER), { recursive: true });
+
+    expect(await change).toContain(CUSTOMER);
+    expect((await templateService.listTemplates()).map((t) => t.id).sort()).toEqual([CHECKOUT, CUSTOMER]);
+    expect((await searchService.search('stripe customer portal')).map((r) => r.templateId)).toContain(CUSTOMER);
+
+    change = nextChange();
+    await fs.rm(path.join(root, CHECKOUT), { recursive: true });
+
+    expect(await change).toContain(CHECKOUT);
+    expect(await templateService.loadTemplate(CHECKOUT)).toBeNull();
+    expect((await searchService.search('stripe checkout')).map((r) => r.templateId)).not.toContain(CHECKOUT);
+  });
+
+  it('should notify connected clients about changes in their scope', async () => {
+    const deps = { templateService, embeddingService, searchService, templateWatcher: watcher };
+
+    const connect = async (scopes?: string[]): Promise<{ client: Client; received: string[] }> => {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const received: string[] = [];
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        received.push('list_changed');
+      });
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        received.push(notification.params.uri);
+      });
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await (await createServer(deps, scopes)).connect(serverTransport);
+      await client.connect(clientTransport);
+      return { client, received };
+    };
+
+    const team = await connect();
+    const python = await connect(['python']);
+    const uri = `template://${CHECKOUT}`;
+    await team.client.subscribeResource({ uri });
+
+    const change = nextChange();
+    await editMetadata(CHECKOUT, (metadata) => {
+      metadata.name = 'Stripe Checkout (edited)';
+    });
+    await change;
+    await vi.waitFor(() => expect(team.received).toEqual(['list_changed', uri]));
+
+    expect(python.received).toEqual([]);
+
+    await team.client.close();
+    await python.client.close();
+  });
+
+  it('should add prompts for new categories within the client\'s scope', async () => {
+    const deps = { templateService, embeddingService, searchService, templateWatcher: watcher };
+    const connect = async (scopes?: string[]): Promise<Client> => {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await (await createServer(deps, scopes)).connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    };
+    const promptNames = async (client: Client): Promise<string[]> =>
+      (await client.listPrompts()).prompts.map((p) => p.name);
+
+    const everything = await connect();
+    const payments = await connect(['typescript/nextjs/payment']);
+    expect(await promptNames(everything)).toEqual(['implement_payment']);
+
+    const change = nextChange();
+    await fs.cp(path.join(TEMPLATES_DIR, RESEND), path.join(root, RESEND), { recursive: true });
+    await change;
+
+    await vi.waitFor(async () =>
+      expect((await promptNames(everything)).sort()).toEqual(['implement_email', 'implement_payment'])
+    );
+    expect(await promptNames(payments)).toEqual(['implement_payment']);
+
+    await everything.close();
+    await payments.close();
+  });
+});
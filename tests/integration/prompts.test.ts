@@ -0,0 +1,297 @@
+/**
+ * Integration tests for the metadata-driven implement_* prompts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { TemplateService } from '../../src/services/template-service.js';
+import { EmbeddingService } from '../../src/services/embedding-service.js';
+import { SearchService } from '../../src/services/search-service.js';
+import { createServer } from '../../src/server.js';
+import { listImplementPrompts, listImplementVariants } from '../../src/prompts/implement.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
+
+/**
+ * Connect a client to a server over an in-memory transport
+ */
+async function connect(templateService: TemplateService, scopes?: string[]): Promise<Client> {
+  const embeddingService = new EmbeddingService();
+  vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+  const searchService = new SearchService(templateService, embeddingService);
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await (await createServer({ templateService, embeddingService, searchService }, scopes)).connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Get the text of a prompt's first message
+ */
+async function getGuide(client: Client, name: string, args: Record<string, string>): Promise<string> {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  return messages[0].content.type === 'text' ? messages[0].content.text : '';
+}
+
+describe('implement prompts', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    client = await connect(new TemplateService(TEMPLATES_DIR));
+  });
+
+  afterAll(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should register a prompt per template category with its own variant argument', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual([
+      'implement_api',
+      'implement_auth',
+      'implement_database',
+      'implement_email',
+      'implement_payment',
+      'implement_storage',
+    ]);
+    expect(prompts.find((p) => p.name === 'implement_payment')?.arguments?.map((a) => [a.name, a.required])).toEqual([
+      ['flow', true],
+      ['framework', true],
+      ['features', false],
+    ]);
+  });
+
+  it('should only offer prompts and variants within the client\'s scopes', async () => {
+    const scoped = await connect(new TemplateService(TEMPLATES_DIR), [
+      'typescript/nextjs/auth/nextauth-credentials',
+      'typescript/nextjs/auth/nextauth-google',
+    ]);
+
+    try {
+      const { prompts } = await scoped.listPrompts();
+
+      expect(prompts.map((p) => p.name)).toEqual(['implement_auth']);
+      expect(prompts[0].arguments?.[0].description).toBe('Provider to implement (e.g., credentials, google)');
+    } finally {
+      await scoped.close();
+    }
+  });
+
+  it('should generate a guide for the chosen variant', async () => {
+    const guide = await getGuide(client, 'implement_payment', { flow: 'subscription', framework: 'nextjs' });
+
+    expect(guide).toContain('# Stripe Subscriptions Implementation Guide');
+    expect(guide).toContain('STRIPE_SECRET_KEY=');
+    expect(guide).toContain('## Code Files');
+
+    // The template's ID name works as well as its declared variant
+    const byName = await getGuide(client, 'implement_payment', { flow: 'stripe-subscription', framework: 'nextjs' });
+    expect(byName).toBe(guide);
+  });
+
+  it('should cover templates without environment variables', async () => {
+    const guide = await getGuide(client, 'implement_api', { library: 'trpc', framework: 'nextjs' });
+
+    expect(guide).toContain('# tRPC Setup Implementation Guide');
+    expect(guide).toContain('This template needs no environment variables.');
+  });
+
+  it('should list the options of the category when none match', async () => {
+    const guide = await getGuide(client, 'implement_database', { orm: 'mongoose', framework: 'nextjs' });
+
+    expect(guide).toContain('No template found for orm "mongoose" with framework "nextjs"');
+    expect(guide).toContain('- drizzle (Drizzle ORM Setup)');
+    expect(guide).toContain('- prisma (Prisma ORM Setup)');
+    expect(guide).not.toContain('stripe');
+  });
+
+  it('should merge requested features into the guide', async () => {
+    const guide = await getGuide(client, 'implement_auth', {
+      provider: 'credentials',
+      framework: 'nextjs',
+      features: 'role-based-access, 2fa',
+    });
+
+    expect(guide).toContain('pnpm add otpauth@^9.3.6 # 2fa');
+    expect(guide).toContain('TOTP_ISSUER=');
+    expect(guide).toContain('### src/lib/rbac.ts');
+    expect(guide).toContain('## Step 6: Add role-based-access');
+    expect(guide).toContain('## Step 7: Add 2fa');
+    expect(guide).toContain('totpEnabled Boolean @default(false)');
+    expect(guide).toContain('### src/lib/totp.ts\n\n```typescript');
+    expect(guide).not.toContain('### totp.ts');
+    expect(guide).not.toContain('Additional Features');
+  });
+
+  it('should reject features the variant lacks and point to alternatives', async () => {
+    const guide = await getGuide(client, 'implement_auth', {
+      provider: 'google',
+      framework: 'nextjs',
+      features: '2fa, session-management',
+    });
+
+    expect(guide).toContain('provider "google" does not support: 2fa, session-management');
+    expect(guide).toContain('- **2fa**: use provider "credentials" (NextAuth.js Credentials Authentication)');
+    expect(guide).toContain('- **session-management**: no nextjs auth template offers it yet');
+    expect(guide).not.toContain('## Code Files');
+  });
+
+  it('should complete variants from template metadata', async () => {
+    const flows = await client.complete({
+      ref: { type: 'ref/prompt', name: 'implement_payment' },
+      argument: { name: 'flow', value: '' },
+      context: { arguments: { framework: 'nextjs' } },
+    });
+
+    expect(flows.completion.values).toEqual([
+      'billing-schema',
+      'checkout',
+      'customer',
+      'pricing-table',
+      'subscription',
+      'webhooks',
+    ]);
+  });
+
+  it('should complete the last of the comma-separated features', async () => {
+    const complete = async (value: string, provider?: string): Promise<string[]> => {
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'implement_auth' },
+        argument: { name: 'features', value },
+        context: { arguments: provider ? { provider, framework: 'nextjs' } : { framework: 'nextjs' } },
+      });
+      return result.completion.values;
+    };
+
+    expect(await complete('')).toEqual(['2fa', 'role-based-access']);
+    expect(await complete('2fa, r', 'credentials')).toEqual(['2fa, role-based-access']);
+    expect(await complete('2fa,', 'credentials')).toEqual(['2fa, role-based-access']);
+    expect(await complete('', 'google')).toEqual([]);
+  });
+
+  it('should offer team templates, extending ones under their own name', async () => {
+    const teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+    const childId = 'typescript/nextjs/payment/stripe-checkout-lite';
+    await fs.mkdir(path.join(teamDir, childId), { recursive: true });
+    await fs.writeFile(
+      path.join(teamDir, childId, 'metadata.json'),
+      JSON.stringify({ id: childId, extends: 'typescript/nextjs/payment/stripe-checkout', name: 'Checkout Lite' })
+    );
+
+    try {
+      const templateService = new TemplateService([
+        { name: 'team', path: teamDir },
+        { name: 'bundled', path: TEMPLATES_DIR },
+      ]);
+      const payment = (await listImplementPrompts(templateService)).find((p) => p.category === 'payment');
+      const variants = await listImplementVariants(payment!, templateService, 'nextjs');
+
+      expect(variants.filter((v) => v.templateId.includes('checkout')).map((v) => [v.variant, v.name])).toEqual([
+        ['checkout', 'Stripe Checkout'],
+        ['stripe-checkout-lite', 'Checkout Lite'],
+      ]);
+    } finally {
+      await fs.rm(teamDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should add a prompt with generic arguments for a category a team template introduces', async () => {
+    const teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+    const templateId = 'typescript/nextjs/notification/web-push';
+    await fs.mkdir(path.join(teamDir, templateId, 'files'), { recursive: true });
+    await fs.writeFile(
+      path.join(teamDir, templateId, 'metadata.json'),
+      JSON.stringify({
+        id: templateId,
+        name: 'Web Push Notifications',
+        description: 'Browser push notifications with the Push API',
+        version: '1.0.0',
+        category: 'notification',
+        language: 'typescript',
+        framework: 'nextjs',
+        tags: ['push'],
+        dependencies: {},
+        envVariables: [],
+        files: [{ path: 'src/lib/push.ts', source: 'push.ts', description: 'Push client', isRequired: true }],
+        usage: { installation: '', configuration: 'Register the service worker', example: 'await push()' },
+      })
+    );
+    await fs.writeFile(path.join(teamDir, templateId, 'files', 'push.ts'), 'export const push = true;\n');
+
+    const teamClient = await connect(
+      new TemplateService([
+        { name: 'team', path: teamDir },
+        { name: 'bundled', path: TEMPLATES_DIR },
+      ])
+    );
+
+    try {
+      const { prompts } = await teamClient.listPrompts();
+      const notification = prompts.find((p) => p.name === 'implement_notification');
+
+      expect(notification?.description).toBe(
+        'Notification: step-by-step guide to implement a notification template in your project'
+      );
+      expect(notification?.arguments?.map((a) => [a.name, a.description])).toEqual([
+        ['variant', 'Variant to implement (e.g., web-push)'],
+        ['framework', 'Your framework (e.g., nextjs)'],
+        ['features', 'Additional features needed (e.g., 2fa, role-based-access)'],
+      ]);
+
+      const guide = await getGuide(teamClient, 'implement_notification', { variant: 'web-push', framework: 'nextjs' });
+      expect(guide).toContain('# Web Push Notifications Implementation Guide');
+      expect(guide).toContain('### src/lib/push.ts\n\n```typescript\nexport const push = true;');
+    } finally {
+      await teamClient.close();
+      await fs.rm(teamDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should name the variant argument and label as the category\'s templates declare', async () => {
+    const teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+    const templateId = 'typescript/nextjs/ui/shadcn-forms';
+    await fs.mkdir(path.join(teamDir, templateId), { recursive: true });
+    await fs.writeFile(
+      path.join(teamDir, templateId, 'metadata.json'),
+      JSON.stringify({
+        id: templateId,
+        name: 'shadcn/ui Forms',
+        description: 'Form components on react-hook-form',
+        version: '1.0.0',
+        category: 'ui',
+        language: 'typescript',
+        framework: 'nextjs',
+        tags: ['forms'],
+        variant: 'shadcn',
+        variantArgument: 'library',
+        categoryLabel: 'UI Components',
+        dependencies: {},
+        envVariables: [],
+        files: [],
+        usage: { installation: '', configuration: '', example: '' },
+      })
+    );
+
+    try {
+      const prompts = await listImplementPrompts(new TemplateService([{ name: 'team', path: teamDir }]));
+
+      expect(prompts.map((p) => [p.name, p.variantArgument, p.title])).toEqual([
+        ['implement_ui', 'library', 'UI Components'],
+      ]);
+      expect(prompts[0].argsSchema.shape.library.description).toBe('Library to implement (e.g., shadcn)');
+    } finally {
+      await fs.rm(teamDir, { recursive: true, force: true });
+    }
+  });
+});
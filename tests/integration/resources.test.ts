@@ -0,0 +1,137 @@
+/**
+ * Integration tests for template resources, resource templates and URI completion
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { TemplateService } from '../../src/services/template-service.js';
+import { EmbeddingService } from '../../src/services/embedding-service.js';
+import { SearchService } from '../../src/services/search-service.js';
+import { createServer } from '../../src/server.js';
+import { TEMPLATE_FILE_URI_TEMPLATE, TEMPLATE_URI_TEMPLATE } from '../../src/resources/template-resource.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
+
+const CHECKOUT = 'typescript/nextjs/payment/stripe-checkout';
+const CHECKOUT_URI = `template://${CHECKOUT}`;
+
+/**
+ * Connect a client to a server over an in-memory transport
+ */
+async function connect(scopes?: string[]): Promise<Client> {
+  const templateService = new TemplateService(TEMPLATES_DIR);
+  const embeddingService = new EmbeddingService();
+  vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+  const searchService = new SearchService(templateService, embeddingService);
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await (await createServer({ templateService, embeddingService, searchService }, scopes)).connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe('template resources', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    client = await connect();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should list every template as a resource', async () => {
+    const { resources } = await client.listResources();
+    const checkout = resources.find((r) => r.uri === CHECKOUT_URI);
+
+    expect(checkout).toMatchObject({ name: 'Stripe Checkout', mimeType: 'text/typescript', _meta: { root: 'bundled' } });
+    expect(resources.every((r) => r.uri.split('/').length === 6)).toBe(true);
+  });
+
+  it('should advertise the resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      TEMPLATE_URI_TEMPLATE,
+      TEMPLATE_FILE_URI_TEMPLATE,
+      `${TEMPLATE_URI_TEMPLATE}/metadata.json`,
+      `${TEMPLATE_URI_TEMPLATE}/README.md`,
+    ]);
+  });
+
+  it('should read a template and its files', async () => {
+    const { contents } = await client.readResource({ uri: CHECKOUT_URI });
+    const fileUri = `${CHECKOUT_URI}/files/stripe.ts`;
+
+    expect(contents.map((c) => c.uri)).toContain(fileUri);
+
+    const file = await client.readResource({ uri: fileUri });
+    expect(file.contents).toEqual([contents.find((c) => c.uri === fileUri)]);
+    expect(file.contents[0].mimeType).toBe('text/typescript');
+
+    await expect(client.readResource({ uri: `${CHECKOUT_URI}/files/missing.ts` })).rejects.toThrow('File not found');
+  });
+
+  it('should read metadata and README', async () => {
+    const metadata = await client.readResource({ uri: `${CHECKOUT_URI}@2.x/metadata.json` });
+    expect(metadata.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(metadata.contents[0].text as string)).toMatchObject({ id: CHECKOUT, version: '2.0.0' });
+
+    const readme = await client.readResource({ uri: `${CHECKOUT_URI}/README.md` });
+    expect(readme.contents[0].mimeType).toBe('text/markdown');
+    expect(readme.contents[0].text).toContain('# Stripe Checkout');
+
+    const pinned = await client.readResource({ uri: `${CHECKOUT_URI}@1.x/README.md` });
+    expect(pinned.contents[0].text).toContain('# Stripe Checkout Template (1.2.0)');
+    expect(pinned.contents[0].text).not.toBe(readme.contents[0].text);
+  });
+
+  it('should complete URI segments narrowed by earlier ones', async () => {
+    const ref = { type: 'ref/resource' as const, uri: TEMPLATE_URI_TEMPLATE };
+
+    const languages = await client.complete({ ref, argument: { name: 'language', value: '' } });
+    expect(languages.completion.values).toContain('typescript');
+
+    const names = await client.complete({
+      ref,
+      argument: { name: 'name', value: 'stripe-c' },
+      context: { arguments: { language: 'typescript', framework: 'nextjs', category: 'payment' } },
+    });
+    expect(names.completion.values).toEqual(['stripe-checkout', 'stripe-customer']);
+
+    const files = await client.complete({
+      ref: { type: 'ref/resource', uri: TEMPLATE_FILE_URI_TEMPLATE },
+      argument: { name: 'path', value: 'st' },
+      context: {
+        arguments: { language: 'typescript', framework: 'nextjs', category: 'payment', name: 'stripe-checkout' },
+      },
+    });
+    expect(files.completion.values).toEqual(['stripe.ts']);
+  });
+
+  it('should hide templates outside the client scopes', async () => {
+    const scoped = await connect(['typescript/nextjs/auth']);
+
+    const { resources } = await scoped.listResources();
+    expect(resources.length).toBeGreaterThan(0);
+    expect(resources.every((r) => r.uri.startsWith('template://typescript/nextjs/auth/'))).toBe(true);
+
+    const categories = await scoped.complete({
+      ref: { type: 'ref/resource', uri: TEMPLATE_URI_TEMPLATE },
+      argument: { name: 'category', value: '' },
+    });
+    expect(categories.completion.values).toEqual(['auth']);
+
+    await expect(scoped.readResource({ uri: `${CHECKOUT_URI}/README.md` })).rejects.toThrow('Template not found');
+
+    await scoped.close();
+  });
+});
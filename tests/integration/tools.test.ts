@@ -2,7 +2,9 @@
  * Integration tests for MCP tools
  */
 
-import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -13,6 +15,13 @@ import { SearchService } from '../../src/services/search-service.js';
 import { handleSearchTemplates, searchTemplatesSchema } from '../../src/tools/search-templates.js';
 import { handleGetTemplate, getTemplateSchema, formatGetTemplateResponse } from '../../src/tools/get-template.js';
 import { handleListTemplates, listTemplatesSchema, formatTemplateList } from '../../src/tools/list-templates.js';
+import { countFacets } from '../../src/utils/template-filters.js';
+import { handleApplyTemplate, applyTemplateSchema } from '../../src/tools/apply-template.js';
+import { handleComposeTemplates, composeTemplatesSchema } from '../../src/tools/compose-templates.js';
+import { handleCheckDependencies, checkDependenciesSchema } from '../../src/tools/check-dependencies.js';
+import { handleRecommendTemplates, recommendTemplatesSchema } from '../../src/tools/recommend-templates.js';
+import { handleDiffTemplate, diffTemplateSchema, formatDiffTemplateResponse } from '../../src/tools/diff-template.js';
+import { handleCheckDrift, checkDriftSchema, formatDriftReport } from '../../src/tools/check-drift.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
@@ -46,7 +55,7 @@ describe('MCP Tools Integration', () => {
 
     it('should search templates', async () => {
       const input = searchTemplatesSchema.parse({ query: 'authentication google' });
-      const results = await handleSearchTemplates(input, searchService);
+      const { results } = await handleSearchTemplates(input, searchService);
 
       expect(Array.isArray(results)).toBe(true);
       expect(results.length).toBeGreaterThan(0);
@@ -57,17 +66,67 @@ describe('MCP Tools Integration', () => {
 
     it('should filter by category', async () => {
       const input = searchTemplatesSchema.parse({ query: 'setup', category: 'payment' });
-      const results = await handleSearchTemplates(input, searchService);
+      const { results } = await handleSearchTemplates(input, searchService);
 
       expect(results.every((r) => r.category === 'payment')).toBe(true);
     });
 
     it('should respect limit parameter', async () => {
       const input = searchTemplatesSchema.parse({ query: 'auth', limit: 2 });
-      const results = await handleSearchTemplates(input, searchService);
+      const { results } = await handleSearchTemplates(input, searchService);
 
       expect(results.length).toBeLessThanOrEqual(2);
     });
+
+    it('should filter by tags and dependencies and count facets over all matches', async () => {
+      const input = searchTemplatesSchema.parse({ query: 'stripe', tags: ['!subscription'], dependencies: ['stripe'], limit: 1 });
+      const { results, facets } = await handleSearchTemplates(input, searchService);
+
+      expect(results).toHaveLength(1);
+      expect(facets.category.payment).toBeGreaterThan(1);
+      expect(facets.tag.subscription).toBeUndefined();
+    });
+
+    it('should validate ranking options and report signals', async () => {
+      expect(() => searchTemplatesSchema.parse({ query: 'auth', mode: 'fuzzy' })).toThrow();
+      expect(() => searchTemplatesSchema.parse({ query: 'auth', weights: { keyword: -1 } })).toThrow();
+
+      const input = searchTemplatesSchema.parse({ query: 'stripe webhooks', mode: 'keyword', fusion: 'weighted' });
+      const { results } = await handleSearchTemplates(input, searchService);
+
+      expect(results[0].signals.keyword?.rank).toBe(1);
+      expect(results[0].signals.keyword?.matchedTerms).toContain('webhook');
+    });
+
+    it('should page through results with a cursor', async () => {
+      const all = await handleSearchTemplates(searchTemplatesSchema.parse({ query: 'stripe', limit: 20 }), searchService);
+      const first = await handleSearchTemplates(searchTemplatesSchema.parse({ query: 'stripe', limit: 2 }), searchService);
+      const second = await handleSearchTemplates(
+        searchTemplatesSchema.parse({ query: 'stripe', limit: 2, cursor: first.nextCursor }),
+        searchService
+      );
+
+      expect(first.total).toBe(all.results.length);
+      expect([...first.results, ...second.results].map((r) => r.templateId)).toEqual(
+        all.results.slice(0, 4).map((r) => r.templateId)
+      );
+      expect(all.nextCursor).toBeUndefined();
+
+      await expect(
+        handleSearchTemplates(searchTemplatesSchema.parse({ query: 'auth', cursor: first.nextCursor }), searchService)
+      ).rejects.toThrow('different query');
+      await expect(
+        handleSearchTemplates(searchTemplatesSchema.parse({ query: 'stripe', cursor: 'not-a-cursor' }), searchService)
+      ).rejects.toThrow('Invalid cursor');
+    });
+
+    it('should explain scores when asked', async () => {
+      const input = searchTemplatesSchema.parse({ query: 'stripe webhooks', explain: true, limit: 1 });
+      const { results } = await handleSearchTemplates(input, searchService);
+
+      expect(results[0].explanation?.fusion).toBe('none');
+      expect(results[0].explanation?.keyword?.terms.map((t) => t.term)).toContain('webhook');
+    });
   });
 
   describe('get_template', () => {
@@ -92,6 +151,7 @@ describe('MCP Tools Integration', () => {
       expect(result).toHaveProperty('installation');
       expect(result).toHaveProperty('envVariables');
       expect(result.metadata.id).toBe('typescript/nextjs/auth/nextauth-google');
+      expect(result.code).toHaveProperty(['src/app/api/auth/[...nextauth]/route.ts']);
     });
 
     it('should throw for non-existent template', async () => {
@@ -111,6 +171,17 @@ describe('MCP Tools Integration', () => {
       expect(formatted).toContain('Code Files');
     });
 
+    it('should render template variables', async () => {
+      const input = getTemplateSchema.parse({
+        templateId: 'typescript/nextjs/database/drizzle-setup',
+        variables: { tablePrefix: 'app_' },
+      });
+      const result = await handleGetTemplate(input, templateService);
+
+      expect(result.code?.['src/db/schema.ts']).toContain("pgTable('app_users'");
+      expect(formatGetTemplateResponse(result, 'full')).toContain('## Variables');
+    });
+
     it('should exclude code for metadata-only format', async () => {
       const input = getTemplateSchema.parse({
         templateId: 'typescript/nextjs/auth/nextauth-google',
@@ -120,6 +191,47 @@ describe('MCP Tools Integration', () => {
 
       expect(result.code).toBeUndefined();
     });
+
+    it('should resolve version ranges', async () => {
+      const input = getTemplateSchema.parse({
+        templateId: 'typescript/nextjs/payment/stripe-checkout',
+        version: '2.x',
+        format: 'metadata-only',
+      });
+      const result = await handleGetTemplate(input, templateService);
+
+      expect(result.metadata.version).toBe('2.0.0');
+      expect(result.availableVersions).toEqual(['2.0.0', '1.2.0']);
+      expect(formatGetTemplateResponse(result, 'full')).toContain('**Version**: 2.0.0 (available: 2.0.0, 1.2.0)');
+    });
+
+    it('should return the files of an earlier version', async () => {
+      const input = getTemplateSchema.parse({ templateId: 'typescript/nextjs/payment/stripe-checkout', version: '1.x' });
+      const result = await handleGetTemplate(input, templateService);
+
+      expect(result.metadata.version).toBe('1.2.0');
+      expect(result.metadata.dependencies).toEqual({ stripe: '^14.0.0' });
+      expect(Object.keys(result.code ?? {})).not.toContain('src/components/checkout-button.tsx');
+      expect(result.code?.['src/lib/stripe.ts']).toContain("apiVersion: '2023-10-16'");
+      expect(result.changelog).toContain('# 1.2.0');
+    });
+
+    it('should answer removed versions with a deprecation notice', async () => {
+      const input = getTemplateSchema.parse({ templateId: 'typescript/nextjs/payment/stripe-checkout', version: '1.0.0' });
+
+      await expect(handleGetTemplate(input, templateService)).rejects.toThrow(
+        'Deprecated: version 1.0.0 of typescript/nextjs/payment/stripe-checkout was removed on 2026-01-15.'
+      );
+    });
+
+    it('should reject versions that do not exist', async () => {
+      const input = getTemplateSchema.parse({
+        templateId: 'typescript/nextjs/payment/stripe-checkout',
+        version: '^9.0.0',
+      });
+
+      await expect(handleGetTemplate(input, templateService)).rejects.toThrow('No version of');
+    });
   });
 
   describe('list_templates', () => {
@@ -133,7 +245,7 @@ describe('MCP Tools Integration', () => {
 
     it('should list all templates', async () => {
       const input = listTemplatesSchema.parse({});
-      const results = await handleListTemplates(input, templateService);
+      const { templates: results } = await handleListTemplates(input, templateService);
 
       expect(Array.isArray(results)).toBe(true);
       expect(results.length).toBeGreaterThan(0);
@@ -144,7 +256,7 @@ describe('MCP Tools Integration', () => {
 
     it('should filter by category', async () => {
       const input = listTemplatesSchema.parse({ category: 'auth' });
-      const results = await handleListTemplates(input, templateService);
+      const { templates: results } = await handleListTemplates(input, templateService);
 
       expect(results.length).toBeGreaterThan(0);
       expect(results.every((r) => r.category === 'auth')).toBe(true);
@@ -152,24 +264,601 @@ describe('MCP Tools Integration', () => {
 
     it('should filter by language', async () => {
       const input = listTemplatesSchema.parse({ language: 'typescript' });
-      const results = await handleListTemplates(input, templateService);
+      const { templates: results } = await handleListTemplates(input, templateService);
 
       expect(results.every((r) => r.language === 'typescript')).toBe(true);
     });
 
     it('should format template list', async () => {
       const input = listTemplatesSchema.parse({});
-      const results = await handleListTemplates(input, templateService);
-      const formatted = formatTemplateList(results);
+      const response = await handleListTemplates(input, templateService);
+      const formatted = formatTemplateList(response);
 
       expect(typeof formatted).toBe('string');
       expect(formatted).toContain('Available Templates');
     });
 
+    it('should filter by tags with negation and any/all matching', async () => {
+      const all = await handleListTemplates(
+        listTemplatesSchema.parse({ tags: ['stripe', '!subscription'] }),
+        templateService
+      );
+      expect(all.templates.length).toBeGreaterThan(0);
+      expect(all.templates.every((t) => t.tags.includes('stripe') && !t.tags.includes('subscription'))).toBe(true);
+
+      const any = await handleListTemplates(
+        listTemplatesSchema.parse({ tags: ['oauth', 'email'], tagMatch: 'any' }),
+        templateService
+      );
+      expect(any.templates.some((t) => t.tags.includes('oauth'))).toBe(true);
+      expect(any.templates.some((t) => t.tags.includes('email'))).toBe(true);
+      expect(any.templates.every((t) => t.tags.includes('oauth') || t.tags.includes('email'))).toBe(true);
+    });
+
+    it('should filter by dependency', async () => {
+      const { templates } = await handleListTemplates(
+        listTemplatesSchema.parse({ dependencies: ['drizzle-orm'] }),
+        templateService
+      );
+
+      expect(templates.map((t) => t.id)).toContain('typescript/nextjs/database/drizzle-setup');
+      expect(templates.map((t) => t.id)).not.toContain('typescript/nextjs/database/prisma-setup');
+    });
+
+    it('should count facets over the listed templates', async () => {
+      const response = await handleListTemplates(listTemplatesSchema.parse({ category: 'payment' }), templateService);
+
+      expect(response.facets.category).toEqual({ payment: response.templates.length });
+      expect(response.facets.tag.stripe).toBe(response.templates.filter((t) => t.tags.includes('stripe')).length);
+      expect(Object.values(response.facets.tag)).toEqual([...Object.values(response.facets.tag)].sort((a, b) => b - a));
+      expect(formatTemplateList(response)).toContain(`- **Category**: payment (${response.templates.length})`);
+    });
+
+    it('should page through templates with a cursor', async () => {
+      const all = await handleListTemplates(listTemplatesSchema.parse({}), templateService);
+      const first = await handleListTemplates(listTemplatesSchema.parse({ limit: 3 }), templateService);
+      const second = await handleListTemplates(
+        listTemplatesSchema.parse({ limit: 3, cursor: first.nextCursor }),
+        templateService
+      );
+
+      expect(first.total).toBe(all.templates.length);
+      expect(first.facets).toEqual(all.facets);
+      expect([...first.templates, ...second.templates]).toEqual(all.templates.slice(0, 6));
+      expect(formatTemplateList(first)).toContain(`Available Templates (3 of ${all.total})`);
+      expect(formatTemplateList(first)).toContain(first.nextCursor);
+
+      await expect(
+        handleListTemplates(listTemplatesSchema.parse({ category: 'auth', cursor: first.nextCursor }), templateService)
+      ).rejects.toThrow('different query');
+    });
+
     it('should handle empty results', () => {
-      const formatted = formatTemplateList([]);
+      const formatted = formatTemplateList({ templates: [], facets: countFacets([]), total: 0 });
 
       expect(formatted).toContain('No templates found');
     });
   });
+
+  describe('apply_template', () => {
+    const templateId = 'typescript/nextjs/payment/stripe-checkout';
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'sfvibe-apply-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should not write anything in dry-run mode', async () => {
+      const input = applyTemplateSchema.parse({ templateId, projectRoot, dryRun: true });
+      const report = await handleApplyTemplate(input, templateService);
+
+      expect(report.created).toContain('src/app/api/checkout/route.ts');
+      expect(await fs.readdir(projectRoot)).toEqual([]);
+    });
+
+    it('should write files to their declared destinations', async () => {
+      const input = applyTemplateSchema.parse({ templateId, projectRoot });
+      const report = await handleApplyTemplate(input, templateService);
+
+      expect(report.created).toHaveLength(4);
+      const route = await fs.readFile(path.join(projectRoot, 'src/app/api/webhooks/stripe/route.ts'), 'utf-8');
+      expect(route).toContain('constructEvent');
+    });
+
+    it('should skip identical files and report conflicts', async () => {
+      const input = applyTemplateSchema.parse({ templateId, projectRoot });
+      await handleApplyTemplate(input, templateService);
+      await fs.writeFile(path.join(projectRoot, 'src/lib/stripe.ts'), '// customized\n');
+
+      const report = await handleApplyTemplate(input, templateService);
+
+      expect(report.created).toEqual([]);
+      expect(report.conflicts.map((c) => c.path)).toEqual(['src/lib/stripe.ts']);
+      expect(report.skipped).toHaveLength(3);
+      expect(await fs.readFile(path.join(projectRoot, 'src/lib/stripe.ts'), 'utf-8')).toBe('// customized\n');
+    });
+
+    it('should overwrite conflicting files when requested', async () => {
+      await fs.mkdir(path.join(projectRoot, 'src/lib'), { recursive: true });
+      await fs.writeFile(path.join(projectRoot, 'src/lib/stripe.ts'), '// customized\n');
+
+      const input = applyTemplateSchema.parse({ templateId, projectRoot, overwrite: true });
+      const report = await handleApplyTemplate(input, templateService);
+
+      expect(report.overwritten).toEqual(['src/lib/stripe.ts']);
+      expect(report.conflicts).toEqual([]);
+    });
+
+    it('should refuse to write through symlinks leading outside the project', async () => {
+      const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'sfvibe-outside-'));
+      const input = applyTemplateSchema.parse({ templateId, projectRoot });
+
+      try {
+        await fs.symlink(outside, path.join(projectRoot, 'src'), 'dir');
+        await expect(handleApplyTemplate(input, templateService)).rejects.toThrow(
+          'Refusing to write outside the project root: src/'
+        );
+
+        // A dangling link to a file outside would be followed by the write too
+        await fs.rm(path.join(projectRoot, 'src'));
+        await fs.mkdir(path.join(projectRoot, 'src/lib'), { recursive: true });
+        await fs.symlink(path.join(outside, 'stripe.ts'), path.join(projectRoot, 'src/lib/stripe.ts'));
+        await expect(handleApplyTemplate(input, templateService)).rejects.toThrow(
+          'Refusing to write outside the project root: src/lib/stripe.ts'
+        );
+
+        expect(await fs.readdir(outside)).toEqual([]);
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+
+    it('should follow symlinks that stay inside the project', async () => {
+      await fs.mkdir(path.join(projectRoot, 'source'));
+      await fs.symlink(path.join(projectRoot, 'source'), path.join(projectRoot, 'src'), 'dir');
+
+      const input = applyTemplateSchema.parse({ templateId, projectRoot });
+      const report = await handleApplyTemplate(input, templateService);
+
+      expect(report.created).toHaveLength(4);
+      expect(await fs.readFile(path.join(projectRoot, 'source/lib/stripe.ts'), 'utf-8')).toContain('new Stripe');
+    });
+
+    it('should reject a relative project root', async () => {
+      const input = applyTemplateSchema.parse({ templateId, projectRoot: 'relative/path' });
+
+      await expect(handleApplyTemplate(input, templateService)).rejects.toThrow('absolute');
+    });
+  });
+
+  describe('compose_templates', () => {
+    const ids = [
+      'typescript/nextjs/payment/stripe-checkout',
+      'typescript/nextjs/payment/stripe-subscription',
+      'typescript/nextjs/auth/nextauth-google',
+    ];
+
+    it('should merge dependencies and env vars', async () => {
+      const input = composeTemplatesSchema.parse({ templateIds: ids, includeCode: false });
+      const bundle = await handleComposeTemplates(input, templateService);
+
+      expect(bundle.dependencies).toHaveProperty('stripe');
+      expect(bundle.dependencies).toHaveProperty('next-auth');
+      expect(bundle.envVariables.filter((e) => e.name === 'STRIPE_SECRET_KEY')).toHaveLength(1);
+      expect(bundle.installCommand).toMatch(/^pnpm add .*stripe@/);
+      expect(bundle.files.every((f) => f.content === undefined)).toBe(true);
+    });
+
+    it('should report files claimed by several templates', async () => {
+      const input = composeTemplatesSchema.parse({ templateIds: ids });
+      const bundle = await handleComposeTemplates(input, templateService);
+
+      const collision = bundle.collisions.find((c) => c.path === 'src/lib/stripe.ts');
+      expect(collision?.templates).toEqual(ids.slice(0, 2));
+      expect(bundle.files.filter((f) => f.path === 'src/lib/stripe.ts')).toHaveLength(1);
+      expect(bundle.files.find((f) => f.path === 'src/lib/stripe.ts')?.templateId).toBe(ids[0]);
+    });
+
+    it('should pass variables only to templates that declare them', async () => {
+      const input = composeTemplatesSchema.parse({ templateIds: ids, variables: { authRouteBase: 'auth' } });
+      const bundle = await handleComposeTemplates(input, templateService);
+
+      expect(bundle.files.map((f) => f.path)).toContain('src/app/auth/[...nextauth]/route.ts');
+      expect(bundle.files.map((f) => f.path)).toContain('src/app/api/subscription/create/route.ts');
+    });
+
+    it('should reject variables no template declares', async () => {
+      const input = composeTemplatesSchema.parse({ templateIds: ids, variables: { unknownVar: 'x' } });
+
+      await expect(handleComposeTemplates(input, templateService)).rejects.toThrow('unknownVar');
+    });
+
+    it('should report dependency ranges that do not overlap', async () => {
+      const input = composeTemplatesSchema.parse({
+        templateIds: ['typescript/nextjs/payment/stripe-subscription', 'typescript/nextjs/database/prisma-setup'],
+        includeCode: false,
+      });
+      const bundle = await handleComposeTemplates(input, templateService);
+
+      expect(bundle.dependencyConflicts.map((c) => c.name)).toEqual(['@prisma/client']);
+      expect(bundle.dependencies.stripe).toBe('^17.0.0');
+    });
+  });
+
+  describe('check_dependencies', () => {
+    const templateIds = ['typescript/nextjs/payment/stripe-checkout'];
+
+    const check = (packageJson: unknown, ids = templateIds): ReturnType<typeof handleCheckDependencies> =>
+      handleCheckDependencies(
+        checkDependenciesSchema.parse({ templateIds: ids, packageJson: JSON.stringify(packageJson) }),
+        templateService
+      );
+
+    it('should classify installed ranges', async () => {
+      const report = await check({
+        dependencies: { stripe: '^17.2.0', '@stripe/stripe-js': '^3.1.0' },
+      });
+
+      const byName = Object.fromEntries(report.results.map((r) => [r.name, r]));
+      expect(byName.stripe.status).toBe('compatible');
+      expect(byName['@stripe/stripe-js'].status).toBe('upgrade');
+      expect(byName['@stripe/stripe-js'].suggested).toBe('^4.0.0');
+      expect(report.resolved.dependencies).toEqual({ stripe: '^17.2.0', '@stripe/stripe-js': '^4.0.0' });
+    });
+
+    it('should flag projects newer than the template supports', async () => {
+      const report = await check({ dependencies: { stripe: '^18.0.0' } });
+
+      const stripe = report.results.find((r) => r.name === 'stripe');
+      expect(stripe?.status).toBe('conflict');
+      expect(report.summary.missing).toBe(1);
+    });
+
+    it('should report missing and non-semver dependencies', async () => {
+      const report = await check({ devDependencies: { stripe: 'workspace:*' } });
+
+      const byName = Object.fromEntries(report.results.map((r) => [r.name, r]));
+      expect(byName.stripe.status).toBe('unknown');
+      expect(byName['@stripe/stripe-js'].status).toBe('missing');
+      expect(byName['@stripe/stripe-js'].suggested).toBe('^4.0.0');
+    });
+
+    it('should detect templates that disagree with each other', async () => {
+      const report = await check({}, [
+        'typescript/nextjs/payment/stripe-subscription',
+        'typescript/nextjs/database/prisma-setup',
+      ]);
+
+      const prisma = report.results.find((r) => r.name === '@prisma/client');
+      expect(prisma?.status).toBe('conflict');
+      expect(prisma?.required).toBeNull();
+      expect(report.results.find((r) => r.name === 'prisma')?.type).toBe('devDependencies');
+    });
+
+    it('should report unrecognized ranges apart from conflicts', async () => {
+      const teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+      const templateId = 'typescript/nextjs/payment/stripe-canary';
+      await fs.mkdir(path.join(teamDir, templateId, 'files'), { recursive: true });
+      await fs.writeFile(
+        path.join(teamDir, templateId, 'metadata.json'),
+        JSON.stringify({
+          id: templateId,
+          name: 'Stripe Canary',
+          description: 'Stripe client tracking the latest SDK',
+          version: '1.0.0',
+          category: 'payment',
+          language: 'typescript',
+          framework: 'nextjs',
+          tags: ['stripe'],
+          dependencies: { stripe: 'latest', '@stripe/stripe-js': '^3.0.0' },
+          envVariables: [],
+          files: [{ path: 'src/lib/canary.ts', source: 'canary.ts', description: 'Canary client', isRequired: true }],
+          usage: { installation: 'pnpm add stripe@latest', configuration: '', example: '' },
+        })
+      );
+      await fs.writeFile(path.join(teamDir, templateId, 'files', 'canary.ts'), 'export {};\n');
+
+      try {
+        const teamService = new TemplateService([
+          { name: 'team', path: teamDir },
+          { name: 'bundled', path: TEMPLATES_DIR },
+        ]);
+        const ids = [...templateIds, templateId];
+        const input = checkDependenciesSchema.parse({ templateIds: ids, packageJson: '{}' });
+        const report = await handleCheckDependencies(input, teamService);
+        const byName = Object.fromEntries(report.results.map((r) => [r.name, r]));
+
+        expect(byName.stripe.status).toBe('unknown');
+        expect(byName.stripe.required).toBe('^17.0.0');
+        expect(byName.stripe.reason).toBe(`Unrecognized range: ${templateId} needs "latest"`);
+        expect(byName['@stripe/stripe-js'].status).toBe('conflict');
+        expect(byName['@stripe/stripe-js'].reason).not.toContain('latest');
+
+        const bundle = await handleComposeTemplates(
+          composeTemplatesSchema.parse({ templateIds: ids, includeCode: false }),
+          teamService
+        );
+        expect(bundle.dependencyConflicts.map((c) => c.name)).toEqual(['@stripe/stripe-js']);
+        expect(bundle.unrecognizedRanges).toEqual([
+          { name: 'stripe', ranges: { [templateIds[0]]: '^17.0.0', [templateId]: 'latest' }, resolved: '^17.0.0' },
+        ]);
+      } finally {
+        await fs.rm(teamDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject invalid package.json', async () => {
+      const input = checkDependenciesSchema.parse({ templateIds, packageJson: '{ not json' });
+
+      await expect(handleCheckDependencies(input, templateService)).rejects.toThrow('not valid JSON');
+    });
+  });
+
+  describe('namespace scopes', () => {
+    const scopes = ['typescript/nextjs/payment'];
+
+    it('should only list templates in scope', async () => {
+      const { templates: results } = await handleListTemplates(listTemplatesSchema.parse({}), templateService, scopes);
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((t) => t.id.startsWith('typescript/nextjs/payment/'))).toBe(true);
+    });
+
+    it('should only search templates in scope', async () => {
+      const { results } = await handleSearchTemplates(
+        searchTemplatesSchema.parse({ query: 'stripe prisma auth' }),
+        searchService,
+        scopes
+      );
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((r) => r.templateId.startsWith('typescript/nextjs/payment/'))).toBe(true);
+    });
+
+    it('should hide out-of-scope templates and related links', async () => {
+      const hidden = getTemplateSchema.parse({ templateId: 'typescript/nextjs/auth/nextauth-google' });
+      await expect(handleGetTemplate(hidden, templateService, scopes)).rejects.toThrow('Template not found');
+
+      const input = getTemplateSchema.parse({
+        templateId: 'typescript/nextjs/payment/stripe-billing-schema',
+        format: 'metadata-only',
+      });
+      const result = await handleGetTemplate(input, templateService, scopes);
+      expect(result.relatedTemplates).not.toContain('typescript/nextjs/database/prisma-setup');
+      expect(result.relatedTemplates).toContain('typescript/nextjs/payment/stripe-subscription');
+    });
+  });
+
+  describe('recommend_templates', () => {
+    const packageJson = JSON.stringify({
+      dependencies: { next: '^15.0.0', '@prisma/client': '^6.1.0', 'next-auth': '^5.0.0-beta.25' },
+      devDependencies: { typescript: '^5.0.0' },
+    });
+    const files = ['src/auth.ts', 'src/app/api/auth/[...nextauth]/route.ts', 'prisma/schema.prisma', 'tsconfig.json'];
+
+    const recommend = (input: Record<string, unknown>): ReturnType<typeof handleRecommendTemplates> =>
+      handleRecommendTemplates(recommendTemplatesSchema.parse({ packageJson, files, ...input }), templateService);
+
+    it('should detect the project stack', async () => {
+      const result = await recommend({});
+
+      expect(result.stack).toMatchObject({
+        framework: 'nextjs',
+        language: 'typescript',
+        orm: 'prisma',
+        auth: 'nextauth',
+        srcDir: 'src',
+      });
+    });
+
+    it('should mark installed and conflicting templates', async () => {
+      const result = await recommend({});
+      const byId = Object.fromEntries(result.templates.map((t) => [t.id, t]));
+
+      expect(byId['typescript/nextjs/auth/nextauth-google'].status).toBe('installed');
+      expect(byId['typescript/nextjs/database/drizzle-setup'].status).toBe('conflict');
+      expect(byId['typescript/nextjs/auth/supabase-auth'].status).toBe('conflict');
+    });
+
+    it('should rank templates related to installed ones first', async () => {
+      const result = await recommend({ limit: 2 });
+      const recommended = result.templates.filter((t) => t.status === 'recommended');
+
+      expect(recommended).toHaveLength(2);
+      expect(recommended.map((t) => t.id)).toContain('typescript/nextjs/auth/nextauth-credentials');
+      expect(recommended[0].reasons.some((r) => r.includes('NextAuth.js Google OAuth'))).toBe(true);
+    });
+
+    it('should filter by category', async () => {
+      const result = await recommend({ category: 'database' });
+
+      expect(result.templates.every((t) => t.category === 'database')).toBe(true);
+    });
+
+    it('should fall back to packages without a file listing', async () => {
+      const result = await recommend({ files: [] });
+      const prisma = result.templates.find((t) => t.id === 'typescript/nextjs/database/prisma-setup');
+
+      expect(prisma?.status).toBe('installed');
+      expect(result.stack.srcDir).toBeUndefined();
+    });
+
+    it('should treat templates with required variables as not installed', async () => {
+      const teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+      const templateId = 'typescript/nextjs/auth/tenant-auth';
+      await fs.mkdir(path.join(teamDir, templateId, 'files'), { recursive: true });
+      await fs.writeFile(
+        path.join(teamDir, templateId, 'metadata.json'),
+        JSON.stringify({
+          id: templateId,
+          name: 'Tenant Auth',
+          description: 'Auth.js scoped to one tenant',
+          version: '1.0.0',
+          category: 'auth',
+          language: 'typescript',
+          framework: 'nextjs',
+          tags: ['nextauth', 'tenant'],
+          dependencies: { 'next-auth': '^5.0.0-beta.25' },
+          envVariables: [],
+          variables: [{ name: 'tenant', description: 'Tenant slug', type: 'string' }],
+          files: [{ path: 'src/auth.ts', source: 'auth.ts', description: 'Auth config for {{tenant}}', isRequired: true }],
+          usage: { installation: 'pnpm add next-auth@beta', configuration: '', example: '' },
+        })
+      );
+      await fs.writeFile(path.join(teamDir, templateId, 'files', 'auth.ts'), "export const tenant = '{{tenant}}';\n");
+
+      try {
+        const teamService = new TemplateService([
+          { name: 'team', path: teamDir },
+          { name: 'bundled', path: TEMPLATES_DIR },
+        ]);
+        const input = recommendTemplatesSchema.parse({ packageJson, files, category: 'auth', limit: 20 });
+        const result = await handleRecommendTemplates(input, teamService);
+        const tenant = result.templates.find((t) => t.id === templateId);
+
+        expect(tenant?.status).toBe('recommended');
+        expect(result.templates.find((t) => t.id === 'typescript/nextjs/auth/nextauth-google')?.status).toBe(
+          'installed'
+        );
+      } finally {
+        await fs.rm(teamDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('diff_template', () => {
+    // The bundled stripe-checkout keeps 1.2.0, which predates the checkout button and stripe 17
+    const CHECKOUT_ID = 'typescript/nextjs/payment/stripe-checkout';
+
+    it('should diff files between versions', async () => {
+      const input = diffTemplateSchema.parse({ templateId: CHECKOUT_ID, fromVersion: '1.x' });
+      const result = await handleDiffTemplate(input, templateService);
+      const byPath = Object.fromEntries(result.files.map((f) => [f.path, f]));
+
+      expect(result.fromVersion).toBe('1.2.0');
+      expect(result.toVersion).toBe('2.0.0');
+      expect(result.files).toHaveLength(4);
+      expect(byPath['src/lib/stripe.ts'].status).toBe('modified');
+      expect(byPath['src/lib/stripe.ts'].diff).toContain("-  apiVersion: '2023-10-16',\n+  apiVersion: '2024-12-18.acacia',");
+      expect(byPath['src/app/api/checkout/route.ts'].diff).toContain('+      { idempotencyKey: idempotencyKey');
+      expect(byPath['src/components/checkout-button.tsx'].status).toBe('added');
+    });
+
+    it('should report dependency, env and configuration changes', async () => {
+      const input = diffTemplateSchema.parse({ templateId: CHECKOUT_ID, fromVersion: '1.2.0', toVersion: '2.0.0' });
+      const result = await handleDiffTemplate(input, templateService);
+
+      expect(result.dependencies).toEqual([
+        { name: 'stripe', type: 'dependencies', from: '^14.0.0', to: '^17.0.0' },
+        { name: '@stripe/stripe-js', type: 'dependencies', to: '^4.0.0' },
+      ]);
+      expect(result.envVariables.added.map((e) => e.name)).toEqual(['NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY']);
+      expect(result.envVariables.removed).toEqual([]);
+      expect(result.configuration).toEqual({
+        added: ['Get API keys from Stripe Dashboard'],
+        removed: ['Get the secret key from Stripe Dashboard'],
+      });
+      expect(result.changelog).toContain('Idempotent checkout sessions');
+    });
+
+    it('should render variables into paths', async () => {
+      const input = diffTemplateSchema.parse({ templateId: CHECKOUT_ID, fromVersion: '1.x', variables: { srcDir: 'app-src' } });
+      const result = await handleDiffTemplate(input, templateService);
+      const formatted = formatDiffTemplateResponse(result);
+
+      expect(result.files.map((f) => f.path)).toContain('app-src/lib/stripe.ts');
+      expect(formatted).toContain('```diff');
+      expect(formatted).toContain('`stripe` (dependencies): ^14.0.0 → ^17.0.0');
+    });
+
+    it('should hide out-of-scope templates', async () => {
+      const input = diffTemplateSchema.parse({ templateId: CHECKOUT_ID, fromVersion: '1.x' });
+
+      await expect(handleDiffTemplate(input, templateService, ['typescript/nextjs/auth'])).rejects.toThrow(
+        'Template not found'
+      );
+    });
+  });
+
+  describe('check_drift', () => {
+    const WEBHOOK_ID = 'typescript/nextjs/payment/stripe-webhook-handler';
+    const filesDir = path.join(TEMPLATES_DIR, WEBHOOK_ID, 'files');
+    let handlerSource: string;
+    let routeSource: string;
+
+    beforeAll(async () => {
+      // The files a project receives, with the default import alias rendered
+      const read = async (file: string): Promise<string> =>
+        (await fs.readFile(path.join(filesDir, file), 'utf-8')).replaceAll('{{importAlias}}', '@');
+      handlerSource = await read('webhook-handler.ts');
+      routeSource = await read('webhook-route.ts');
+    });
+
+    it('should report missing safeguards with a patch restoring them', async () => {
+      // A project that dropped the idempotency check
+      const drifted = handlerSource.replace(
+        /\n\s*\/\/ Idempotency check[\s\S]*?\n    }\n/,
+        '\n'
+      );
+      const input = checkDriftSchema.parse({
+        templateId: WEBHOOK_ID,
+        files: [{ path: 'src/lib/webhook-handler.ts', content: drifted }],
+      });
+      const report = await handleCheckDrift(input, templateService);
+      const [file] = report.files;
+
+      expect(file.status).toBe('modified');
+      expect(file.similarity).toBeGreaterThan(0.8);
+      expect(file.similarity).toBeLessThan(1);
+      expect(file.missingSafeguards.map((s) => s.name)).toEqual(['webhook-idempotency']);
+      expect(file.patch).toContain('+    if (await isEventProcessed(event.id)) {');
+      expect(report.summary.missingSafeguards).toBe(1);
+      expect(formatDriftReport(report)).toContain('`webhook-idempotency`');
+    });
+
+    it('should match files moved to another directory', async () => {
+      const input = checkDriftSchema.parse({
+        templateId: WEBHOOK_ID,
+        files: [
+          { path: './app/api/webhooks/stripe/route.ts', content: routeSource },
+          { path: 'src/lib/unrelated.ts', content: 'export const answer = 42;\n' },
+        ],
+      });
+      const report = await handleCheckDrift(input, templateService);
+      const byPath = Object.fromEntries(report.files.map((f) => [f.path, f]));
+
+      expect(byPath['app/api/webhooks/stripe/route.ts']).toMatchObject({
+        status: 'identical',
+        similarity: 1,
+        templatePath: 'src/app/api/webhooks/stripe/route.ts',
+        missingSafeguards: [],
+      });
+      expect(byPath['src/lib/unrelated.ts'].status).toBe('unmatched');
+      expect(report.uncheckedTemplateFiles).toContain('src/lib/webhook-handler.ts');
+    });
+
+    it('should flag rewritten files as diverged', async () => {
+      const input = checkDriftSchema.parse({
+        templateId: WEBHOOK_ID,
+        files: [
+          {
+            path: 'src/lib/webhook-handler.ts',
+            content: 'export function createWebhookHandler() {\n  return async () => ({ received: true });\n}\n',
+          },
+        ],
+      });
+      const report = await handleCheckDrift(input, templateService);
+
+      expect(report.files[0].status).toBe('diverged');
+      expect(report.files[0].missingSafeguards.map((s) => s.name)).toEqual([
+        'webhook-signature-verification',
+        'webhook-idempotency',
+        'webhook-mark-processed',
+      ]);
+    });
+  });
 });
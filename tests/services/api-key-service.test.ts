@@ -0,0 +1,88 @@
+/**
+ * Tests for ApiKeyService
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ApiKeyService, ApiKeyConfigError, parseApiKeysEnv } from '../../src/services/api-key-service.js';
+
+const TEAM_KEY = 'team-key-0123456789abcdef';
+const ADMIN_KEY = 'admin-key-0123456789abcdef';
+
+describe('ApiKeyService', () => {
+  describe('parseApiKeysEnv', () => {
+    it('should parse keys with and without scopes', () => {
+      const keys = parseApiKeysEnv(`${TEAM_KEY}:typescript/nextjs/payment|typescript/nextjs/auth, ${ADMIN_KEY}`);
+
+      expect(keys).toEqual([
+        { name: 'env-1', key: TEAM_KEY, scopes: ['typescript/nextjs/payment', 'typescript/nextjs/auth'] },
+        { name: 'env-2', key: ADMIN_KEY, scopes: undefined },
+      ]);
+    });
+
+    it('should reject short keys', () => {
+      expect(() => parseApiKeysEnv('short')).toThrow(ApiKeyConfigError);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the matching key with normalized scopes', () => {
+      const service = new ApiKeyService([
+        { name: 'team', key: TEAM_KEY, scopes: ['/typescript/nextjs/payment/'] },
+        { name: 'admin', key: ADMIN_KEY },
+      ]);
+
+      expect(service.authenticate(TEAM_KEY)).toMatchObject({ name: 'team', scopes: ['typescript/nextjs/payment'] });
+      expect(service.authenticate(ADMIN_KEY)?.name).toBe('admin');
+      expect(service.authenticate('not-a-key')).toBeNull();
+    });
+
+    it('should reject duplicate key names', () => {
+      expect(
+        () => new ApiKeyService([
+          { name: 'team', key: TEAM_KEY },
+          { name: 'team', key: ADMIN_KEY },
+        ])
+      ).toThrow('duplicate key name');
+    });
+  });
+
+  describe('load', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should combine the keys file and environment keys', async () => {
+      const file = path.join(tempDir, 'keys.json');
+      await fs.writeFile(file, JSON.stringify({ keys: [{ name: 'team', key: TEAM_KEY, scopes: ['typescript'] }] }));
+
+      const service = await ApiKeyService.load({ file, env: ADMIN_KEY });
+
+      expect(service.hasKeys()).toBe(true);
+      expect(service.authenticate(TEAM_KEY)?.scopes).toEqual(['typescript']);
+      expect(service.authenticate(ADMIN_KEY)?.name).toBe('env-1');
+    });
+
+    it('should report invalid keys files', async () => {
+      const file = path.join(tempDir, 'keys.json');
+      await fs.writeFile(file, JSON.stringify({ keys: [{ name: 'team' }] }));
+
+      await expect(ApiKeyService.load({ file })).rejects.toThrow(ApiKeyConfigError);
+    });
+
+    it('should have no keys when nothing is configured', async () => {
+      const service = await ApiKeyService.load({});
+
+      expect(service.hasKeys()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for EmbeddingService
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { EmbeddingService } from '../../src/services/embedding-service.js';
+import { config, getEmbeddingProvider } from '../../src/utils/config.js';
+
+describe('EmbeddingService', () => {
+  const original = { ...config };
+
+  afterEach(() => {
+    Object.assign(config, original);
+  });
+
+  describe('provider selection', () => {
+    it('should prefer EMBEDDING_PROVIDER over API key order', () => {
+      Object.assign(config, { OPENAI_API_KEY: 'sk-test', EMBEDDING_PROVIDER: 'ollama' });
+
+      expect(getEmbeddingProvider()).toBe('ollama');
+    });
+
+    it('should disable embeddings when the selected provider lacks its API key', () => {
+      Object.assign(config, { OPENAI_API_KEY: undefined, EMBEDDING_PROVIDER: 'openai' });
+
+      expect(getEmbeddingProvider()).toBeNull();
+      expect(new EmbeddingService().isAvailable()).toBe(false);
+    });
+  });
+
+  describe('ollama provider', () => {
+    let server: http.Server;
+    let requests: Array<{ url?: string; body: { model: string; input: string } }>;
+
+    beforeAll(async () => {
+      requests = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          const parsed = JSON.parse(body) as { model: string; input: string };
+          requests.push({ url: req.url, body: parsed });
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ model: parsed.model, embeddings: [[parsed.input.length, 1, 0]] }));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should embed text with the local server', async () => {
+      const { port } = server.address() as AddressInfo;
+      Object.assign(config, { EMBEDDING_PROVIDER: 'ollama', OLLAMA_URL: `http://127.0.0.1:${port}` });
+      const service = new EmbeddingService();
+
+      const embedding = await service.generateEmbedding('stripe webhooks');
+
+      expect(service.getProvider()).toBe('ollama');
+      expect(embedding).toEqual([15, 1, 0]);
+      expect(requests.at(-1)).toEqual({ url: '/api/embed', body: { model: 'nomic-embed-text', input: 'stripe webhooks' } });
+      expect(service.getModelName()).toBe('nomic-embed-text');
+      expect(service.getDimensions()).toBe(3);
+    });
+
+    it('should report an unreachable server', async () => {
+      Object.assign(config, { EMBEDDING_PROVIDER: 'ollama', OLLAMA_URL: 'http://127.0.0.1:1' });
+
+      await expect(new EmbeddingService().generateEmbedding('auth')).rejects.toThrow(/Ollama is not reachable/);
+    });
+
+    it('should give up on a server that does not answer', async () => {
+      // Accepts the request but never responds
+      const silent = http.createServer(() => {});
+      await new Promise<void>((resolve) => silent.listen(0, '127.0.0.1', resolve));
+      const { port } = silent.address() as AddressInfo;
+      Object.assign(config, { EMBEDDING_PROVIDER: 'ollama', OLLAMA_URL: `http://127.0.0.1:${port}`, OLLAMA_TIMEOUT_MS: 50 });
+
+      try {
+        await expect(new EmbeddingService().generateEmbedding('auth')).rejects.toThrow(/Ollama is not reachable/);
+      } finally {
+        silent.closeAllConnections();
+        await new Promise((resolve) => silent.close(resolve));
+      }
+    });
+  });
+});
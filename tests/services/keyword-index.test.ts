@@ -0,0 +1,85 @@
+/**
+ * Tests for KeywordIndex
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { KeywordIndex, tokenize } from '../../src/services/keyword-index.js';
+
+describe('tokenize', () => {
+  it('should lowercase, split, drop stop words and stem', () => {
+    expect(tokenize('Handling Stripe Subscriptions for the app')).toEqual(['handl', 'stripe', 'subscript', 'app']);
+  });
+
+  it('should split camelCase and punctuation', () => {
+    expect(tokenize('getServerSession/next-auth')).toEqual(['get', 'server', 'session', 'next', 'auth']);
+  });
+});
+
+describe('KeywordIndex', () => {
+  function buildIndex(): KeywordIndex {
+    const index = new KeywordIndex();
+    index.add('oauth', { name: 'OAuth Login', tags: 'oauth google', description: 'Sign in with Google' });
+    index.add('auth', { name: 'Auth', tags: 'auth credentials', description: 'Email and password sign in' });
+    index.add('billing', { name: 'Billing', tags: 'stripe', description: 'Recurring subscriptions with Stripe' });
+    index.add('checkout', { name: 'Checkout', tags: 'stripe payment', description: 'One-time Stripe payments' });
+    return index;
+  }
+
+  it('should match whole terms rather than substrings', () => {
+    const results = buildIndex().search('auth');
+
+    expect(results.map((r) => r.id)).toEqual(['auth']);
+  });
+
+  it('should match different forms of a word', () => {
+    const results = buildIndex().search('subscription payment');
+
+    expect(results.map((r) => r.id).sort()).toEqual(['billing', 'checkout']);
+    expect(results.find((r) => r.id === 'billing')?.matchedTerms).toEqual(['subscript']);
+  });
+
+  it('should report the fields each term matched', () => {
+    const [billing] = buildIndex().search('stripe recurring');
+
+    expect(billing.fields).toEqual({ stripe: ['tags', 'description'], recur: ['description'] });
+  });
+
+  it('should weight name hits above description hits', () => {
+    const index = new KeywordIndex();
+    index.add('named', { name: 'Webhook Handler', description: 'Handles events' });
+    index.add('described', { name: 'Events', description: 'Receives webhook calls' });
+
+    expect(index.search('webhook').map((r) => r.id)).toEqual(['named', 'described']);
+  });
+
+  it('should rank rare terms above common ones', () => {
+    const results = buildIndex().search('stripe recurring');
+
+    expect(results[0].id).toBe('billing');
+  });
+
+  it('should break ties by ID', () => {
+    const index = new KeywordIndex();
+    index.add('b', { name: 'Upload' });
+    index.add('a', { name: 'Upload' });
+
+    expect(index.search('upload').map((r) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('should skip documents the predicate excludes', () => {
+    const results = buildIndex().search('stripe', (id) => id !== 'billing');
+
+    expect(results.map((r) => r.id)).toEqual(['checkout']);
+  });
+
+  it('should replace and remove documents', () => {
+    const index = buildIndex();
+    index.add('auth', { name: 'Magic Link', description: 'Passwordless email sign in' });
+    expect(index.search('credentials')).toEqual([]);
+
+    expect(index.remove('checkout')).toBe(true);
+    expect(index.size).toBe(3);
+    expect(index.search('payment')).toEqual([]);
+  });
+});
@@ -2,13 +2,17 @@
  * Tests for SearchService
  */
 
-import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import { TemplateService } from '../../src/services/template-service.js';
 import { EmbeddingService } from '../../src/services/embedding-service.js';
 import { SearchService } from '../../src/services/search-service.js';
+import { config, getEmbeddingsCachePath } from '../../src/utils/config.js';
+import type { EmbeddingCache } from '../../src/types/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
@@ -17,11 +21,17 @@ describe('SearchService', () => {
   let templateService: TemplateService;
   let embeddingService: EmbeddingService;
   let searchService: SearchService;
+  let tempDir: string;
 
-  beforeAll(() => {
+  beforeAll(async () => {
     templateService = new TemplateService(TEMPLATES_DIR);
     embeddingService = new EmbeddingService();
-    searchService = new SearchService(templateService, embeddingService);
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-service-'));
+    searchService = new SearchService(templateService, embeddingService, path.join(tempDir, 'embeddings.json'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
   });
 
   describe('initialization', () => {
@@ -57,6 +67,7 @@ describe('SearchService', () => {
         (r) => r.category === 'auth' || r.templateId.includes('auth')
       );
       expect(hasAuthTemplate).toBe(true);
+      expect(results.every((r) => r.root === 'bundled')).toBe(true);
 
       vi.restoreAllMocks();
     });
@@ -97,6 +108,78 @@ describe('SearchService', () => {
       vi.restoreAllMocks();
     });
 
+    it('should match stemmed terms and scale the best match to 1', async () => {
+      searchService.clearCache();
+      vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+      await searchService.initialize();
+
+      const results = await searchService.search('recurring subscriptions');
+
+      expect(results[0].templateId).toBe('typescript/nextjs/payment/stripe-subscription');
+      expect(results[0].score).toBe(1);
+      expect(results.every((r) => r.score > 0 && r.score <= 1)).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should find terms in template code and point to the lines', async () => {
+      searchService.clearCache();
+      vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+      await searchService.initialize();
+
+      const results = await searchService.search('constructEvent signature verification');
+      const checkout = results.find((r) => r.templateId === 'typescript/nextjs/payment/stripe-checkout');
+      const hit = checkout?.hits.find((h) => h.file === 'webhook-route.ts');
+
+      expect(hit).toBeDefined();
+      expect(hit?.signals).toEqual(['keyword']);
+      const code = await templateService.getTemplateCode('typescript/nextjs/payment/stripe-checkout');
+      const lines = code['webhook-route.ts'].split('\n').slice((hit?.startLine ?? 1) - 1, hit?.endLine);
+      expect(lines.join('\n')).toContain('constructEvent');
+
+      vi.restoreAllMocks();
+    });
+
+    it('should find terms in template READMEs', async () => {
+      searchService.clearCache();
+      vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+      await searchService.initialize();
+
+      const results = await searchService.search('presigned URL');
+
+      expect(results[0].templateId).toBe('typescript/nextjs/storage/s3-upload');
+      expect(results[0].hits.some((h) => h.file === 'README.md')).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should return the same order for the same query', async () => {
+      searchService.clearCache();
+      vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+      await searchService.initialize();
+
+      const first = await searchService.search('stripe webhook');
+      const second = await searchService.search('stripe webhook');
+
+      expect(second.map((r) => r.templateId)).toEqual(first.map((r) => r.templateId));
+
+      vi.restoreAllMocks();
+    });
+
+    it('should answer from the previous index while a refresh is running', async () => {
+      searchService.clearCache();
+      vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+      await searchService.initialize();
+
+      const refresh = searchService.refreshTemplates(['typescript/nextjs/payment/stripe-checkout']);
+      const during = await searchService.search('stripe checkout');
+      await refresh;
+
+      expect(during.map((r) => r.templateId)).toContain('typescript/nextjs/payment/stripe-checkout');
+
+      vi.restoreAllMocks();
+    });
+
     it('should respect limit', async () => {
       searchService.clearCache();
       vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
@@ -110,6 +193,312 @@ describe('SearchService', () => {
     });
   });
 
+  describe('hybrid search', () => {
+    const WEBHOOK = 'typescript/nextjs/payment/stripe-webhook-handler';
+    const SUBSCRIPTION = 'typescript/nextjs/payment/stripe-subscription';
+
+    /**
+     * Search service with fake embeddings: the query is closest to stripe-subscription,
+     * while the keyword index favors the webhook handler's "idempotency" tag
+     */
+    async function createHybridSearch(): Promise<SearchService> {
+      const embeddings = new EmbeddingService();
+      vi.spyOn(embeddings, 'isAvailable').mockReturnValue(true);
+      vi.spyOn(embeddings, 'generateEmbedding').mockResolvedValue([1, 0]);
+      vi.spyOn(embeddings, 'generateBatchEmbeddings').mockImplementation(async (templates) => {
+        return new Map(templates.map((t) => [t.id, t.id === SUBSCRIPTION ? [1, 0] : t.id === WEBHOOK ? [1, 1] : [0, 1]]));
+      });
+
+      const service = new SearchService(templateService, embeddings, path.join(tempDir, 'hybrid-embeddings.json'));
+      await service.initialize();
+      return service;
+    }
+
+    it('should fuse semantic and keyword rankings by default', async () => {
+      const service = await createHybridSearch();
+
+      const results = await service.search('idempotent webhook');
+      const webhook = results.find((r) => r.templateId === WEBHOOK);
+
+      expect(results[0].templateId).toBe(WEBHOOK);
+      expect(webhook?.signals.semantic?.rank).toBe(2);
+      expect(webhook?.signals.keyword?.rank).toBe(1);
+      expect(webhook?.signals.keyword?.matchedTerms).toEqual(['idempot', 'webhook']);
+      expect(webhook?.score).toBeCloseTo(
+        (webhook?.signals.semantic?.contribution ?? 0) + (webhook?.signals.keyword?.contribution ?? 0)
+      );
+
+      vi.restoreAllMocks();
+    });
+
+    it('should report code chunks closer to the query than the metadata', async () => {
+      const embeddings = new EmbeddingService();
+      vi.spyOn(embeddings, 'isAvailable').mockReturnValue(true);
+      vi.spyOn(embeddings, 'generateEmbedding').mockResolvedValue([1, 0]);
+      vi.spyOn(embeddings, 'generateBatchEmbeddings').mockImplementation(async (inputs) => {
+        return new Map(inputs.map((input) => [input.id, input.id.endsWith('#s3.ts:1-40') ? [1, 0] : [0, 1]]));
+      });
+      const service = new SearchService(templateService, embeddings, path.join(tempDir, 'chunk-embeddings.json'));
+      await service.initialize();
+
+      const [result] = await service.search('presigned upload url', { mode: 'semantic' });
+
+      expect(result.templateId).toBe('typescript/nextjs/storage/s3-upload');
+      expect(result.hits).toEqual([{ file: 's3.ts', startLine: 1, endLine: 40, signals: ['semantic'] }]);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should use a single signal when a mode is requested', async () => {
+      const service = await createHybridSearch();
+
+      const semantic = await service.search('idempotent webhook', { mode: 'semantic' });
+      const keyword = await service.search('idempotent webhook', { mode: 'keyword' });
+
+      expect(semantic[0].templateId).toBe(SUBSCRIPTION);
+      expect(semantic.every((r) => r.signals.keyword === undefined)).toBe(true);
+      expect(semantic[0].score).toBe(semantic[0].signals.semantic?.score);
+      expect(keyword.every((r) => r.signals.semantic === undefined)).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should apply per-request weights', async () => {
+      const service = await createHybridSearch();
+
+      const semanticHeavy = await service.search('idempotent webhook', { weights: { semantic: 10, keyword: 1 } });
+      const keywordOff = await service.search('idempotent webhook', { weights: { keyword: 0 } });
+      const weighted = await service.search('idempotent webhook', {
+        fusion: 'weighted',
+        weights: { semantic: 1, keyword: 3 },
+      });
+
+      expect(semanticHeavy[0].templateId).toBe(SUBSCRIPTION);
+      expect(keywordOff.every((r) => r.signals.keyword === undefined)).toBe(true);
+      const webhook = weighted.find((r) => r.templateId === WEBHOOK);
+      expect(webhook?.signals.keyword?.contribution).toBeCloseTo(0.75 * (webhook?.signals.keyword?.score ?? 0));
+
+      vi.restoreAllMocks();
+    });
+
+    it('should explain scores on request', async () => {
+      const service = await createHybridSearch();
+
+      const [plain] = await service.search('idempotent webhook');
+      const [explained] = await service.search('idempotent webhook', { explain: true, weights: { keyword: 3 } });
+      const explanation = explained.explanation;
+
+      expect(plain.explanation).toBeUndefined();
+      expect(explanation?.fusion).toBe('rrf');
+      expect(explanation?.rrfK).toBe(60);
+      expect(explanation?.weights).toEqual({ semantic: 0.25, keyword: 0.75 });
+      expect(explanation?.semantic?.metadataSimilarity).toBeCloseTo(Math.SQRT1_2);
+      expect(explanation?.keyword?.contentWeight).toBe(0.5);
+      expect(explanation?.keyword?.terms.find((t) => t.term === 'idempot')?.fields).toContain('tags');
+      expect(explanation?.keyword?.fieldWeights.tags).toBe(2);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should only count templates that match the query in totals and facets', async () => {
+      const service = await createHybridSearch();
+
+      // No keyword matches; only the two templates similar to the query embedding match semantically
+      const response = await service.searchWithFacets('qwertyuiop zxcvbnm');
+
+      expect(response.total).toBe(2);
+      expect(response.results.map((r) => r.templateId).sort()).toEqual([SUBSCRIPTION, WEBHOOK]);
+      expect(response.facets.category).toEqual({ payment: 2 });
+
+      vi.restoreAllMocks();
+    });
+
+    it('should fall back to keyword search when the query embedding fails', async () => {
+      const embeddings = new EmbeddingService();
+      vi.spyOn(embeddings, 'isAvailable').mockReturnValue(true);
+      vi.spyOn(embeddings, 'generateEmbedding').mockRejectedValue(new Error('connect ECONNREFUSED'));
+      vi.spyOn(embeddings, 'generateBatchEmbeddings').mockImplementation(async (inputs) => {
+        return new Map(inputs.map((input) => [input.id, [0, 1]]));
+      });
+      const service = new SearchService(templateService, embeddings, path.join(tempDir, 'offline-embeddings.json'));
+      await service.initialize();
+
+      const hybrid = await service.search('idempotent webhook');
+      const semantic = await service.search('idempotent webhook', { mode: 'semantic' });
+
+      expect(hybrid[0].templateId).toBe(WEBHOOK);
+      expect(hybrid.every((r) => r.signals.keyword && !r.signals.semantic)).toBe(true);
+      expect(semantic.map((r) => r.templateId)).toEqual(hybrid.map((r) => r.templateId));
+
+      vi.restoreAllMocks();
+    });
+
+    it('should fall back to keyword search without embeddings', async () => {
+      searchService.clearCache();
+      vi.spyOn(embeddingService, 'isAvailable').mockReturnValue(false);
+      await searchService.initialize();
+
+      const results = await searchService.search('idempotent webhook', { mode: 'semantic' });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((r) => r.signals.keyword && !r.signals.semantic)).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('embedding cache', () => {
+    /**
+     * Embedding service with a fake 2-dimensional model that records which templates it embeds
+     */
+    function createEmbeddings(model = 'test-model', dimensions = 2): { service: EmbeddingService; embedded: string[] } {
+      const embedded: string[] = [];
+      const service = new EmbeddingService();
+      vi.spyOn(service, 'isAvailable').mockReturnValue(true);
+      vi.spyOn(service, 'getModelName').mockReturnValue(model);
+      vi.spyOn(service, 'getDimensions').mockReturnValue(dimensions);
+      vi.spyOn(service, 'generateBatchEmbeddings').mockImplementation(async (templates) => {
+        embedded.push(...templates.map((t) => t.id));
+        return new Map(templates.map((t) => [t.id, new Array<number>(dimensions).fill(1)]));
+      });
+      return { service, embedded };
+    }
+
+    async function readCache(cachePath: string): Promise<EmbeddingCache> {
+      return JSON.parse(await fs.readFile(cachePath, 'utf-8')) as EmbeddingCache;
+    }
+
+    it('should keep the cache outside the templates unless EMBEDDINGS_CACHE says otherwise', () => {
+      const original = config.EMBEDDINGS_CACHE;
+      try {
+        config.EMBEDDINGS_CACHE = undefined;
+        expect(getEmbeddingsCachePath()).toMatch(/sfvibe-templates-mcp[\\/]embeddings\.json$/);
+        expect(getEmbeddingsCachePath().startsWith(TEMPLATES_DIR)).toBe(false);
+
+        config.EMBEDDINGS_CACHE = path.join(tempDir, 'custom.json');
+        expect(getEmbeddingsCachePath()).toBe(path.join(tempDir, 'custom.json'));
+      } finally {
+        config.EMBEDDINGS_CACHE = original;
+      }
+    });
+
+    it('should write hashes, model and dimensions, then reuse fresh entries', async () => {
+      const cachePath = path.join(tempDir, 'fresh.json');
+      const first = createEmbeddings();
+      await new SearchService(templateService, first.service, cachePath).initialize();
+
+      const cache = await readCache(cachePath);
+      expect(cache.model).toBe('test-model');
+      expect(cache.dimensions).toBe(2);
+      expect(Object.keys(cache.embeddings)).toHaveLength(first.embedded.length);
+      expect(Object.values(cache.embeddings).every((e) => /^[0-9a-f]{64}$/.test(e.hash))).toBe(true);
+
+      const second = createEmbeddings();
+      const service = new SearchService(templateService, second.service, cachePath);
+      await service.initialize();
+
+      expect(second.embedded).toEqual([]);
+      expect(service.hasSemanticSearch()).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should re-embed stale and missing entries and drop orphans', async () => {
+      const cachePath = path.join(tempDir, 'stale.json');
+      await new SearchService(templateService, createEmbeddings().service, cachePath).initialize();
+
+      const cache = await readCache(cachePath);
+      const [staleId, missingId] = Object.keys(cache.embeddings);
+      cache.embeddings[staleId].hash = 'outdated';
+      delete cache.embeddings[missingId];
+      cache.embeddings['typescript/nextjs/auth/removed-template'] = { hash: 'x', embedding: [1, 1] };
+      await fs.writeFile(cachePath, JSON.stringify(cache));
+
+      const { service, embedded } = createEmbeddings();
+      await new SearchService(templateService, service, cachePath).initialize();
+
+      expect(embedded.sort()).toEqual([staleId, missingId].sort());
+      const updated = await readCache(cachePath);
+      expect(updated.embeddings[staleId].hash).not.toBe('outdated');
+      expect(updated.embeddings[missingId]).toBeDefined();
+      expect(updated.embeddings['typescript/nextjs/auth/removed-template']).toBeUndefined();
+
+      vi.restoreAllMocks();
+    });
+
+    it('should re-embed everything when the model or dimensions change', async () => {
+      const cachePath = path.join(tempDir, 'model.json');
+      const original = createEmbeddings('gemini-model', 2);
+      await new SearchService(templateService, original.service, cachePath).initialize();
+
+      const switched = createEmbeddings('openai-model', 3);
+      const service = new SearchService(templateService, switched.service, cachePath);
+      await service.initialize();
+
+      expect(switched.embedded).toHaveLength(original.embedded.length);
+      expect((await readCache(cachePath)).dimensions).toBe(3);
+      expect(service.hasSemanticSearch()).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should reuse embeddings in memory when the cache cannot be written', async () => {
+      // A file where the cache directory should be makes every write fail, as on a read-only install
+      const blocker = path.join(tempDir, 'read-only');
+      await fs.writeFile(blocker, '');
+      const { service, embedded } = createEmbeddings();
+      const search = new SearchService(templateService, service, path.join(blocker, 'embeddings.json'));
+      await search.initialize();
+      const initial = embedded.length;
+
+      await search.refreshTemplates(['typescript/nextjs/payment/stripe-checkout']);
+
+      expect(initial).toBeGreaterThan(0);
+      expect(embedded).toHaveLength(initial);
+      expect(search.hasSemanticSearch()).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should keep semantic search when some documents lack embeddings', async () => {
+      const { service } = createEmbeddings();
+      const batch = vi.mocked(service.generateBatchEmbeddings).getMockImplementation();
+      vi.mocked(service.generateBatchEmbeddings).mockImplementation(async (inputs) => {
+        const embeddings = (await batch?.(inputs)) ?? new Map();
+        embeddings.delete('typescript/nextjs/payment/stripe-checkout');
+        return embeddings;
+      });
+      vi.spyOn(service, 'generateEmbedding').mockResolvedValue([1, 1]);
+      const search = new SearchService(templateService, service, path.join(tempDir, 'partial.json'));
+      await search.initialize();
+
+      const results = await search.search('stripe checkout', { mode: 'semantic', limit: 50 });
+
+      expect(search.hasSemanticSearch()).toBe(true);
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((r) => r.signals.semantic)).toBe(true);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should ignore a cache in the old format', async () => {
+      const cachePath = path.join(tempDir, 'old-format.json');
+      await fs.writeFile(cachePath, JSON.stringify({
+        embeddings: { 'typescript/nextjs/payment/stripe-checkout': [1, 1] },
+        generatedAt: '2025-01-01T00:00:00.000Z',
+        model: 'test-model',
+      }));
+
+      const { service, embedded } = createEmbeddings();
+      await new SearchService(templateService, service, cachePath).initialize();
+
+      expect(embedded).toContain('typescript/nextjs/payment/stripe-checkout');
+      expect((await readCache(cachePath)).dimensions).toBe(2);
+
+      vi.restoreAllMocks();
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear the search cache', async () => {
       await searchService.initialize();
@@ -2,11 +2,19 @@
  * Tests for TemplateService
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { TemplateService } from '../../src/services/template-service.js';
+import {
+  InvalidTemplateError,
+  TemplateService,
+  TemplateVariableError,
+  TemplateVersionNotFoundError,
+  TemplateVersionRemovedError,
+} from '../../src/services/template-service.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = path.resolve(__dirname, '../../templates');
@@ -137,6 +145,170 @@ describe('TemplateService', () => {
     });
   });
 
+  describe('resolveTemplateFiles', () => {
+    it('should map every source file to its declared destination', async () => {
+      const resolved = await service.resolveTemplateFiles('typescript/nextjs/payment/stripe-checkout');
+
+      expect(resolved).not.toBeNull();
+      expect(resolved?.unmappedSources).toEqual([]);
+      expect(resolved?.missingFiles).toEqual([]);
+
+      const mapping = Object.fromEntries(resolved!.files.map((f) => [f.path, f.source]));
+      expect(mapping).toEqual({
+        'src/lib/stripe.ts': 'stripe.ts',
+        'src/app/api/checkout/route.ts': 'checkout-route.ts',
+        'src/app/api/webhooks/stripe/route.ts': 'webhook-route.ts',
+        'src/components/checkout-button.tsx': 'checkout-button.tsx',
+      });
+    });
+
+    it('should map files with the same name by their declared source', async () => {
+      const resolved = await service.resolveTemplateFiles('typescript/nextjs/auth/supabase-auth');
+      const mapping = Object.fromEntries(resolved!.files.map((f) => [f.path, f.source]));
+
+      expect(mapping['src/middleware.ts']).toBe('middleware.ts');
+      expect(mapping['src/lib/supabase/middleware.ts']).toBe('middleware-client.ts');
+    });
+
+    it('should return null for non-existent template', async () => {
+      const resolved = await service.resolveTemplateFiles('typescript/nextjs/auth/non-existent');
+
+      expect(resolved).toBeNull();
+    });
+  });
+
+  describe('getTemplateCodeByDestination', () => {
+    it('should key code by destination path', async () => {
+      const code = await service.getTemplateCodeByDestination('typescript/nextjs/auth/nextauth-google');
+
+      expect(Object.keys(code).sort()).toEqual([
+        'src/app/api/auth/[...nextauth]/route.ts',
+        'src/auth.ts',
+        'src/components/auth-buttons.tsx',
+      ]);
+    });
+
+    it('should throw for non-existent template', async () => {
+      await expect(
+        service.getTemplateCodeByDestination('typescript/nextjs/auth/non-existent')
+      ).rejects.toThrow('Template not found');
+    });
+  });
+
+  describe('template variables', () => {
+    const templateId = 'typescript/nextjs/payment/stripe-checkout';
+
+    it('should render defaults when no values are given', async () => {
+      const template = await service.getTemplateWithCode(templateId);
+
+      expect(template?.files.map((f) => f.path)).toContain('src/app/api/checkout/route.ts');
+      expect(template?.code['checkout-route.ts']).toContain("from '@/lib/stripe'");
+    });
+
+    it('should render supplied values into paths and code', async () => {
+      const code = await service.getTemplateCodeByDestination(templateId, {
+        srcDir: '.',
+        importAlias: '~',
+        routeBase: 'api/v1',
+      });
+
+      expect(Object.keys(code)).toContain('app/api/v1/checkout/route.ts');
+      expect(code['app/api/v1/checkout/route.ts']).toContain("from '~/lib/stripe'");
+      expect(code['components/checkout-button.tsx']).toContain("fetch('/api/v1/checkout'");
+    });
+
+    it('should reject unknown variables', async () => {
+      await expect(service.getTemplateWithCode(templateId, { tablePrefix: 'app_' })).rejects.toThrow(
+        'Unknown variable "tablePrefix"'
+      );
+    });
+
+    it('should reject values that fail validation', async () => {
+      await expect(service.getTemplateWithCode(templateId, { srcDir: '../outside' })).rejects.toThrow(
+        TemplateVariableError
+      );
+    });
+
+    it('should require variables without a default', async () => {
+      const template = await service.getTemplateWithCode(templateId);
+      const withRequired = {
+        ...template!,
+        variables: [{ name: 'appName', description: 'Application name', type: 'string' as const }],
+      };
+
+      expect(() => service.renderTemplate(withRequired)).toThrow('Missing required variable "appName"');
+    });
+  });
+
+  describe('feature modules', () => {
+    const CREDENTIALS_ID = 'typescript/nextjs/auth/nextauth-credentials';
+
+    it('should load a feature with its code from features/<name>/', async () => {
+      const feature = await service.getFeatureWithCode(CREDENTIALS_ID, 'role-based-access');
+
+      expect(feature?.files?.map((f) => f.path)).toEqual(['src/lib/rbac.ts', 'src/types/next-auth.d.ts']);
+      expect(Object.keys(feature?.code ?? {}).sort()).toEqual(['next-auth.d.ts', 'rbac.ts']);
+      expect(feature?.code['rbac.ts']).toContain('export async function requireRole');
+      expect(feature?.schemaChanges?.[0].path).toBe('prisma/schema.prisma');
+    });
+
+    it('should keep feature files out of the template code', async () => {
+      const template = await service.getTemplateWithCode(CREDENTIALS_ID);
+
+      expect(template?.features?.map((f) => f.name)).toEqual(['role-based-access', '2fa']);
+      expect(Object.keys(template?.code ?? {})).not.toContain('rbac.ts');
+    });
+
+    it('should resolve feature files to their rendered destinations', async () => {
+      const resolved = await service.resolveFeatureFiles(CREDENTIALS_ID, '2fa', { srcDir: '.' });
+
+      expect(resolved?.files.map((f) => [f.source, f.path])).toEqual([
+        ['totp.ts', 'lib/totp.ts'],
+        ['two-factor-actions.ts', 'lib/two-factor-actions.ts'],
+      ]);
+      expect(resolved?.files[0].content).toContain('export');
+      expect(resolved?.missingFiles).toEqual([]);
+      expect(resolved?.unmappedSources).toEqual([]);
+      expect(await service.resolveFeatureFiles(CREDENTIALS_ID, 'session-management')).toBeNull();
+    });
+
+    it('should render variables into feature schema changes and env examples', async () => {
+      const template = await service.getTemplateWithCode(CREDENTIALS_ID);
+      const withPlaceholders = {
+        ...template!,
+        features: [
+          {
+            name: 'audit-log',
+            description: 'Audit log of sign-ins',
+            envVariables: [
+              {
+                name: 'AUDIT_LOG_URL',
+                description: 'Audit log endpoint',
+                required: false,
+                example: '/{{authRouteBase}}/audit',
+              },
+            ],
+            schemaChanges: [
+              { path: 'prisma/schema.prisma', description: 'Audit table', content: '// routes under /{{authRouteBase}}' },
+            ],
+            steps: ['Import the logger from {{importAlias}}/lib/audit'],
+          },
+        ],
+      };
+
+      const [feature] = service.renderTemplate(withPlaceholders, { authRouteBase: 'auth', importAlias: '~' }).features!;
+
+      expect(feature.envVariables?.[0].example).toBe('/auth/audit');
+      expect(feature.schemaChanges?.[0].content).toBe('// routes under /auth');
+      expect(feature.steps).toEqual(['Import the logger from ~/lib/audit']);
+    });
+
+    it('should return null for undeclared features', async () => {
+      expect(await service.getFeatureWithCode(CREDENTIALS_ID, 'session-management')).toBeNull();
+      expect(await service.getFeatureWithCode('typescript/nextjs/auth/nextauth-google', '2fa')).toBeNull();
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear the template cache', async () => {
       await service.loadTemplate('typescript/nextjs/auth/nextauth-google');
@@ -147,4 +319,295 @@ describe('TemplateService', () => {
       expect(template).not.toBeNull();
     });
   });
+
+  describe('template roots', () => {
+    const RESEND_ID = 'typescript/nextjs/email/resend';
+    const TEAM_ID = 'typescript/nextjs/email/team-digest';
+    let teamDir: string;
+    let layered: TemplateService;
+
+    beforeAll(async () => {
+      teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+
+      // Shadow the bundled resend template with a modified copy
+      const shadowDir = path.join(teamDir, RESEND_ID);
+      await fs.cp(path.join(TEMPLATES_DIR, RESEND_ID), shadowDir, { recursive: true });
+      const metadataPath = path.join(shadowDir, 'metadata.json');
+      const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+      await fs.writeFile(metadataPath, JSON.stringify({ ...metadata, name: 'Team Resend' }));
+      await fs.writeFile(path.join(shadowDir, 'files', 'email.ts'), '// team email client\n');
+
+      // Add a template only the team root has
+      const teamTemplateDir = path.join(teamDir, TEAM_ID);
+      await fs.cp(path.join(TEMPLATES_DIR, RESEND_ID), teamTemplateDir, { recursive: true });
+      await fs.writeFile(
+        path.join(teamTemplateDir, 'metadata.json'),
+        JSON.stringify({ ...metadata, id: TEAM_ID, name: 'Team Digest' })
+      );
+
+      layered = new TemplateService([
+        { name: 'team', path: teamDir },
+        { name: 'bundled', path: TEMPLATES_DIR },
+      ]);
+    });
+
+    afterAll(async () => {
+      await fs.rm(teamDir, { recursive: true, force: true });
+    });
+
+    it('should report the root serving each template', async () => {
+      const locations = await layered.getTemplateLocations();
+      const byId = Object.fromEntries(locations.map((l) => [l.id, l]));
+
+      expect(byId[RESEND_ID]).toEqual({ id: RESEND_ID, root: 'team', shadows: ['bundled'] });
+      expect(byId[TEAM_ID]).toEqual({ id: TEAM_ID, root: 'team', shadows: [] });
+      expect(byId['typescript/nextjs/auth/nextauth-google'].root).toBe('bundled');
+    });
+
+    it('should list each ID once', async () => {
+      const ids = await layered.getAllTemplateIds();
+
+      expect(ids.filter((id) => id === RESEND_ID)).toHaveLength(1);
+      expect(ids).toContain(TEAM_ID);
+    });
+
+    it('should load shadowed templates from the higher-precedence root', async () => {
+      const template = await layered.getTemplateWithCode(RESEND_ID);
+
+      expect(template?.name).toBe('Team Resend');
+      expect(template?.root).toBe('team');
+      expect(template?.code['email.ts']).toBe('// team email client\n');
+    });
+
+    it('should include the root in list items', async () => {
+      const items = await layered.listTemplateItems({ category: 'email' });
+
+      expect(items.map((i) => [i.id, i.root])).toEqual(
+        expect.arrayContaining([
+          [RESEND_ID, 'team'],
+          [TEAM_ID, 'team'],
+        ])
+      );
+    });
+
+    it('should reject duplicate root names', () => {
+      expect(
+        () => new TemplateService([
+          { name: 'team', path: teamDir },
+          { name: 'team', path: TEMPLATES_DIR },
+        ])
+      ).toThrow('Duplicate template root name');
+    });
+  });
+
+  describe('template inheritance', () => {
+    const RESEND_ID = 'typescript/nextjs/email/resend';
+    const CHILD_ID = 'typescript/nextjs/email/resend-minimal';
+    const CYCLE_A = 'typescript/nextjs/email/cycle-a';
+    const CYCLE_B = 'typescript/nextjs/email/cycle-b';
+    const CHECKOUT_ID = 'typescript/nextjs/payment/stripe-checkout';
+    const PINNED_ID = 'typescript/nextjs/payment/checkout-coupons';
+    let teamDir: string;
+    let inherited: TemplateService;
+
+    /**
+     * Write a template's metadata (and optional own files) into the team root
+     */
+    const writeTemplate = async (
+      id: string,
+      metadata: Record<string, unknown>,
+      files: Record<string, string> = {}
+    ): Promise<void> => {
+      const templateDir = path.join(teamDir, id);
+      await fs.mkdir(path.join(templateDir, 'files'), { recursive: true });
+      await fs.writeFile(path.join(templateDir, 'metadata.json'), JSON.stringify({ id, ...metadata }));
+      for (const [source, content] of Object.entries(files)) {
+        await fs.writeFile(path.join(templateDir, 'files', source), content);
+      }
+    };
+
+    beforeAll(async () => {
+      teamDir = await fs.mkdtemp(path.join(os.tmpdir(), 'team-templates-'));
+
+      await writeTemplate(
+        CHILD_ID,
+        {
+          extends: RESEND_ID,
+          name: 'Resend Minimal',
+          dependencies: { resend: '^4.1.0' },
+          envVariables: [{ name: 'EMAIL_FROM', description: 'Sender', required: false }],
+          tags: ['minimal'],
+          removeFiles: ['{{srcDir}}/app/api/email/send/route.ts'],
+          files: [{ path: '{{srcDir}}/lib/email.ts', source: 'email.ts', description: 'Minimal sender', isRequired: true }],
+        },
+        { 'email.ts': '// minimal email client\n' }
+      );
+      await writeTemplate(CYCLE_A, { extends: CYCLE_B, name: 'Cycle A' });
+      await writeTemplate(CYCLE_B, { extends: CYCLE_A, name: 'Cycle B' });
+
+      // 2.0.0 follows the current checkout; the archived 1.0.0 stays on the checkout it was released with
+      const child = { name: 'Checkout with Coupons', tags: ['coupons'], variant: 'coupons' };
+      await writeTemplate(PINNED_ID, { ...child, extends: CHECKOUT_ID, version: '2.0.0' });
+      await writeTemplate(`${PINNED_ID}/versions/1.0.0`, {
+        ...child,
+        id: PINNED_ID,
+        extends: `${CHECKOUT_ID}@1.2.0`,
+        version: '1.0.0',
+      });
+
+      inherited = new TemplateService([
+        { name: 'team', path: teamDir },
+        { name: 'bundled', path: TEMPLATES_DIR },
+      ]);
+    });
+
+    afterAll(async () => {
+      await fs.rm(teamDir, { recursive: true, force: true });
+    });
+
+    it('should merge parent metadata with child overrides', async () => {
+      const template = await inherited.loadTemplate(CHILD_ID);
+
+      expect(template?.name).toBe('Resend Minimal');
+      expect(template?.category).toBe('email');
+      expect(template?.dependencies).toEqual({ resend: '^4.1.0', '@react-email/components': '^0.0.25' });
+      expect(template?.envVariables.map((e) => [e.name, e.required])).toEqual([
+        ['RESEND_API_KEY', true],
+        ['EMAIL_FROM', false],
+      ]);
+      expect(template?.tags).toEqual(expect.arrayContaining(['resend', 'minimal']));
+      expect(template?.usage.installation).toContain('pnpm add resend');
+      expect(template?.root).toBe('team');
+    });
+
+    it('should apply file overrides and deletions', async () => {
+      const template = await inherited.getTemplateWithCode(CHILD_ID);
+
+      expect(template?.files.map((f) => f.path)).toEqual(['src/lib/email.ts', 'src/emails/welcome.tsx']);
+      expect(template?.files[0].description).toBe('Minimal sender');
+      expect(Object.keys(template?.code ?? {}).sort()).toEqual(['email.ts', 'welcome.tsx']);
+      expect(template?.code['email.ts']).toBe('// minimal email client\n');
+    });
+
+    it('should fall back to the parent README', async () => {
+      const readme = await inherited.getReadme(CHILD_ID);
+
+      expect(readme).not.toBeNull();
+      expect(readme).toBe(await inherited.getReadme(RESEND_ID));
+    });
+
+    it('should resolve a pinned parent at the pinned version', async () => {
+      const pinned = await inherited.getTemplateWithCode(PINNED_ID, {}, '1.0.0');
+      const current = await inherited.getTemplateWithCode(PINNED_ID);
+
+      expect(pinned?.dependencies).toEqual({ stripe: '^14.0.0' });
+      expect(pinned?.code['stripe.ts']).toContain("apiVersion: '2023-10-16'");
+      expect(await inherited.getReadme(PINNED_ID, '1.0.0')).toContain('# Stripe Checkout Template (1.2.0)');
+      expect(current?.dependencies.stripe).toBe('^17.0.0');
+      expect(current?.code['stripe.ts']).toContain("apiVersion: '2024-12-18.acacia'");
+      expect(current?.removedVersions).toBeUndefined();
+    });
+
+    it('should reject parent pins that match no version', async () => {
+      await writeTemplate(`${PINNED_ID}/versions/0.9.0`, { id: PINNED_ID, extends: `${CHECKOUT_ID}@0.x`, version: '0.9.0' });
+
+      await expect(inherited.loadTemplate(PINNED_ID, '0.9.0')).rejects.toThrow(`Cannot resolve parent ${CHECKOUT_ID}@0.x`);
+    });
+
+    it('should reject inheritance cycles', async () => {
+      await expect(inherited.loadTemplate(CYCLE_A)).rejects.toThrow(InvalidTemplateError);
+      await expect(inherited.loadTemplate(CYCLE_A)).rejects.toThrow(
+        `Inheritance cycle: ${CYCLE_A} -> ${CYCLE_B} -> ${CYCLE_A}`
+      );
+    });
+
+    it('should skip broken templates when listing', async () => {
+      const ids = (await inherited.listTemplates({ category: 'email' })).map((t) => t.id);
+
+      expect(ids).toContain(CHILD_ID);
+      expect(ids).not.toContain(CYCLE_A);
+    });
+
+    it('should share bundled base templates between variants', async () => {
+      const google = await service.getTemplateCodeByDestination('typescript/nextjs/auth/nextauth-google');
+      const credentials = await service.getTemplateCodeByDestination('typescript/nextjs/auth/nextauth-credentials');
+      const subscription = await service.loadTemplate('typescript/nextjs/payment/stripe-subscription');
+
+      expect(google['src/app/api/auth/[...nextauth]/route.ts']).toContain("import { handlers } from '@/auth';");
+      expect(credentials['src/app/api/auth/[...nextauth]/route.ts']).toBe(google['src/app/api/auth/[...nextauth]/route.ts']);
+      expect(subscription?.files.map((f) => f.path)).toContain('{{srcDir}}/lib/stripe.ts');
+      expect(subscription?.safeguards?.map((s) => s.name)).toContain('stripe-secret-key-check');
+    });
+
+    it('should leave abstract templates out of listings', async () => {
+      const ids = (await service.listTemplates({ category: 'payment' })).map((t) => t.id);
+
+      expect(ids).toContain('typescript/nextjs/payment/stripe-checkout');
+      expect(ids).not.toContain('typescript/nextjs/payment/stripe-base');
+      expect((await service.loadTemplate('typescript/nextjs/payment/stripe-checkout'))?.abstract).toBeUndefined();
+    });
+
+    it('should invalidate templates extending a changed template', async () => {
+      const before = await inherited.loadTemplate(CHILD_ID);
+
+      expect(inherited.invalidate([RESEND_ID]).sort()).toEqual([RESEND_ID, CHILD_ID]);
+      expect(await inherited.loadTemplate(CHILD_ID)).not.toBe(before);
+      expect(inherited.invalidate([CHILD_ID])).toEqual([CHILD_ID]);
+    });
+  });
+
+  describe('template versions', () => {
+    // The bundled stripe-checkout keeps 1.2.0 next to the current 2.0.0 and lists 1.0.0 as removed
+    const CHECKOUT_ID = 'typescript/nextjs/payment/stripe-checkout';
+
+    it('should list versions newest first', async () => {
+      expect(await service.listVersions(CHECKOUT_ID)).toEqual(['2.0.0', '1.2.0']);
+
+      const items = await service.listTemplateItems({ category: 'payment' });
+      expect(items.find((item) => item.id === CHECKOUT_ID)?.versions).toEqual(['2.0.0', '1.2.0']);
+    });
+
+    it('should resolve versions and ranges', async () => {
+      expect(await service.resolveVersion(CHECKOUT_ID)).toBe('2.0.0');
+      expect(await service.resolveVersion(CHECKOUT_ID, '1.x')).toBe('1.2.0');
+      expect(await service.resolveVersion(CHECKOUT_ID, '>=1.0.0')).toBe('2.0.0');
+    });
+
+    it('should load an earlier version with its own code, changelog and README', async () => {
+      const template = await service.getTemplateWithCode(CHECKOUT_ID, {}, '1.2.0');
+
+      expect(template?.version).toBe('1.2.0');
+      expect(template?.dependencies).toEqual({ stripe: '^14.0.0' });
+      expect(template?.code['stripe.ts']).toContain("apiVersion: '2023-10-16'");
+      expect(Object.keys(template?.code ?? {})).not.toContain('checkout-button.tsx');
+      expect(await service.getChangelog(CHECKOUT_ID, '1.2.0')).toContain('# 1.2.0');
+      expect(await service.getChangelog(CHECKOUT_ID)).toContain('# 2.0.0');
+      expect(await service.getReadme(CHECKOUT_ID, '1.2.0')).toContain('# Stripe Checkout Template (1.2.0)');
+      expect(await service.getReadme(CHECKOUT_ID, '2.0.0')).toBe(await service.getReadme(CHECKOUT_ID));
+    });
+
+    it('should keep the current version as the default', async () => {
+      const template = await service.getTemplateWithCode(CHECKOUT_ID);
+
+      expect(template?.version).toBe('2.0.0');
+      expect(template?.code['stripe.ts']).toContain("apiVersion: '2024-12-18.acacia'");
+    });
+
+    it('should answer removed versions with a deprecation notice', async () => {
+      await expect(service.resolveVersion(CHECKOUT_ID, '1.0.0')).rejects.toThrow(TemplateVersionRemovedError);
+      await expect(service.resolveVersion(CHECKOUT_ID, '~1.0.0')).rejects.toThrow(
+        'Deprecated: version 1.0.0 of typescript/nextjs/payment/stripe-checkout was removed on 2026-01-15. ' +
+          'Its webhook route processed events without verifying the Stripe signature; use 1.2.0 or later.'
+      );
+    });
+
+    it('should reject versions that never existed', async () => {
+      await expect(service.resolveVersion(CHECKOUT_ID, '3.x')).rejects.toThrow(TemplateVersionNotFoundError);
+      await expect(service.resolveVersion(CHECKOUT_ID, 'not a range')).rejects.toThrow(InvalidTemplateError);
+    });
+
+    it('should reject versions that are not valid path components', () => {
+      expect(() => service.buildTemplatePath(CHECKOUT_ID, undefined, '../1.0.0')).toThrow(InvalidTemplateError);
+    });
+  });
 });